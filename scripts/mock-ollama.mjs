@@ -0,0 +1,324 @@
+#!/usr/bin/env node
+/*
+  Stand-in for the Ollama daemon, for demos and for exercising LlamaService, retrieval and the
+  embedding build without a GPU. Every reply is deterministic for the same input.
+
+  Usage:
+    node scripts/mock-ollama.mjs [--port 11435]   (--port 0 picks a free port; the startup line names it)
+    OLLAMA_HOST=http://127.0.0.1:11435 npm run dev
+
+  Endpoints:
+    GET  /api/version, /api/tags, /api/ps
+    POST /api/show, /api/pull (streamed progress; names starting with "missing" fail), /api/delete
+    POST /api/chat, /api/generate (streamed NDJSON unless "stream": false)
+    POST /api/embed (batch), /api/embeddings (legacy, one prompt)
+    GET  /v1/models, POST /v1/chat/completions (SSE), /v1/embeddings   (OpenAI-compatible)
+
+  Fault injection (env at start, or POST /__mock/faults with the same keys as JSON at runtime):
+    MOCK_LATENCY_MS        delay before every response (default 0)
+    MOCK_TOKEN_DELAY_MS    delay between streamed chunks (default 5)
+    MOCK_FAIL_RATE         fraction of API requests answered with 500 (default 0)
+    MOCK_FAIL_PATHS        comma-separated paths that always answer 500, e.g. /api/embed
+    MOCK_DROP_STREAM_AFTER destroy streamed responses after N chunks (default off)
+    MOCK_REVERSE_EMBEDDINGS=1  list /v1/embeddings data last index first, as some servers do
+    MOCK_MODELS            comma-separated installed models (default llama3.2:latest,nomic-embed-text:latest)
+    MOCK_EMBED_DIM         embedding size (default 768)
+  GET /__mock/state shows installed models, faults and request counts; POST /__mock/reset restores the start state.
+*/
+
+import http from 'http'
+
+const args = process.argv.slice(2)
+const argValue = (name) => {
+  const i = args.indexOf(name)
+  return i >= 0 ? args[i + 1] : undefined
+}
+const PORT = parseInt(argValue('--port') || process.env.PORT || '11435', 10)
+
+const initialFaults = () => ({
+  latencyMs: parseInt(process.env.MOCK_LATENCY_MS || '0', 10),
+  tokenDelayMs: parseInt(process.env.MOCK_TOKEN_DELAY_MS || '5', 10),
+  failRate: parseFloat(process.env.MOCK_FAIL_RATE || '0'),
+  failPaths: (process.env.MOCK_FAIL_PATHS || '').split(',').map(s => s.trim()).filter(Boolean),
+  dropStreamAfter: process.env.MOCK_DROP_STREAM_AFTER ? parseInt(process.env.MOCK_DROP_STREAM_AFTER, 10) : null,
+  reverseEmbeddings: process.env.MOCK_REVERSE_EMBEDDINGS === '1'
+})
+const initialModels = () => (process.env.MOCK_MODELS || 'llama3.2:latest,nomic-embed-text:latest')
+  .split(',').map(s => s.trim()).filter(Boolean)
+const EMBED_DIM = parseInt(process.env.MOCK_EMBED_DIM || '768', 10)
+
+let faults = initialFaults()
+let installed = new Set(initialModels())
+let requestCounts = {}
+let failCounter = 0
+
+// FNV-1a, so the same text always hashes the same across runs and platforms
+function hash(text) {
+  let h = 0x811c9dc5
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i)
+    h = Math.imul(h, 0x01000193)
+  }
+  return h >>> 0
+}
+
+// Ollama accepts "name" for "name:latest"
+const canonical = (model) => (model && !model.includes(':') ? `${model}:latest` : model)
+const isInstalled = (model) => installed.has(canonical(model)) || installed.has(model)
+
+const sleep = (ms) => (ms > 0 ? new Promise(resolve => setTimeout(resolve, ms)) : Promise.resolve())
+
+function modelDetails(model) {
+  const h = hash(model)
+  const sizes = ['1B', '3B', '7B', '8B']
+  const embedding = /embed/i.test(model)
+  return {
+    size: embedding ? 274302450 : 1000000000 + (h % 4000000000),
+    details: {
+      format: 'gguf',
+      family: embedding ? 'nomic-bert' : 'llama',
+      families: [embedding ? 'nomic-bert' : 'llama'],
+      parameter_size: embedding ? '137M' : sizes[h % sizes.length],
+      quantization_level: embedding ? 'F16' : 'Q4_K_M'
+    },
+    contextLength: embedding ? 2048 : 8192
+  }
+}
+
+function listEntry(model) {
+  const { size, details } = modelDetails(model)
+  return {
+    name: model,
+    model,
+    modified_at: '2024-01-01T00:00:00Z',
+    size,
+    digest: hash(model).toString(16).padStart(8, '0').repeat(8),
+    details: { parent_model: '', ...details }
+  }
+}
+
+/** Hashed bag-of-words, L2-normalised: texts sharing words get similar vectors */
+function embed(text) {
+  const vec = new Array(EMBED_DIM).fill(0)
+  for (const token of String(text).toLowerCase().match(/[a-z0-9]+/g) || []) {
+    const h = hash(token)
+    vec[h % EMBED_DIM] += (h & 0x80000000) ? -1 : 1
+  }
+  const norm = Math.sqrt(vec.reduce((acc, v) => acc + v * v, 0))
+  return norm ? vec.map(v => v / norm) : vec
+}
+
+/** A canned reply that quotes the question, so tests can assert on it */
+function replyFor(model, messages) {
+  const lastUser = [...(messages || [])].reverse().find(m => m.role === 'user')
+  const question = String(lastUser?.content || '').replace(/\s+/g, ' ').trim().slice(0, 80)
+  const openers = ['Here is what I found.', 'Based on your notes:', 'Short answer:', 'From what you wrote:']
+  return `${openers[hash(question) % openers.length]} [${model}] You asked: "${question}".`
+}
+
+// Words keep their trailing space so chunks join back into the full reply
+const tokenize = (text) => text.match(/\S+\s*/g) || []
+
+function readBody(req) {
+  return new Promise((resolve, reject) => {
+    let body = ''
+    req.on('data', chunk => { body += chunk })
+    req.on('end', () => {
+      if (!body) return resolve({})
+      try { resolve(JSON.parse(body)) } catch { reject(new Error('invalid JSON body')) }
+    })
+    req.on('error', reject)
+  })
+}
+
+function sendJson(res, status, payload) {
+  res.writeHead(status, { 'Content-Type': 'application/json' })
+  res.end(JSON.stringify(payload))
+}
+
+/**
+ * Write chunks one by one; honours the token delay and the dropped-stream fault. `beforeLast`
+ * runs once everything but the final chunk got through.
+ */
+async function stream(res, contentType, chunks, beforeLast) {
+  res.writeHead(200, { 'Content-Type': contentType })
+  for (let i = 0; i < chunks.length; i++) {
+    if (faults.dropStreamAfter != null && i >= faults.dropStreamAfter) {
+      res.destroy()
+      return
+    }
+    if (i === chunks.length - 1) beforeLast?.()
+    res.write(chunks[i])
+    await sleep(faults.tokenDelayMs)
+  }
+  res.end()
+}
+
+const ndjson = (objects) => objects.map(o => `${JSON.stringify(o)}\n`)
+
+function modelNotFound(res, model) {
+  sendJson(res, 404, { error: `model "${model}" not found, try pulling it first` })
+}
+
+const routes = {
+  'GET /api/version': (req, res) => sendJson(res, 200, { version: '0.5.0-mock' }),
+
+  'GET /api/tags': (req, res) => sendJson(res, 200, { models: [...installed].map(listEntry) }),
+
+  'GET /api/ps': (req, res) => sendJson(res, 200, { models: [] }),
+
+  'POST /api/show': async (req, res) => {
+    const body = await readBody(req)
+    const model = body.model || body.name
+    if (!isInstalled(model)) return modelNotFound(res, model)
+    const { details, contextLength } = modelDetails(canonical(model))
+    const arch = details.family
+    sendJson(res, 200, {
+      modelfile: `FROM ${model}`,
+      parameters: 'stop "<|eot_id|>"',
+      template: '{{ .Prompt }}',
+      details,
+      model_info: { 'general.architecture': arch, [`${arch}.context_length`]: contextLength, [`${arch}.embedding_length`]: EMBED_DIM }
+    })
+  },
+
+  'POST /api/pull': async (req, res) => {
+    const body = await readBody(req)
+    const model = canonical(body.model || body.name)
+    if (!model || /^missing/i.test(model)) {
+      return sendJson(res, 500, { error: 'pull model manifest: file does not exist' })
+    }
+    const total = modelDetails(model).size
+    const steps = [0, 0.25, 0.5, 0.75, 1].map(f => ({ status: `pulling ${hash(model).toString(16)}`, digest: `sha256:${hash(model).toString(16)}`, total, completed: Math.round(total * f) }))
+    const events = [{ status: 'pulling manifest' }, ...steps, { status: 'verifying sha256 digest' }, { status: 'writing manifest' }, { status: 'success' }]
+    if (body.stream === false) {
+      installed.add(model)
+      return sendJson(res, 200, { status: 'success' })
+    }
+    // A dropped stream leaves the model uninstalled, like a real interrupted download
+    await stream(res, 'application/x-ndjson', ndjson(events), () => installed.add(model))
+  },
+
+  'DELETE /api/delete': async (req, res) => {
+    const body = await readBody(req)
+    const model = body.model || body.name
+    if (!isInstalled(model)) return modelNotFound(res, model)
+    installed.delete(canonical(model))
+    installed.delete(model)
+    res.writeHead(200)
+    res.end()
+  },
+
+  'POST /api/chat': async (req, res) => {
+    const body = await readBody(req)
+    if (!isInstalled(body.model)) return modelNotFound(res, body.model)
+    const reply = replyFor(body.model, body.messages)
+    const base = { model: body.model, created_at: '2024-01-01T00:00:00Z' }
+    if (body.stream === false) {
+      return sendJson(res, 200, { ...base, message: { role: 'assistant', content: reply }, done: true, done_reason: 'stop' })
+    }
+    const chunks = tokenize(reply).map(t => ({ ...base, message: { role: 'assistant', content: t }, done: false }))
+    chunks.push({ ...base, message: { role: 'assistant', content: '' }, done: true, done_reason: 'stop', eval_count: chunks.length })
+    await stream(res, 'application/x-ndjson', ndjson(chunks))
+  },
+
+  'POST /api/generate': async (req, res) => {
+    const body = await readBody(req)
+    if (!isInstalled(body.model)) return modelNotFound(res, body.model)
+    const reply = replyFor(body.model, [{ role: 'user', content: body.prompt }])
+    const base = { model: body.model, created_at: '2024-01-01T00:00:00Z' }
+    if (body.stream === false) return sendJson(res, 200, { ...base, response: reply, done: true })
+    const chunks = tokenize(reply).map(t => ({ ...base, response: t, done: false }))
+    chunks.push({ ...base, response: '', done: true, done_reason: 'stop' })
+    await stream(res, 'application/x-ndjson', ndjson(chunks))
+  },
+
+  'POST /api/embed': async (req, res) => {
+    const body = await readBody(req)
+    if (!isInstalled(body.model)) return modelNotFound(res, body.model)
+    const input = Array.isArray(body.input) ? body.input : [body.input]
+    sendJson(res, 200, { model: body.model, embeddings: input.map(embed), total_duration: 0, load_duration: 0, prompt_eval_count: input.length })
+  },
+
+  'POST /api/embeddings': async (req, res) => {
+    const body = await readBody(req)
+    if (!isInstalled(body.model)) return modelNotFound(res, body.model)
+    sendJson(res, 200, { embedding: embed(body.prompt) })
+  },
+
+  'GET /v1/models': (req, res) => sendJson(res, 200, {
+    object: 'list',
+    data: [...installed].map(id => ({ id, object: 'model', owned_by: 'mock', meta: { n_ctx_train: modelDetails(id).contextLength, size: modelDetails(id).size } }))
+  }),
+
+  'POST /v1/chat/completions': async (req, res) => {
+    const body = await readBody(req)
+    if (!isInstalled(body.model)) return sendJson(res, 404, { error: { message: `model ${body.model} not found` } })
+    const reply = replyFor(body.model, body.messages)
+    const base = { id: `chatcmpl-${hash(reply).toString(16)}`, object: 'chat.completion.chunk', created: 1704067200, model: body.model }
+    if (!body.stream) {
+      return sendJson(res, 200, { ...base, object: 'chat.completion', choices: [{ index: 0, message: { role: 'assistant', content: reply }, finish_reason: 'stop' }] })
+    }
+    const events = tokenize(reply).map(t => `data: ${JSON.stringify({ ...base, choices: [{ index: 0, delta: { content: t }, finish_reason: null }] })}\n\n`)
+    events.push(`data: ${JSON.stringify({ ...base, choices: [{ index: 0, delta: {}, finish_reason: 'stop' }] })}\n\n`, 'data: [DONE]\n\n')
+    await stream(res, 'text/event-stream', events)
+  },
+
+  'POST /v1/embeddings': async (req, res) => {
+    const body = await readBody(req)
+    if (!isInstalled(body.model)) return sendJson(res, 404, { error: { message: `model ${body.model} not found` } })
+    const input = Array.isArray(body.input) ? body.input : [body.input]
+    const data = input.map((t, index) => ({ object: 'embedding', index, embedding: embed(t) }))
+    sendJson(res, 200, { object: 'list', model: body.model, data: faults.reverseEmbeddings ? data.reverse() : data })
+  },
+
+  'GET /__mock/state': (req, res) => sendJson(res, 200, { installed: [...installed], faults, requests: requestCounts }),
+
+  'POST /__mock/faults': async (req, res) => {
+    const body = await readBody(req)
+    const keys = { MOCK_LATENCY_MS: 'latencyMs', MOCK_TOKEN_DELAY_MS: 'tokenDelayMs', MOCK_FAIL_RATE: 'failRate', MOCK_FAIL_PATHS: 'failPaths', MOCK_DROP_STREAM_AFTER: 'dropStreamAfter', MOCK_REVERSE_EMBEDDINGS: 'reverseEmbeddings' }
+    for (const [key, value] of Object.entries(body)) {
+      const field = keys[key] || key
+      if (!(field in faults)) continue
+      faults[field] = field === 'failPaths' && typeof value === 'string' ? value.split(',').map(s => s.trim()).filter(Boolean) : value
+    }
+    sendJson(res, 200, faults)
+  },
+
+  'POST /__mock/reset': (req, res) => {
+    faults = initialFaults()
+    installed = new Set(initialModels())
+    requestCounts = {}
+    failCounter = 0
+    sendJson(res, 200, { ok: true })
+  }
+}
+
+const server = http.createServer(async (req, res) => {
+  const path = (req.url || '/').split('?')[0]
+  const key = `${req.method} ${path}`
+  const route = routes[key] || (path === '/api/delete' ? routes['DELETE /api/delete'] : undefined)
+  const isControl = path.startsWith('/__mock/')
+  if (!isControl) requestCounts[key] = (requestCounts[key] || 0) + 1
+  console.log(`🧪 [MockOllama] ${key}`)
+
+  try {
+    if (!route) return sendJson(res, 404, { error: `no mock route for ${key}` })
+    if (!isControl) {
+      await sleep(faults.latencyMs)
+      // Every 1/failRate-th request fails, so runs are reproducible
+      const failEvery = faults.failRate > 0 ? Math.max(1, Math.round(1 / faults.failRate)) : 0
+      if (faults.failPaths.includes(path) || (failEvery && ++failCounter % failEvery === 0)) {
+        return sendJson(res, 500, { error: `mock fault injected for ${path}` })
+      }
+    }
+    await route(req, res)
+  } catch (error) {
+    if (!res.headersSent) sendJson(res, 400, { error: String(error?.message || error) })
+    else res.destroy()
+  }
+})
+
+server.listen(PORT, '127.0.0.1', () => {
+  console.log(`🧪 [MockOllama] Listening on http://127.0.0.1:${server.address().port} (models: ${[...installed].join(', ')})`)
+})
@@ -1,9 +1,14 @@
 import Database from 'better-sqlite3'
 import { join, normalize, resolve } from 'path'
 import { app } from 'electron'
-import { existsSync, mkdirSync, unlinkSync, statSync } from 'fs'
+import { existsSync, mkdirSync, unlinkSync, statSync, readdirSync } from 'fs'
+import { createHash } from 'crypto'
+import { MIGRATIONS, LATEST_SCHEMA_VERSION, MigrationError, MigrationStatus, EmbeddingsMigrationReport } from './migrations'
+import { toVectorBlob, fromVectorBlob } from './vectorBlob'
 import path from 'path'
 import os from 'os'
+import { parseFrontmatter, readFrontmatterProperties, PropertyType, PropertyValue } from '../utils/frontmatter'
+import type { CompiledSearchQuery } from '../utils/searchQuery'
 
 // Safe console wrapper for Windows compatibility
 const safeConsole = {
@@ -38,6 +43,7 @@ export interface FileRecord {
   created_at: string
   modified_at: string
   size: number
+  content_hash?: string | null
 }
 
 export interface SearchIndex {
@@ -53,8 +59,26 @@ export interface ChatRecord {
   created_at: string
   updated_at: string
   is_active: boolean
+  persona_id?: number | null
+  /** Last message of the branch the chat shows; NULL falls back to the newest message */
+  active_leaf_id?: number | null
 }
 
+/** An assistant persona; null knobs fall back to the global retrieval settings */
+export interface PersonaRecord {
+  id: number
+  name: string
+  system_prompt: string
+  length_guidance: string | null
+  char_budget: number | null
+  max_results: number | null
+  per_file_cap: number | null
+  created_at: string
+  updated_at: string
+}
+
+export type PersonaInput = Pick<PersonaRecord, 'name' | 'system_prompt'> & Partial<Pick<PersonaRecord, 'length_guidance' | 'char_budget' | 'max_results' | 'per_file_cap'>>
+
 export interface ChatMessageRecord {
   id: number
   chat_id: number
@@ -62,6 +86,29 @@ export interface ChatMessageRecord {
   content: string
   created_at: string
   metadata?: string | null
+  parent_id?: number | null
+  /** Position among messages sharing the parent (edits and regenerations), on the active branch */
+  sibling_index?: number
+  sibling_count?: number
+}
+
+/** A chat message matching a chat:search query */
+export interface ChatSearchHit {
+  message_id: number
+  chat_id: number
+  chat_title: string
+  role: 'user' | 'assistant' | 'system'
+  snippet: string
+  created_at: string
+}
+
+export interface ChunkLocation {
+  chunk_id: number
+  heading_path: string | null
+  char_start: number | null
+  char_end: number | null
+  start_line: number | null
+  end_line: number | null
 }
 
 export interface AppSettings {
@@ -89,18 +136,96 @@ export interface ContentChunk {
   created_at: string
 }
 
-class IslaDatabase {
+export interface BacklinkResult {
+  link_id: number
+  source_file_id: number
+  source_path: string
+  source_name: string
+  line: number
+  context: string
+}
+
+export interface OutgoingLink {
+  link_id: number
+  target: string
+  alias: string | null
+  heading: string | null
+  line: number
+  is_embed: boolean
+  resolved: boolean
+  target_file_id: number | null
+  target_path: string | null
+  target_name: string | null
+}
+
+export interface PropertyQueryResult {
+  id: number
+  path: string
+  name: string
+  note_date?: string
+  file_mtime?: string
+  properties: Record<string, PropertyValue>
+}
+
+export type EmbeddingsChangeEvent =
+  | { type: 'upsert'; chunkId: number; vector: Float32Array | number[]; model: string }
+  | { type: 'clear'; model?: string }
+  // Chunks deleted from content_chunks; their embeddings went with them through ON DELETE CASCADE
+  | { type: 'delete'; chunkIds: number[] }
+
+export interface UnresolvedLink {
+  link_id: number
+  source_file_id: number
+  source_path: string
+  source_name: string
+  target: string
+  line: number
+  context: string
+}
+
+/** A chunk as produced by the chunker, with its location in the source note */
+interface StructuredChunk {
+  text: string
+  headingPath: string
+  heading: string
+  level: number
+  charStart: number
+  charEnd: number
+  startLine: number
+  endLine: number
+}
+
+export interface IslaDatabaseOptions {
+  /** Database file to open instead of the per-user default; ':memory:' keeps everything in memory */
+  dbPath?: string
+}
+
+export class IslaDatabase {
   private db: Database.Database | null = null
   private dbPath: string
   private isWindows: boolean
   private isInitialized: boolean = false
   private initializationPromise: Promise<void> | null = null
   private ftsReady: boolean = false
-
-  constructor() {
+  private chatFtsReady: boolean = false
+  // Set when the DB file did not exist before this launch (no backup needed before migrating)
+  private isNewDatabase: boolean = false
+  private migrationStatus: MigrationStatus = { version: 0, latest: LATEST_SCHEMA_VERSION, backupPath: null, error: null, failedMigration: null }
+  // A failed migration is sticky: retrying would only take another backup and fail again
+  private migrationFailure: MigrationError | null = null
+  // Recent embedding load timings (ms) for embeddings:getStats
+  private embeddingQueryTimings: number[] = []
+  private embeddingsListeners: Array<(event: EmbeddingsChangeEvent) => void> = []
+
+  constructor(options: IslaDatabaseOptions = {}) {
     this.isWindows = os.platform() === 'win32'
-    // Cross-platform database path
-    this.dbPath = this.getDatabasePath()
+    // Cross-platform database path unless the caller picked one (eval harness, tests)
+    this.dbPath = options.dbPath || this.getDatabasePath()
+  }
+
+  /** In-memory databases have no file: nothing to back up and nothing to persist next to */
+  public isInMemory(): boolean {
+    return this.dbPath === ':memory:'
   }
 
   /**
@@ -215,6 +340,10 @@ class IslaDatabase {
       return Promise.resolve()
     }
 
+    if (this.migrationFailure) {
+      throw this.migrationFailure
+    }
+
     // Create and store the initialization promise
     this.initializationPromise = this.performInitialization()
     
@@ -237,7 +366,7 @@ class IslaDatabase {
     try {
       // Ensure database directory exists
       const dbDir = path.dirname(this.dbPath)
-      if (!existsSync(dbDir)) {
+      if (!this.isInMemory() && !existsSync(dbDir)) {
         const dirOptions: any = { recursive: true }
         if (!this.isWindows) {
           dirOptions.mode = 0o755
@@ -245,6 +374,8 @@ class IslaDatabase {
         mkdirSync(dbDir, dirOptions)
       }
 
+      this.isNewDatabase = this.isInMemory() || !existsSync(this.dbPath)
+
       // Windows-specific database options with retry logic
       const dbOptions: Database.Options = {}
       
@@ -305,6 +436,14 @@ class IslaDatabase {
 
     } catch (error) {
       console.error('❌ [Database] Failed to initialize:', error)
+
+      // Leave the (rolled back) database closed and untouched; the renderer shows the error
+      if (error instanceof MigrationError) {
+        this.migrationFailure = error
+        try { this.db?.close() } catch {}
+        this.db = null
+        throw error
+      }
       
       // Windows-specific error handling
       if (this.isWindows && error.message.includes('database is locked')) {
@@ -430,6 +569,58 @@ class IslaDatabase {
       )
     `)
 
+    // Wikilinks between notes ([[Target|alias]]); target_file_id is NULL while dangling
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS links (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        source_file_id INTEGER NOT NULL,
+        target TEXT NOT NULL,
+        target_key TEXT NOT NULL,
+        target_file_id INTEGER,
+        alias TEXT,
+        heading TEXT,
+        is_embed INTEGER NOT NULL DEFAULT 0,
+        line INTEGER NOT NULL,
+        context TEXT,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (source_file_id) REFERENCES files (id) ON DELETE CASCADE,
+        FOREIGN KEY (target_file_id) REFERENCES files (id) ON DELETE SET NULL
+      )
+    `)
+
+    // Frontmatter aliases per file (used to resolve [[alias]] links)
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS file_aliases (
+        file_id INTEGER NOT NULL,
+        alias TEXT NOT NULL,
+        alias_key TEXT NOT NULL,
+        FOREIGN KEY (file_id) REFERENCES files (id) ON DELETE CASCADE
+      )
+    `)
+
+    // Tags per file (inline #tags and frontmatter tags:), stored lowercase without '#'
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS tags (
+        file_id INTEGER NOT NULL,
+        tag TEXT NOT NULL,
+        source TEXT NOT NULL CHECK (source IN ('inline', 'frontmatter')),
+        FOREIGN KEY (file_id) REFERENCES files (id) ON DELETE CASCADE
+      )
+    `)
+
+    // Typed frontmatter properties; list values are stored one row per item
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS properties (
+        file_id INTEGER NOT NULL,
+        key TEXT NOT NULL,
+        type TEXT NOT NULL CHECK (type IN ('string', 'number', 'date', 'list', 'boolean')),
+        value_text TEXT,
+        value_num REAL,
+        position INTEGER NOT NULL DEFAULT 0,
+        FOREIGN KEY (file_id) REFERENCES files (id) ON DELETE CASCADE
+      )
+    `)
+
     // FTS removed - using direct content_chunks search instead
 
     // Search index table - for full-text search
@@ -485,6 +676,16 @@ class IslaDatabase {
       CREATE INDEX IF NOT EXISTS idx_search_file ON search_index (file_id);
       CREATE INDEX IF NOT EXISTS idx_headings_file ON headings (file_id);
       CREATE INDEX IF NOT EXISTS idx_headings_level ON headings (level);
+      CREATE INDEX IF NOT EXISTS idx_links_source ON links (source_file_id);
+      CREATE INDEX IF NOT EXISTS idx_links_target_file ON links (target_file_id);
+      CREATE INDEX IF NOT EXISTS idx_links_target_key ON links (target_key);
+      CREATE INDEX IF NOT EXISTS idx_file_aliases_file ON file_aliases (file_id);
+      CREATE INDEX IF NOT EXISTS idx_file_aliases_key ON file_aliases (alias_key);
+      CREATE INDEX IF NOT EXISTS idx_tags_file ON tags (file_id);
+      CREATE INDEX IF NOT EXISTS idx_tags_tag ON tags (tag);
+      CREATE INDEX IF NOT EXISTS idx_properties_file ON properties (file_id);
+      CREATE INDEX IF NOT EXISTS idx_properties_key ON properties (key, value_text);
+      CREATE INDEX IF NOT EXISTS idx_properties_key_num ON properties (key, value_num);
       CREATE INDEX IF NOT EXISTS idx_chats_updated ON chats (updated_at);
       CREATE INDEX IF NOT EXISTS idx_chat_messages_chat ON chat_messages (chat_id);
       CREATE INDEX IF NOT EXISTS idx_chat_messages_created ON chat_messages (created_at);
@@ -498,49 +699,90 @@ class IslaDatabase {
     this.setupFTS()
   }
 
+  /**
+   * Apply pending numbered migrations (tracked in PRAGMA user_version), each in its own
+   * transaction. Existing databases are backed up first; failures throw a MigrationError
+   * instead of falling back to recreating the database.
+   */
   private runMigrations(): void {
     if (!this.db) throw new Error('Database not initialized')
 
-    // Add file_mtime and note_date columns if missing
-    const columns: Array<{name: string}> = this.db.prepare("PRAGMA table_info(files)").all() as any
-    const hasMtime = columns.some(c => c.name === 'file_mtime')
-    const hasNoteDate = columns.some(c => c.name === 'note_date')
+    const current = this.db.pragma('user_version', { simple: true }) as number
+    this.migrationStatus = { version: current, latest: LATEST_SCHEMA_VERSION, backupPath: null, error: null, failedMigration: null }
+
+    if (current > LATEST_SCHEMA_VERSION) {
+      console.warn(`⚠️ [Database] Schema v${current} is newer than this build (v${LATEST_SCHEMA_VERSION}); continuing without migrating`)
+      return
+    }
+
+    const pending = MIGRATIONS.filter(m => m.version > current)
+    if (pending.length === 0) return
 
-    if (!hasMtime) {
+    let backupPath: string | null = null
+    if (!this.isNewDatabase) {
       try {
-        this.db.exec("ALTER TABLE files ADD COLUMN file_mtime DATETIME")
+        backupPath = this.backupBeforeMigration(current)
       } catch (e) {
-        console.warn('⚠️ [Database] Failed to add file_mtime:', e)
+        const message = `Could not back up the database before migrating from v${current}: ${(e as Error)?.message || e}`
+        this.migrationStatus = { ...this.migrationStatus, error: message, failedMigration: `${pending[0].version}_${pending[0].name}` }
+        throw new MigrationError(message, current, this.migrationStatus.failedMigration!, null)
       }
     }
-    if (!hasNoteDate) {
+
+    let version = current
+    for (const migration of pending) {
+      const label = `${migration.version}_${migration.name}`
       try {
-        this.db.exec("ALTER TABLE files ADD COLUMN note_date DATE")
+        const tx = this.db.transaction(() => {
+          migration.up(this.db!)
+          this.db!.pragma(`user_version = ${migration.version}`)
+        })
+        tx()
+        version = migration.version
+        console.log(`✅ [Database] Applied migration ${label}`)
+        if (migration.after) {
+          try { migration.after(this.db) } catch (e) { console.warn(`⚠️ [Database] Post-migration step of ${label} failed:`, e) }
+        }
       } catch (e) {
-        console.warn('⚠️ [Database] Failed to add note_date:', e)
+        const message = `Migration ${label} failed: ${(e as Error)?.message || e}`
+        this.migrationStatus = { version, latest: LATEST_SCHEMA_VERSION, backupPath, error: message, failedMigration: label }
+        throw new MigrationError(message, version, label, backupPath)
       }
     }
 
-    // Add metadata to chat_messages if missing
-    try {
-      const chatCols: Array<{name: string}> = this.db.prepare("PRAGMA table_info(chat_messages)").all() as any
-      const hasMetadata = chatCols.some(c => c.name === 'metadata')
-      if (!hasMetadata) {
-        this.db.exec("ALTER TABLE chat_messages ADD COLUMN metadata TEXT")
-      }
-    } catch (e) {
-      console.warn('⚠️ [Database] Failed to ensure chat_messages.metadata:', e)
-    }
+    this.migrationStatus = { version, latest: LATEST_SCHEMA_VERSION, backupPath, error: null, failedMigration: null }
+  }
+
+  /**
+   * Consistent copy of the database (VACUUM INTO) next to it, e.g. isla.db.v3-20250101T120000.bak.
+   * Only the three most recent backups are kept.
+   */
+  private backupBeforeMigration(fromVersion: number): string {
+    if (!this.db) throw new Error('Database not initialized')
+
+    const stamp = new Date().toISOString().replace(/[-:]/g, '').replace(/\..*$/, '')
+    const backupPath = `${this.dbPath}.v${fromVersion}-${stamp}.bak`
+    this.db.prepare('VACUUM INTO ?').run(backupPath)
+    console.log(`💾 [Database] Backed up database before migrating: ${backupPath}`)
 
-    // Indexes for new columns
     try {
-      this.db.exec(`
-        CREATE INDEX IF NOT EXISTS idx_files_file_mtime ON files (file_mtime);
-        CREATE INDEX IF NOT EXISTS idx_files_note_date ON files (note_date);
-      `)
+      const dir = path.dirname(this.dbPath)
+      const prefix = `${path.basename(this.dbPath)}.v`
+      const backups = readdirSync(dir)
+        .filter(f => f.startsWith(prefix) && f.endsWith('.bak'))
+        .map(f => ({ f, mtime: statSync(join(dir, f)).mtimeMs }))
+        .sort((a, b) => b.mtime - a.mtime)
+      backups.slice(3).forEach(b => unlinkSync(join(dir, b.f)))
     } catch (e) {
-      console.warn('⚠️ [Database] Failed to create indexes for new columns:', e)
+      console.warn('⚠️ [Database] Failed to prune old migration backups:', e)
     }
+
+    return backupPath
+  }
+
+  /** Schema version and the last migration error (if any), for the renderer */
+  public getMigrationStatus(): MigrationStatus {
+    return { ...this.migrationStatus }
   }
 
   private setupFTS(): void {
@@ -563,13 +805,32 @@ class IslaDatabase {
       this.ftsReady = false
     }
 
-    // Embeddings table
+    // Chat history search; kept in sync by addChatMessage/deleteChat/clearAllChats
+    this.chatFtsReady = false
+    if (this.ftsReady) {
+      try {
+        const existed = !!this.db.prepare("SELECT 1 FROM sqlite_master WHERE name = 'chat_messages_fts'").get()
+        this.db.exec(`
+          CREATE VIRTUAL TABLE IF NOT EXISTS chat_messages_fts USING fts5(
+            content,
+            content='chat_messages', content_rowid='id'
+          );
+        `)
+        // Messages written before the index existed
+        if (!existed) this.db.exec("INSERT INTO chat_messages_fts(chat_messages_fts) VALUES('rebuild')")
+        this.chatFtsReady = true
+      } catch (e) {
+        console.warn('⚠️ [Database] Chat search index unavailable, falling back to LIKE:', e)
+      }
+    }
+
+    // Embeddings table (Float32 BLOB vectors; dim is checked against the blob size)
     try {
       this.db.exec(`
         CREATE TABLE IF NOT EXISTS embeddings (
           chunk_id INTEGER NOT NULL,
-          vector TEXT NOT NULL,
-          dim INTEGER NOT NULL,
+          vector BLOB NOT NULL,
+          dim INTEGER NOT NULL CHECK (length(vector) = dim * 4),
           model TEXT NOT NULL,
           created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
           FOREIGN KEY (chunk_id) REFERENCES content_chunks (id) ON DELETE CASCADE
@@ -583,6 +844,17 @@ class IslaDatabase {
     }
   }
 
+  /** Size of the database file on disk (0 for in-memory or unreadable) */
+  private getDatabaseSizeBytes(): number {
+    try {
+      let total = statSync(this.dbPath).size
+      try { total += statSync(`${this.dbPath}-wal`).size } catch {}
+      return total
+    } catch {
+      return 0
+    }
+  }
+
   private deriveNoteDate(fileName: string, content?: string): string | null {
     // Priority 1: Content-based dates (more reliable)
     if (content) {
@@ -667,10 +939,16 @@ class IslaDatabase {
     return null
   }
 
+  /** SHA-1 of note content, used to skip re-indexing unchanged files */
+  private hashContent(content: string): string {
+    return createHash('sha1').update(content, 'utf8').digest('hex')
+  }
+
   /**
-   * Save or update file content in database with cross-platform path normalization
+   * Save or update file content in database with cross-platform path normalization.
+   * Returns false when the stored content hash matches and re-indexing was skipped.
    */
-  public saveFile(filePath: string, fileName: string, content: string): void {
+  public saveFile(filePath: string, fileName: string, content: string): boolean {
     if (!this.db) throw new Error('Database not initialized')
 
     // Normalize file path for consistent cross-platform storage
@@ -685,20 +963,32 @@ class IslaDatabase {
       fileMtimeIso = new Date().toISOString()
     }
 
+    const contentHash = this.hashContent(content)
+    const existing = this.db.prepare('SELECT id, name, content_hash, file_mtime FROM files WHERE path = ?')
+      .get(normalizedPath) as { id: number; name: string; content_hash: string | null; file_mtime: string | null } | undefined
+    if (existing && existing.content_hash === contentHash && existing.name === fileName) {
+      // Unchanged content: keep chunks, embeddings and links; only track the new mtime
+      if (existing.file_mtime !== fileMtimeIso) {
+        this.db.prepare('UPDATE files SET file_mtime = ? WHERE id = ?').run(fileMtimeIso, existing.id)
+      }
+      return false
+    }
+
     const noteDate = this.deriveNoteDate(fileName, content)
 
     const stmt = this.db.prepare(`
-      INSERT INTO files (path, name, content, modified_at, size, file_mtime, note_date)
-      VALUES (?, ?, ?, CURRENT_TIMESTAMP, ?, ?, ?)
+      INSERT INTO files (path, name, content, modified_at, size, file_mtime, note_date, content_hash)
+      VALUES (?, ?, ?, CURRENT_TIMESTAMP, ?, ?, ?, ?)
       ON CONFLICT(path) DO UPDATE SET
         name=excluded.name,
         content=excluded.content,
         modified_at=CURRENT_TIMESTAMP,
         size=excluded.size,
         file_mtime=excluded.file_mtime,
-        note_date=COALESCE(excluded.note_date, files.note_date)
+        note_date=COALESCE(excluded.note_date, files.note_date),
+        content_hash=excluded.content_hash
     `)
-    const result = stmt.run(normalizedPath, fileName, content, content.length, fileMtimeIso, noteDate)
+    stmt.run(normalizedPath, fileName, content, content.length, fileMtimeIso, noteDate, contentHash)
 
     // Get file id (insert or existing)
     const fileRecord = this.db.prepare('SELECT id FROM files WHERE path = ?').get(normalizedPath) as { id: number }
@@ -707,197 +997,649 @@ class IslaDatabase {
     // Update content chunks and FTS
     this.updateContentChunks(fileId, normalizedPath, fileName, content)
 
+    // Update wikilinks and aliases
+    this.updateLinks(fileId, normalizedPath, fileName, content)
+
+    // Update tags and frontmatter properties (keyed by file id, so renames keep them)
+    this.updateTags(fileId, fileName, content)
+    this.updateProperties(fileId, content)
+
     console.log(`✅ [Database] Saved file: ${fileName} (${normalizedPath})`)
+    return true
   }
 
   /**
-   * Break content into chunks and update FTS index
+   * Break content into chunks and update FTS index.
+   * Chunks are diffed by text hash: unchanged chunks keep their row id (and with it their
+   * embeddings and FTS entry); only added/removed chunks are written.
    */
   private updateContentChunks(fileId: number, filePath: string, fileName: string, content: string): void {
     if (!this.db) throw new Error('Database not initialized')
 
-    // Clear existing chunks and FTS rows for this file
-    this.db.prepare('DELETE FROM content_chunks WHERE file_id = ?').run(fileId)
-    if (this.ftsReady) {
-      this.db.prepare('DELETE FROM chunks_fts WHERE file_id = ?').run(fileId)
-    }
-    this.db.prepare('DELETE FROM headings WHERE file_id = ?').run(fileId)
-
     const { chunks, headings } = this.chunkContentStructured(content)
 
+    const existing = this.db.prepare(`
+      SELECT id, chunk_text, chunk_index, text_hash FROM content_chunks WHERE file_id = ? ORDER BY chunk_index ASC
+    `).all(fileId) as Array<{ id: number; chunk_text: string; chunk_index: number; text_hash: string | null }>
+
+    // Queue existing ids per hash so repeated identical chunks pair up in order
+    const byHash = new Map<string, typeof existing>()
+    for (const row of existing) {
+      const hash = row.text_hash || this.hashContent(row.chunk_text)
+      const list = byHash.get(hash)
+      if (list) list.push(row)
+      else byHash.set(hash, [row])
+    }
+
     const insertChunk = this.db.prepare(`
-      INSERT INTO content_chunks (file_id, chunk_text, chunk_index)
-      VALUES (?, ?, ?)
+      INSERT INTO content_chunks (file_id, chunk_text, chunk_index, text_hash)
+      VALUES (?, ?, ?, ?)
     `)
+    const updateChunk = this.db.prepare('UPDATE content_chunks SET chunk_index = ?, text_hash = ? WHERE id = ?')
+    const deleteChunk = this.db.prepare('DELETE FROM content_chunks WHERE id = ?')
 
+    // chunks_fts is an external-content table: rows are removed with the 'delete' command and the old text
     const insertFts = this.ftsReady
       ? this.db.prepare(`INSERT INTO chunks_fts(rowid, chunk_text, file_id) VALUES(?, ?, ?)`)
       : null
+    const deleteFts = this.ftsReady
+      ? this.db.prepare(`INSERT INTO chunks_fts(chunks_fts, rowid, chunk_text, file_id) VALUES('delete', ?, ?, ?)`)
+      : null
 
     const insertChunkMeta = this.db.prepare(`
-      INSERT OR REPLACE INTO chunk_meta (chunk_id, heading_path, heading, level)
-      VALUES (?, ?, ?, ?)
+      INSERT OR REPLACE INTO chunk_meta (chunk_id, heading_path, heading, level, char_start, char_end, start_line, end_line)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
     `)
+    const writeMeta = (chunkId: number, chunk: typeof chunks[number]) =>
+      insertChunkMeta.run(chunkId, chunk.headingPath, chunk.heading, chunk.level, chunk.charStart, chunk.charEnd, chunk.startLine, chunk.endLine)
 
     const insertHeading = this.db.prepare(`
       INSERT INTO headings (file_id, level, text, char_index)
       VALUES (?, ?, ?, ?)
     `)
 
+    let kept = 0
+    let added = 0
+    const removedIds: number[] = []
+
     const tx = this.db.transaction(() => {
-      // Insert headings for outline
+      // Headings are cheap to rebuild for the outline
+      this.db!.prepare('DELETE FROM headings WHERE file_id = ?').run(fileId)
       headings.forEach(h => insertHeading.run(fileId, h.level, h.text, h.charIndex))
 
+      const toInsert: Array<{ index: number; hash: string; chunk: typeof chunks[number] }> = []
       chunks.forEach((chunk, index) => {
-        const res = insertChunk.run(fileId, chunk.text, index)
+        const hash = this.hashContent(chunk.text)
+        const match = byHash.get(hash)?.shift()
+        if (match) {
+          if (match.chunk_index !== index || match.text_hash !== hash) updateChunk.run(index, hash, match.id)
+          // Heading context and position can change without the text changing
+          writeMeta(match.id, chunk)
+          kept++
+        } else {
+          toInsert.push({ index, hash, chunk })
+        }
+      })
+
+      // Whatever is left unmatched was edited or removed (embeddings/chunk_meta cascade)
+      for (const rows of byHash.values()) {
+        for (const row of rows) {
+          if (deleteFts) deleteFts.run(row.id, row.chunk_text, fileId)
+          deleteChunk.run(row.id)
+          removedIds.push(row.id)
+        }
+      }
+
+      for (const { index, hash, chunk } of toInsert) {
+        const res = insertChunk.run(fileId, chunk.text, index, hash)
         const chunkId = Number(res.lastInsertRowid)
         if (insertFts) insertFts.run(chunkId, chunk.text, fileId)
-        insertChunkMeta.run(chunkId, chunk.headingPath, chunk.heading, chunk.level)
-      })
+        writeMeta(chunkId, chunk)
+        added++
+      }
     })
 
     tx()
+    if (removedIds.length) this.emitEmbeddingsChange({ type: 'delete', chunkIds: removedIds })
 
-    console.log(`📝 [Database] Indexed ${chunks.length} chunks (${headings.length} headings) for ${fileName}`)
+    console.log(`📝 [Database] Indexed ${chunks.length} chunks for ${fileName} (${kept} kept, ${added} added, ${removedIds.length} removed; ${headings.length} headings)`)
   }
 
   /**
-   * Split content into heading-aware overlapping chunks and extract headings
+   * Normalize a wikilink target or file name into a lookup key
    */
-  private chunkContentStructured(content: string): { chunks: Array<{ text: string; headingPath: string; heading: string; level: number }>; headings: Array<{ level: number; text: string; charIndex: number }> } {
-    const lines = content.split(/\r?\n/)
-    const headings: Array<{ level: number; text: string; charIndex: number }> = []
-    const chunks: Array<{ text: string; headingPath: string; heading: string; level: number }> = []
+  private linkKey(value: string): string {
+    return value
+      .trim()
+      .replace(/\\/g, '/')
+      .replace(/^\.\//, '')
+      .replace(/\.md$/i, '')
+      .toLowerCase()
+  }
 
-    // Track heading path
-    const pathStack: Array<{ level: number; text: string }> = []
-    const textBlocks: Array<{ start: number; end: number; text: string; level: number; heading: string; headingPath: string }> = []
-    let currentStart = 0
-    let currentLevel = 0
-    let currentHeading = ''
-    let currentPath = ''
-    let charOffset = 0
+  /**
+   * Extract [[wikilinks]] with line numbers, skipping fenced code blocks
+   */
+  private extractWikilinks(content: string): Array<{ target: string; alias: string | null; heading: string | null; isEmbed: boolean; line: number; context: string }> {
+    const links: Array<{ target: string; alias: string | null; heading: string | null; isEmbed: boolean; line: number; context: string }> = []
+    const lines = content.split(/\r?\n/)
+    let inFence = false
 
-    const flushBlock = (endLine: number) => {
-      const blockLines = lines.slice(currentStart, endLine)
-      const blockText = blockLines.join('\n').trim()
-      if (blockText) {
-        textBlocks.push({ start: currentStart, end: endLine, text: blockText, level: currentLevel, heading: currentHeading, headingPath: currentPath })
+    lines.forEach((lineText, i) => {
+      if (/^\s*(```|~~~)/.test(lineText)) {
+        inFence = !inFence
+        return
       }
-    }
+      if (inFence) return
+
+      const re = /(!?)\[\[([^\[\]\n]+?)\]\]/g
+      let m: RegExpExecArray | null
+      while ((m = re.exec(lineText)) !== null) {
+        const raw = m[2]
+        const pipeIdx = raw.indexOf('|')
+        const ref = (pipeIdx >= 0 ? raw.slice(0, pipeIdx) : raw).trim()
+        const alias = pipeIdx >= 0 ? raw.slice(pipeIdx + 1).trim() || null : null
+        const hashIdx = ref.indexOf('#')
+        const target = (hashIdx >= 0 ? ref.slice(0, hashIdx) : ref).trim()
+        const heading = hashIdx >= 0 ? ref.slice(hashIdx + 1).trim() || null : null
+        // [[#Heading]] points inside the current note; nothing to index
+        if (!target) continue
+        links.push({
+          target,
+          alias,
+          heading,
+          isEmbed: m[1] === '!',
+          line: i + 1,
+          context: lineText.trim().slice(0, 240)
+        })
+      }
+    })
 
-    for (let i = 0; i < lines.length; i++) {
-      const line = lines[i]
-      const m = line.match(/^(#{1,6})\s+(.*)$/)
-      if (m) {
-        // flush previous block before heading
-        flushBlock(i)
-        const level = m[1].length
-        const text = (m[2] || '').trim()
-        headings.push({ level, text, charIndex: charOffset })
-        // maintain path stack
-        while (pathStack.length && pathStack[pathStack.length - 1].level >= level) {
-          pathStack.pop()
-        }
-        pathStack.push({ level, text })
-        currentPath = pathStack.map(h => h.text).join(' > ')
-        currentHeading = text
-        currentLevel = level
-        currentStart = i + 1
+    return links
+  }
+
+  /**
+   * Read a list-valued frontmatter key (a list, or a scalar optionally split on commas/spaces)
+   */
+  private readFrontmatterList(content: string, keys: string[], splitScalar: boolean = false): string[] {
+    const parsed = parseFrontmatter(content)
+    const values: string[] = []
+    for (const [key, value] of Object.entries(parsed)) {
+      if (!keys.includes(key.toLowerCase()) || value === null) continue
+      if (Array.isArray(value)) {
+        values.push(...value)
+      } else {
+        const text = String(value).trim()
+        const parts = splitScalar ? text.split(/[,\s]+/) : [text]
+        values.push(...parts.filter(Boolean))
       }
-      charOffset += line.length + 1
     }
-    // flush last block
-    flushBlock(lines.length)
+    return Array.from(new Set(values))
+  }
 
-    // Now turn blocks into overlapping chunks by token-like length
-    const maxLen = 2000  // ~500 tokens for optimal RAG performance
-    const overlap = 300   // ~75 tokens (15% overlap)
-    for (const block of textBlocks) {
-      const text = block.text.replace(/\s+/g, ' ').trim()
-      if (!text) continue
-      if (text.length <= maxLen) {
-        chunks.push({ text, headingPath: block.headingPath, heading: block.heading, level: block.level || 0 })
-      } else {
-        for (let i = 0; i < text.length; i += (maxLen - overlap)) {
-          const slice = text.slice(i, i + maxLen)
-          if (slice.trim().length > 50) {
-            chunks.push({ text: slice.trim(), headingPath: block.headingPath, heading: block.heading, level: block.level || 0 })
-          }
-        }
+  /**
+   * Read `aliases:` / `alias:` from YAML frontmatter
+   */
+  private extractAliases(content: string): string[] {
+    return this.readFrontmatterList(content, ['aliases', 'alias'])
+  }
+
+  /**
+   * Resolve a wikilink target to a file id: relative path, then name, then alias
+   */
+  private resolveLinkTarget(target: string, sourcePath: string): number | null {
+    if (!this.db) throw new Error('Database not initialized')
+
+    const key = this.linkKey(target)
+    if (!key) return null
+    const sourceDir = path.posix.dirname(sourcePath)
+
+    if (key.includes('/')) {
+      const candidates = [path.posix.join(sourceDir, `${key}.md`)]
+      const root = this.getSetting('selectedDirectory')
+      if (root) candidates.push(path.posix.join(this.normalizeFilePath(root), `${key}.md`))
+      for (const candidate of candidates) {
+        const hit = this.db.prepare('SELECT id FROM files WHERE lower(path) = ?').get(candidate.toLowerCase()) as { id: number } | undefined
+        if (hit) return hit.id
       }
+      const suffix = this.db.prepare(`
+        SELECT id FROM files WHERE lower(path) LIKE ? ORDER BY length(path) ASC LIMIT 1
+      `).get(`%/${key}.md`) as { id: number } | undefined
+      if (suffix) return suffix.id
+      return null
     }
-    if (chunks.length === 0 && content.trim()) {
-      chunks.push({ text: content.trim(), headingPath: '', heading: '', level: 0 })
+
+    const byName = this.db.prepare(`
+      SELECT id, path FROM files WHERE lower(name) = ? OR lower(name) = ?
+    `).all(`${key}.md`, key) as Array<{ id: number; path: string }>
+    if (byName.length > 0) {
+      // Prefer a note in the same folder, then the shallowest path
+      byName.sort((a, b) => {
+        const aSame = path.posix.dirname(a.path) === sourceDir ? 0 : 1
+        const bSame = path.posix.dirname(b.path) === sourceDir ? 0 : 1
+        return aSame - bSame || a.path.length - b.path.length
+      })
+      return byName[0].id
     }
-    return { chunks, headings }
+
+    const byAlias = this.db.prepare('SELECT file_id FROM file_aliases WHERE alias_key = ? LIMIT 1').get(key) as { file_id: number } | undefined
+    return byAlias ? byAlias.file_id : null
   }
 
   /**
-   * Search content using simple LIKE queries
+   * Rebuild outgoing links and aliases for a file, then re-resolve links that may now point at it
    */
-  public searchContent(query: string, limit: number = 10): SearchResult[] {
+  private updateLinks(fileId: number, filePath: string, fileName: string, content: string): void {
     if (!this.db) throw new Error('Database not initialized')
 
-    try {
-      // Clean and split query into individual words
-      const words = query.toLowerCase()
-        .replace(/['\"*?!@#$%^&()+={}[\\]|\\\\:\";'<>,.]/g, ' ')
-        .split(/\s+/)
-        .filter(word => word.length > 1) // Allow 2+ character words
-        .slice(0, 8) // Allow more words for better search
+    const links = this.extractWikilinks(content)
+    const aliases = this.extractAliases(content)
 
-      if (words.length === 0) {
-        console.log('🔍 [Database] No valid search words found')
-        return []
-      }
+    const insertLink = this.db.prepare(`
+      INSERT INTO links (source_file_id, target, target_key, target_file_id, alias, heading, is_embed, line, context)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `)
+    const insertAlias = this.db.prepare('INSERT INTO file_aliases (file_id, alias, alias_key) VALUES (?, ?, ?)')
+    const setTarget = this.db.prepare('UPDATE links SET target_file_id = ? WHERE id = ?')
 
-      console.log(`🔍 [Database] Search words: ${words.join(', ')}`)
+    const tx = this.db.transaction(() => {
+      this.db!.prepare('DELETE FROM file_aliases WHERE file_id = ?').run(fileId)
+      aliases.forEach(a => insertAlias.run(fileId, a, this.linkKey(a)))
 
-      // Simple approach: search for any word match
-      const results: SearchResult[] = []
-      
-      for (const word of words) {
-        const stmt = this.db.prepare(`
-          SELECT 
-            c.id,
-            c.file_id,
-            f.path as file_path,
-            f.name as file_name,
-            substr(c.chunk_text, 1, 200) as content_snippet,
-            c.chunk_index as chunk_index,
-            f.file_mtime,
-            f.note_date,
-            1 as rank
-          FROM content_chunks c
-          JOIN files f ON c.file_id = f.id
-          WHERE LOWER(c.chunk_text) LIKE '%' || ? || '%'
-          ORDER BY f.file_mtime DESC, f.note_date DESC
-          LIMIT ?
-        `)
-        
-        const wordResults = stmt.all(word, Math.ceil(limit / words.length)) as SearchResult[]
-        results.push(...wordResults)
-      }
+      this.db!.prepare('DELETE FROM links WHERE source_file_id = ?').run(fileId)
+      links.forEach(l => {
+        const targetFileId = this.resolveLinkTarget(l.target, filePath)
+        insertLink.run(fileId, l.target, this.linkKey(l.target), targetFileId, l.alias, l.heading, l.isEmbed ? 1 : 0, l.line, l.context)
+      })
 
-      // Remove duplicates and limit results
-      const uniqueResults = results.filter((result, index, self) => 
-        index === self.findIndex(r => r.id === result.id)
-      ).slice(0, limit)
+      // Links elsewhere that were dangling (or already pointed here) may resolve differently now
+      const nameKey = this.linkKey(fileName)
+      const keys = [nameKey, ...aliases.map(a => this.linkKey(a))]
+      const placeholders = keys.map(() => '?').join(',')
+      const affected = this.db!.prepare(`
+        SELECT l.id, l.target, f.path AS source_path
+        FROM links l JOIN files f ON f.id = l.source_file_id
+        WHERE l.source_file_id != ?
+          AND (l.target_file_id IS NULL OR l.target_file_id = ?)
+          AND (l.target_key IN (${placeholders}) OR l.target_key LIKE ? OR l.target_file_id = ?)
+      `).all(fileId, fileId, ...keys, `%/${nameKey}`, fileId) as Array<{ id: number; target: string; source_path: string }>
+      affected.forEach(row => setTarget.run(this.resolveLinkTarget(row.target, row.source_path), row.id))
+    })
 
-      console.log(`🔍 [Database] Found ${uniqueResults.length} results for: ${query}`)
-      return uniqueResults
-      
-    } catch (error) {
-      console.error('❌ [Database] Search error:', error)
-      return []
+    tx()
+
+    if (links.length > 0) {
+      console.log(`🔗 [Database] Indexed ${links.length} links for ${fileName}`)
     }
   }
 
   /**
-   * Get file content by ID
+   * Retry resolution of dangling links that target the given key (e.g. after a delete)
    */
-  public getFileContent(fileId: number): string | null {
+  private resolveDanglingLinks(key: string): void {
+    if (!this.db) throw new Error('Database not initialized')
+
+    const rows = this.db.prepare(`
+      SELECT l.id, l.target, f.path AS source_path
+      FROM links l JOIN files f ON f.id = l.source_file_id
+      WHERE l.target_file_id IS NULL AND (l.target_key = ? OR l.target_key LIKE ?)
+    `).all(key, `%/${key}`) as Array<{ id: number; target: string; source_path: string }>
+    const setTarget = this.db.prepare('UPDATE links SET target_file_id = ? WHERE id = ?')
+    rows.forEach(row => setTarget.run(this.resolveLinkTarget(row.target, row.source_path), row.id))
+  }
+
+  /**
+   * Normalize a tag: lowercase, no leading '#', no empty path segments
+   */
+  private normalizeTag(tag: string): string {
+    return tag
+      .trim()
+      .replace(/^#+/, '')
+      .toLowerCase()
+      .split('/')
+      .filter(Boolean)
+      .join('/')
+  }
+
+  /**
+   * Extract inline #tags (outside code) and frontmatter tags
+   */
+  private extractTags(content: string): Array<{ tag: string; source: 'inline' | 'frontmatter' }> {
+    const found = new Map<string, 'inline' | 'frontmatter'>()
+
+    for (const t of this.readFrontmatterList(content, ['tags', 'tag'], true)) {
+      const tag = this.normalizeTag(t)
+      if (tag) found.set(tag, 'frontmatter')
+    }
+
+    const body = content.replace(/^---\r?\n[\s\S]*?\r?\n---/, '')
+    let inFence = false
+    for (const rawLine of body.split(/\r?\n/)) {
+      if (/^\s*(```|~~~)/.test(rawLine)) {
+        inFence = !inFence
+        continue
+      }
+      if (inFence) continue
+      // Ignore inline code, wikilinks ([[#Heading]]) and link targets ([x](#anchor))
+      const line = rawLine
+        .replace(/`[^`]*`/g, ' ')
+        .replace(/\[\[[^\]]*\]\]/g, ' ')
+        .replace(/\]\([^)]*\)/g, '] ')
+      const re = /(^|[^\p{L}\p{N}_&#/\]])#([\p{L}\p{N}_\-/]+)/gu
+      let m: RegExpExecArray | null
+      while ((m = re.exec(line)) !== null) {
+        // Pure numbers (#1, #2024) are not tags
+        if (/^[\d/]+$/.test(m[2])) continue
+        const tag = this.normalizeTag(m[2])
+        if (tag && !found.has(tag)) found.set(tag, 'inline')
+      }
+    }
+
+    return Array.from(found.entries()).map(([tag, source]) => ({ tag, source }))
+  }
+
+  /**
+   * Replace the stored tags for a file
+   */
+  private updateTags(fileId: number, fileName: string, content: string): void {
+    if (!this.db) throw new Error('Database not initialized')
+
+    const tags = this.extractTags(content)
+    const insertTag = this.db.prepare('INSERT INTO tags (file_id, tag, source) VALUES (?, ?, ?)')
+
+    const tx = this.db.transaction(() => {
+      this.db!.prepare('DELETE FROM tags WHERE file_id = ?').run(fileId)
+      tags.forEach(t => insertTag.run(fileId, t.tag, t.source))
+    })
+
+    tx()
+
+    if (tags.length > 0) {
+      console.log(`🏷️ [Database] Indexed ${tags.length} tags for ${fileName}`)
+    }
+  }
+
+  /**
+   * SQL predicate restricting files (alias `f`) to a tag or any of its nested children
+   */
+  private tagFilterClause(tag: string): { sql: string; params: any[] } {
+    const t = this.normalizeTag(tag)
+    return {
+      sql: 'f.id IN (SELECT file_id FROM tags WHERE tag = ? OR substr(tag, 1, ?) = ?)',
+      params: [t, t.length + 1, `${t}/`]
+    }
+  }
+
+  /**
+   * Replace the stored frontmatter properties for a file
+   */
+  private updateProperties(fileId: number, content: string): void {
+    if (!this.db) throw new Error('Database not initialized')
+
+    const props = readFrontmatterProperties(content)
+    const insertProp = this.db.prepare(`
+      INSERT INTO properties (file_id, key, type, value_text, value_num, position)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `)
+
+    const tx = this.db.transaction(() => {
+      this.db!.prepare('DELETE FROM properties WHERE file_id = ?').run(fileId)
+      for (const p of props) {
+        if (Array.isArray(p.value)) {
+          p.value.forEach((item, idx) => {
+            const num = Number(item)
+            insertProp.run(fileId, p.key, 'list', item, item.trim() !== '' && Number.isFinite(num) ? num : null, idx)
+          })
+        } else if (p.type === 'boolean') {
+          insertProp.run(fileId, p.key, p.type, p.value ? 'true' : 'false', p.value ? 1 : 0, 0)
+        } else if (p.type === 'number') {
+          insertProp.run(fileId, p.key, p.type, String(p.value), p.value as number, 0)
+        } else {
+          insertProp.run(fileId, p.key, p.type, String(p.value), null, 0)
+        }
+      }
+    })
+
+    tx()
+  }
+
+  /**
+   * Compile one property filter (`status = done`, `rating >= 4`, `tags contains work`, `due exists`)
+   * into an SQL predicate over files (alias `f`)
+   */
+  private compilePropertyFilter(filter: string): { sql: string; params: any[] } {
+    const exists = filter.trim().match(/^(!)?([\w.\-/]+)\s+(exists|missing)$/i)
+    if (exists) {
+      const negate = !!exists[1] !== (exists[3].toLowerCase() === 'missing')
+      const sql = `${negate ? 'NOT ' : ''}EXISTS (SELECT 1 FROM properties p WHERE p.file_id = f.id AND p.key = ?)`
+      return { sql, params: [exists[2].toLowerCase()] }
+    }
+
+    const m = filter.trim().match(/^([\w.\-/]+)\s*(>=|<=|!=|=|>|<|\s+contains\s+)\s*(.+)$/i)
+    if (!m) throw new Error(`Invalid property filter: "${filter}"`)
+    const key = m[1].toLowerCase()
+    const op = m[2].trim().toLowerCase()
+    const raw = m[3].trim().replace(/^(['"])(.*)\1$/, '$2')
+    const sub = (cond: string) => `EXISTS (SELECT 1 FROM properties p WHERE p.file_id = f.id AND p.key = ? AND ${cond})`
+
+    if (op === 'contains') {
+      return { sql: sub(`(p.value_text = ? COLLATE NOCASE OR (p.type != 'list' AND instr(lower(p.value_text), lower(?)) > 0))`), params: [key, raw, raw] }
+    }
+
+    const num = Number(raw)
+    const isNum = raw !== '' && Number.isFinite(num)
+    const isBool = /^(true|false|yes|no)$/i.test(raw)
+
+    if (op === '=' || op === '!=') {
+      let cond: string
+      let params: any[]
+      if (isNum) {
+        cond = '(p.value_num = ? OR p.value_text = ?)'
+        params = [num, raw]
+      } else if (isBool) {
+        cond = "p.type = 'boolean' AND p.value_num = ?"
+        params = [/^(true|yes)$/i.test(raw) ? 1 : 0]
+      } else {
+        // Dates match on their day prefix so `date = 2025-08-12` finds timestamps too
+        cond = "(p.value_text = ? COLLATE NOCASE OR (p.type = 'date' AND substr(p.value_text, 1, 10) = ?))"
+        params = [raw, raw]
+      }
+      return { sql: `${op === '!=' ? 'NOT ' : ''}${sub(cond)}`, params: [key, ...params] }
+    }
+
+    // Ordering comparisons: numbers numerically, everything else (dates) as ISO text
+    if (isNum) {
+      return { sql: sub(`p.value_num IS NOT NULL AND p.value_num ${op} ?`), params: [key, num] }
+    }
+    return { sql: sub(`p.type IN ('date', 'string') AND p.value_text ${op} ?`), params: [key, raw] }
+  }
+
+  /**
+   * Split content into heading-aware overlapping chunks and extract headings.
+   * Each chunk records its source range: [charStart, charEnd) offsets and 1-based lines.
+   */
+  private chunkContentStructured(content: string): { chunks: StructuredChunk[]; headings: Array<{ level: number; text: string; charIndex: number }> } {
+    const lines = content.split(/\r?\n/)
+    const headings: Array<{ level: number; text: string; charIndex: number }> = []
+    const chunks: StructuredChunk[] = []
+
+    const lineStarts: number[] = [0]
+    for (let i = 0; i < content.length; i++) {
+      if (content[i] === '\n') lineStarts.push(i + 1)
+    }
+    const lineOf = (offset: number): number => {
+      let lo = 0, hi = lineStarts.length - 1
+      while (lo < hi) {
+        const mid = (lo + hi + 1) >> 1
+        if (lineStarts[mid] <= offset) lo = mid
+        else hi = mid - 1
+      }
+      return lo + 1
+    }
+    // Whitespace-collapsed text plus, per output char, its offset in `content`
+    const collapse = (from: number, to: number): { text: string; map: number[] } => {
+      let text = ''
+      const map: number[] = []
+      let inSpace = false
+      for (let i = from; i < to; i++) {
+        if (/\s/.test(content[i])) {
+          if (!inSpace && text) { text += ' '; map.push(i) }
+          inSpace = true
+        } else {
+          text += content[i]
+          map.push(i)
+          inSpace = false
+        }
+      }
+      if (text.endsWith(' ')) { text = text.slice(0, -1); map.pop() }
+      return { text, map }
+    }
+    const located = (text: string, charStart: number, charEnd: number, block: { headingPath: string; heading: string; level: number }): StructuredChunk => ({
+      text,
+      headingPath: block.headingPath,
+      heading: block.heading,
+      level: block.level || 0,
+      charStart,
+      charEnd,
+      startLine: lineOf(charStart),
+      endLine: lineOf(Math.max(charStart, charEnd - 1))
+    })
+
+    // Track heading path
+    const pathStack: Array<{ level: number; text: string }> = []
+    const textBlocks: Array<{ start: number; end: number; text: string; level: number; heading: string; headingPath: string }> = []
+    let currentStart = 0
+    let currentLevel = 0
+    let currentHeading = ''
+    let currentPath = ''
+    let charOffset = 0
+
+    const flushBlock = (endLine: number) => {
+      const blockLines = lines.slice(currentStart, endLine)
+      const blockText = blockLines.join('\n').trim()
+      if (blockText) {
+        textBlocks.push({ start: currentStart, end: endLine, text: blockText, level: currentLevel, heading: currentHeading, headingPath: currentPath })
+      }
+    }
+
+    for (let i = 0; i < lines.length; i++) {
+      const line = lines[i]
+      const m = line.match(/^(#{1,6})\s+(.*)$/)
+      if (m) {
+        // flush previous block before heading
+        flushBlock(i)
+        const level = m[1].length
+        const text = (m[2] || '').trim()
+        headings.push({ level, text, charIndex: charOffset })
+        // maintain path stack
+        while (pathStack.length && pathStack[pathStack.length - 1].level >= level) {
+          pathStack.pop()
+        }
+        pathStack.push({ level, text })
+        currentPath = pathStack.map(h => h.text).join(' > ')
+        currentHeading = text
+        currentLevel = level
+        currentStart = i + 1
+      }
+      charOffset += line.length + 1
+    }
+    // flush last block
+    flushBlock(lines.length)
+
+    // Now turn blocks into overlapping chunks by token-like length
+    const maxLen = 2000  // ~500 tokens for optimal RAG performance
+    const overlap = 300   // ~75 tokens (15% overlap)
+    for (const block of textBlocks) {
+      const blockEnd = block.end < lineStarts.length ? lineStarts[block.end] : content.length
+      const { text, map } = collapse(lineStarts[block.start], blockEnd)
+      if (!text) continue
+      if (text.length <= maxLen) {
+        chunks.push(located(text, map[0], map[map.length - 1] + 1, block))
+      } else {
+        for (let i = 0; i < text.length; i += (maxLen - overlap)) {
+          const slice = text.slice(i, i + maxLen)
+          if (slice.trim().length > 50) {
+            const first = i + (slice.length - slice.trimStart().length)
+            const last = i + slice.trimEnd().length - 1
+            chunks.push(located(slice.trim(), map[first], map[last] + 1, block))
+          }
+        }
+      }
+    }
+    if (chunks.length === 0 && content.trim()) {
+      const first = content.length - content.trimStart().length
+      chunks.push(located(content.trim(), first, content.trimEnd().length, { headingPath: '', heading: '', level: 0 }))
+    }
+    return { chunks, headings }
+  }
+
+  /**
+   * Search content using simple LIKE queries
+   */
+  public searchContent(query: string, limit: number = 10, tag: string | null = null): SearchResult[] {
+    if (!this.db) throw new Error('Database not initialized')
+
+    try {
+      // Clean and split query into individual words
+      const words = query.toLowerCase()
+        .replace(/['\"*?!@#$%^&()+={}[\\]|\\\\:\";'<>,.]/g, ' ')
+        .split(/\s+/)
+        .filter(word => word.length > 1) // Allow 2+ character words
+        .slice(0, 8) // Allow more words for better search
+
+      if (words.length === 0) {
+        console.log('🔍 [Database] No valid search words found')
+        return []
+      }
+
+      console.log(`🔍 [Database] Search words: ${words.join(', ')}`)
+
+      // Simple approach: search for any word match
+      const results: SearchResult[] = []
+      const tagFilter = tag ? this.tagFilterClause(tag) : null
+      
+      for (const word of words) {
+        const stmt = this.db.prepare(`
+          SELECT 
+            c.id,
+            c.file_id,
+            f.path as file_path,
+            f.name as file_name,
+            substr(c.chunk_text, 1, 200) as content_snippet,
+            c.chunk_index as chunk_index,
+            f.file_mtime,
+            f.note_date,
+            1 as rank
+          FROM content_chunks c
+          JOIN files f ON c.file_id = f.id
+          WHERE LOWER(c.chunk_text) LIKE '%' || ? || '%'
+          ${tagFilter ? `AND ${tagFilter.sql}` : ''}
+          ORDER BY f.file_mtime DESC, f.note_date DESC
+          LIMIT ?
+        `)
+        
+        const wordResults = stmt.all(word, ...(tagFilter ? tagFilter.params : []), Math.ceil(limit / words.length)) as SearchResult[]
+        results.push(...wordResults)
+      }
+
+      // Remove duplicates and limit results
+      const uniqueResults = results.filter((result, index, self) => 
+        index === self.findIndex(r => r.id === result.id)
+      ).slice(0, limit)
+
+      console.log(`🔍 [Database] Found ${uniqueResults.length} results for: ${query}`)
+      return uniqueResults
+      
+    } catch (error) {
+      console.error('❌ [Database] Search error:', error)
+      return []
+    }
+  }
+
+  /**
+   * Get file content by ID
+   */
+  public getFileContent(fileId: number): string | null {
     if (!this.db) throw new Error('Database not initialized')
 
     const stmt = this.db.prepare('SELECT content FROM files WHERE id = ?')
@@ -937,142 +1679,14 @@ class IslaDatabase {
       })
       
       transaction()
+      this.emitEmbeddingsChange({ type: 'clear' })
       console.log('✅ [Database] All indexed content cleared')
     } catch (error) {
       console.error('❌ [Database] Error clearing content:', error)
-      // Force recreate the database if clearing fails
-      this.forceRecreateDatabase()
-    }
-  }
-
-  private forceRecreateDatabase(): void {
-    console.log('🔄 [Database] Force recreating database due to errors...')
-    try {
-      if (this.db) {
-        try {
-          this.db.close()
-        } catch (closeError) {
-          console.warn('⚠️ [Database] Error during database close:', closeError)
-        }
-        this.db = null
-      }
-      
-      // Windows-specific cleanup delay
-      if (this.isWindows) {
-        // Give Windows file system time to release handles
-        console.log('🪟 [Database] Waiting for Windows file handles to release...')
-        setTimeout(() => this.performDatabaseCleanup(), 500)
-      } else {
-        this.performDatabaseCleanup()
-      }
-      
-    } catch (error) {
-      console.error('❌ [Database] Failed to recreate database:', error)
       throw error
     }
   }
 
-  /**
-   * Perform the actual database file cleanup with enhanced Windows support
-   */
-  private performDatabaseCleanup(): void {
-    try {
-      // Force garbage collection on Windows to release file handles
-      if (this.isWindows && global.gc) {
-        global.gc()
-      }
-      
-      // Delete the corrupted database file with cross-platform path handling
-      const normalizedPath = normalize(this.dbPath)
-      
-      // Windows-specific file deletion with retry logic
-      if (this.isWindows) {
-        this.deleteFileWithRetry(normalizedPath, 'main database')
-      } else {
-        if (existsSync(normalizedPath)) {
-          unlinkSync(normalizedPath)
-          console.log(`🗑️ [Database] Deleted corrupted database: ${normalizedPath}`)
-        }
-      }
-      
-      // Also clean up any associated WAL/SHM files (SQLite)
-      const walPath = normalizedPath + '-wal'
-      const shmPath = normalizedPath + '-shm'
-      const journalPath = normalizedPath + '-journal'
-      
-      if (this.isWindows) {
-        // Windows: delete with retry
-        this.deleteFileWithRetry(walPath, 'WAL file')
-        this.deleteFileWithRetry(shmPath, 'SHM file')
-        this.deleteFileWithRetry(journalPath, 'Journal file')
-      } else {
-        // Unix: standard deletion
-        if (existsSync(walPath)) {
-          unlinkSync(walPath)
-          console.log(`🗑️ [Database] Deleted WAL file: ${walPath}`)
-        }
-        
-        if (existsSync(shmPath)) {
-          unlinkSync(shmPath)
-          console.log(`🗑️ [Database] Deleted SHM file: ${shmPath}`)
-        }
-        
-        if (existsSync(journalPath)) {
-          unlinkSync(journalPath)
-          console.log(`🗑️ [Database] Deleted Journal file: ${journalPath}`)
-        }
-      }
-      
-      // Small delay before reinitializing on Windows
-      if (this.isWindows) {
-        setTimeout(() => {
-          this.initialize()
-          console.log('✅ [Database] Successfully recreated database')
-        }, 200)
-      } else {
-        // Reinitialize immediately on Unix
-        this.initialize()
-        console.log('✅ [Database] Successfully recreated database')
-      }
-      
-    } catch (error) {
-      console.error('❌ [Database] Failed during cleanup:', error)
-      throw error
-    }
-  }
-
-  /**
-   * Delete file with retry logic for Windows file locking issues
-   */
-  private deleteFileWithRetry(filePath: string, fileType: string, maxRetries: number = 3): void {
-    if (!existsSync(filePath)) return
-    
-    let retries = 0
-    const attemptDelete = () => {
-      try {
-        unlinkSync(filePath)
-        console.log(`🗑️ [Database] Deleted ${fileType}: ${filePath}`)
-      } catch (error) {
-        retries++
-        // Windows-specific error handling
-        const isWindowsError = error.code === 'EBUSY' || error.code === 'EACCES' || error.code === 'EPERM'
-        const isRetryable = retries < maxRetries && (isWindowsError || error.code === 'ENOENT')
-        
-        if (isRetryable) {
-          console.log(`🪟 [Database] ${fileType} busy/locked, retrying (${retries}/${maxRetries})...`)
-          setTimeout(attemptDelete, 100 * retries) // Exponential backoff
-        } else if (retries < maxRetries) {
-          console.log(`🪟 [Database] Retrying ${fileType} deletion (${retries}/${maxRetries})...`)
-          setTimeout(attemptDelete, 50)
-        } else {
-          console.warn(`⚠️ [Database] Failed to delete ${fileType} after ${maxRetries} attempts:`, error)
-        }
-      }
-    }
-    
-    attemptDelete()
-  }
-
   /**
    * Update search index for a file
    */
@@ -1209,6 +1823,15 @@ class IslaDatabase {
     return query.all() as ChatRecord[]
   }
 
+  /**
+   * Get a chat by id
+   */
+  public getChat(chatId: number): ChatRecord | null {
+    if (!this.db) throw new Error('Database not initialized')
+
+    return (this.db.prepare('SELECT * FROM chats WHERE id = ?').get(chatId) as ChatRecord | undefined) || null
+  }
+
   /**
    * Get active chat
    */
@@ -1239,19 +1862,26 @@ class IslaDatabase {
   }
 
   /**
-   * Add message to chat
+   * Add message to chat. Without a parent it continues the active branch; either way the new
+   * message becomes the end of the active branch.
    */
-  public addChatMessage(chatId: number, role: 'user' | 'assistant' | 'system', content: string, metadata?: any): ChatMessageRecord {
+  public addChatMessage(chatId: number, role: 'user' | 'assistant' | 'system', content: string, metadata?: any, parentId?: number | null): ChatMessageRecord {
     if (!this.db) throw new Error('Database not initialized')
 
     const transaction = this.db.transaction(() => {
+      const parent = parentId === undefined ? this.getActiveLeafId(chatId) : parentId
+
       // Insert message
       const insertMessage = this.db!.prepare(`
-        INSERT INTO chat_messages (chat_id, role, content, metadata) 
-        VALUES (?, ?, ?, ?)
+        INSERT INTO chat_messages (chat_id, role, content, metadata, parent_id) 
+        VALUES (?, ?, ?, ?, ?)
       `)
       const metadataString = metadata == null ? null : JSON.stringify(metadata)
-      const result = insertMessage.run(chatId, role, content, metadataString)
+      const result = insertMessage.run(chatId, role, content, metadataString, parent)
+      this.db!.prepare('UPDATE chats SET active_leaf_id = ? WHERE id = ?').run(result.lastInsertRowid, chatId)
+      if (this.chatFtsReady) {
+        this.db!.prepare('INSERT INTO chat_messages_fts(rowid, content) VALUES(?, ?)').run(result.lastInsertRowid, content)
+      }
 
       // Update chat timestamp
       const updateChat = this.db!.prepare('UPDATE chats SET updated_at = CURRENT_TIMESTAMP WHERE id = ?')
@@ -1266,30 +1896,104 @@ class IslaDatabase {
   }
 
   /**
-   * Get messages for a chat with optional limit and conversation context
+   * Messages on the chat's active branch, root first. With a limit, only the most recent ones
+   * (conversation context for prompts).
    */
   public getChatMessages(chatId: number, limit?: number): ChatMessageRecord[] {
     if (!this.db) throw new Error('Database not initialized')
 
+    // Walk parent links up from the branch leaf; depth 0 is the leaf
+    const sql = `
+      WITH RECURSIVE branch(id, depth) AS (
+        SELECT COALESCE(c.active_leaf_id, (SELECT MAX(id) FROM chat_messages WHERE chat_id = c.id)), 0
+        FROM chats c WHERE c.id = ?
+        UNION ALL
+        SELECT m.parent_id, b.depth + 1 FROM chat_messages m JOIN branch b ON m.id = b.id
+        WHERE m.parent_id IS NOT NULL
+      )
+      SELECT m.id, m.chat_id, m.parent_id, m.role, m.content, m.created_at, m.metadata,
+        (SELECT COUNT(*) FROM chat_messages s WHERE s.chat_id = m.chat_id AND s.parent_id IS m.parent_id) AS sibling_count,
+        (SELECT COUNT(*) FROM chat_messages s WHERE s.chat_id = m.chat_id AND s.parent_id IS m.parent_id AND s.id < m.id) AS sibling_index
+      FROM branch b JOIN chat_messages m ON m.id = b.id
+    `
+
     if (limit) {
-      // For conversation context - get recent messages in reverse chronological order
-      const stmt = this.db.prepare(`
-        SELECT id, chat_id, role, content, created_at, metadata 
-        FROM chat_messages 
-        WHERE chat_id = ? 
-        ORDER BY created_at DESC 
-        LIMIT ?
-      `)
-      
-      const messages = stmt.all(chatId, limit) as ChatMessageRecord[]
-      
-      // Return in chronological order (oldest first) for conversation context
+      // Most recent first, then back to chronological order for the prompt
+      const messages = this.db.prepare(`${sql} ORDER BY b.depth ASC LIMIT ?`).all(chatId, limit) as ChatMessageRecord[]
       return messages.reverse()
-    } else {
-      // Original functionality - get all messages in chronological order
-      const query = this.db.prepare('SELECT id, chat_id, role, content, created_at, metadata FROM chat_messages WHERE chat_id = ? ORDER BY created_at ASC')
-      return query.all(chatId) as ChatMessageRecord[]
     }
+    return this.db.prepare(`${sql} ORDER BY b.depth DESC`).all(chatId) as ChatMessageRecord[]
+  }
+
+  public getChatMessage(messageId: number): ChatMessageRecord | null {
+    if (!this.db) throw new Error('Database not initialized')
+
+    return (this.db.prepare('SELECT * FROM chat_messages WHERE id = ?').get(messageId) as ChatMessageRecord | undefined) || null
+  }
+
+  /** Last message of the active branch (null for an empty chat) */
+  public getActiveLeafId(chatId: number): number | null {
+    if (!this.db) throw new Error('Database not initialized')
+
+    const row = this.db.prepare(`
+      SELECT COALESCE(c.active_leaf_id, (SELECT MAX(id) FROM chat_messages WHERE chat_id = c.id)) AS id
+      FROM chats c WHERE c.id = ?
+    `).get(chatId) as { id: number | null } | undefined
+    return row?.id ?? null
+  }
+
+  /** End the active branch at a message; later messages stay as a branch to come back to */
+  public setActiveLeaf(chatId: number, messageId: number): void {
+    if (!this.db) throw new Error('Database not initialized')
+
+    this.db.prepare('UPDATE chats SET active_leaf_id = ? WHERE id = ?').run(messageId, chatId)
+  }
+
+  /**
+   * Make the branch through a message active, following the newest reply at every step below it.
+   * Returns the chat id.
+   */
+  public selectChatBranch(messageId: number): number {
+    if (!this.db) throw new Error('Database not initialized')
+
+    const message = this.getChatMessage(messageId)
+    if (!message) throw new Error(`Message ${messageId} not found`)
+    const newestChild = this.db.prepare('SELECT id FROM chat_messages WHERE parent_id = ? ORDER BY id DESC LIMIT 1')
+    let leaf = message.id
+    for (;;) {
+      const child = newestChild.get(leaf) as { id: number } | undefined
+      if (!child) break
+      leaf = child.id
+    }
+    this.setActiveLeaf(message.chat_id, leaf)
+    return message.chat_id
+  }
+
+  /** Flip to the previous (-1) or next (1) sibling of a message; returns the chat id */
+  public switchChatBranch(messageId: number, direction: number): number {
+    if (!this.db) throw new Error('Database not initialized')
+
+    const message = this.getChatMessage(messageId)
+    if (!message) throw new Error(`Message ${messageId} not found`)
+    const siblings = (this.db.prepare(`
+      SELECT id FROM chat_messages WHERE chat_id = ? AND parent_id IS ? ORDER BY id ASC
+    `).all(message.chat_id, message.parent_id ?? null) as Array<{ id: number }>).map(r => r.id)
+    const index = siblings.indexOf(message.id)
+    const target = siblings[Math.max(0, Math.min(siblings.length - 1, index + Math.sign(direction)))]
+    return this.selectChatBranch(target ?? message.id)
+  }
+
+  /**
+   * Edit a user message: the edit is stored as a new sibling (the original and its answers stay
+   * reachable) and becomes the end of the active branch.
+   */
+  public editChatMessage(messageId: number, content: string): ChatMessageRecord {
+    if (!this.db) throw new Error('Database not initialized')
+
+    const message = this.getChatMessage(messageId)
+    if (!message) throw new Error(`Message ${messageId} not found`)
+    if (message.role !== 'user') throw new Error('Only user messages can be edited')
+    return this.addChatMessage(message.chat_id, 'user', content, null, message.parent_id ?? null)
   }
 
   /**
@@ -1299,7 +2003,16 @@ class IslaDatabase {
     if (!this.db) throw new Error('Database not initialized')
 
     const deleteChat = this.db.prepare('DELETE FROM chats WHERE id = ?')
-    deleteChat.run(chatId)
+    const transaction = this.db.transaction(() => {
+      // The FTS rows need the old text to be removed, so drop them before the messages cascade away
+      if (this.chatFtsReady) {
+        const messages = this.db!.prepare('SELECT id, content FROM chat_messages WHERE chat_id = ?').all(chatId) as Array<{ id: number; content: string }>
+        const deleteFts = this.db!.prepare("INSERT INTO chat_messages_fts(chat_messages_fts, rowid, content) VALUES('delete', ?, ?)")
+        for (const m of messages) deleteFts.run(m.id, m.content)
+      }
+      deleteChat.run(chatId)
+    })
+    transaction()
   }
 
   /**
@@ -1312,16 +2025,157 @@ class IslaDatabase {
     updateChat.run(newTitle, chatId)
   }
 
+  /**
+   * Set (or with null, clear back to the built-in prompt) the persona of a chat
+   */
+  public setChatPersona(chatId: number, personaId: number | null): void {
+    if (!this.db) throw new Error('Database not initialized')
+
+    this.db.prepare('UPDATE chats SET persona_id = ? WHERE id = ?').run(personaId, chatId)
+  }
+
+  /** The persona a chat answers with, or null for the built-in prompt */
+  public getChatPersona(chatId: number): PersonaRecord | null {
+    if (!this.db) throw new Error('Database not initialized')
+
+    return (this.db.prepare(`
+      SELECT p.* FROM chats c JOIN personas p ON p.id = c.persona_id WHERE c.id = ?
+    `).get(chatId) as PersonaRecord | undefined) || null
+  }
+
   /** Delete ALL chats and ALL messages */
   public clearAllChats(): void {
     if (!this.db) throw new Error('Database not initialized')
     const txn = this.db.transaction(() => {
       this.db!.prepare('DELETE FROM chat_messages').run()
       this.db!.prepare('DELETE FROM chats').run()
+      if (this.chatFtsReady) this.db!.prepare("INSERT INTO chat_messages_fts(chat_messages_fts) VALUES('delete-all')").run()
     })
     txn()
   }
 
+  /**
+   * Search chat history; every word must match (the last one as a prefix, for search-as-you-type).
+   * Newest chats first among equally good hits.
+   */
+  public searchChatMessages(query: string, limit: number = 20): ChatSearchHit[] {
+    if (!this.db) throw new Error('Database not initialized')
+
+    const words = query
+      .toLowerCase()
+      .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+      .split(/\s+/)
+      .filter(Boolean)
+      .slice(0, 8)
+    if (words.length === 0) return []
+
+    const clean = (r: any): ChatSearchHit => ({
+      message_id: r.message_id,
+      chat_id: r.chat_id,
+      chat_title: r.chat_title,
+      role: r.role,
+      snippet: String(r.snippet || '').replace(/\s+/g, ' ').trim(),
+      created_at: r.created_at
+    })
+
+    if (this.chatFtsReady) {
+      try {
+        const match = words.map((w, i) => `"${w}"${i === words.length - 1 ? '*' : ''}`).join(' AND ')
+        const rows = this.db.prepare(`
+          SELECT m.id AS message_id, m.chat_id, c.title AS chat_title, m.role, m.created_at,
+                 snippet(chat_messages_fts, 0, '<mark>', '</mark>', '...', 16) AS snippet
+          FROM chat_messages_fts
+          JOIN chat_messages m ON m.id = chat_messages_fts.rowid
+          JOIN chats c ON c.id = m.chat_id
+          WHERE chat_messages_fts MATCH ?
+          ORDER BY bm25(chat_messages_fts) ASC, m.created_at DESC
+          LIMIT ?
+        `).all(match, limit) as any[]
+        return rows.map(clean)
+      } catch (error) {
+        console.error('⚠️ [Database] Chat FTS search failed, falling back:', error)
+      }
+    }
+
+    const clauses = words.map(() => 'lower(m.content) LIKE ?')
+    const rows = this.db.prepare(`
+      SELECT m.id AS message_id, m.chat_id, c.title AS chat_title, m.role, m.created_at,
+             substr(m.content, 1, 200) AS snippet
+      FROM chat_messages m
+      JOIN chats c ON c.id = m.chat_id
+      WHERE ${clauses.join(' AND ')}
+      ORDER BY m.created_at DESC
+      LIMIT ?
+    `).all(...words.map(w => `%${w}%`), limit) as any[]
+    return rows.map(clean)
+  }
+
+  // ========================
+  // PERSONAS
+  // ========================
+
+  public getPersonas(): PersonaRecord[] {
+    if (!this.db) throw new Error('Database not initialized')
+
+    return this.db.prepare('SELECT * FROM personas ORDER BY name COLLATE NOCASE').all() as PersonaRecord[]
+  }
+
+  public getPersona(id: number): PersonaRecord | null {
+    if (!this.db) throw new Error('Database not initialized')
+
+    return (this.db.prepare('SELECT * FROM personas WHERE id = ?').get(id) as PersonaRecord | undefined) || null
+  }
+
+  public createPersona(input: PersonaInput): PersonaRecord {
+    if (!this.db) throw new Error('Database not initialized')
+
+    const p = this.normalizePersonaInput(input)
+    const result = this.db.prepare(`
+      INSERT INTO personas (name, system_prompt, length_guidance, char_budget, max_results, per_file_cap)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `).run(p.name, p.system_prompt, p.length_guidance, p.char_budget, p.max_results, p.per_file_cap)
+    return this.getPersona(Number(result.lastInsertRowid))!
+  }
+
+  public updatePersona(id: number, input: PersonaInput): PersonaRecord {
+    if (!this.db) throw new Error('Database not initialized')
+
+    const p = this.normalizePersonaInput(input)
+    const result = this.db.prepare(`
+      UPDATE personas
+      SET name = ?, system_prompt = ?, length_guidance = ?, char_budget = ?, max_results = ?, per_file_cap = ?, updated_at = CURRENT_TIMESTAMP
+      WHERE id = ?
+    `).run(p.name, p.system_prompt, p.length_guidance, p.char_budget, p.max_results, p.per_file_cap, id)
+    if (result.changes === 0) throw new Error(`Persona ${id} not found`)
+    return this.getPersona(id)!
+  }
+
+  /** Chats using the persona fall back to the built-in prompt (persona_id ON DELETE SET NULL) */
+  public deletePersona(id: number): void {
+    if (!this.db) throw new Error('Database not initialized')
+
+    this.db.prepare('DELETE FROM personas WHERE id = ?').run(id)
+  }
+
+  private normalizePersonaInput(input: PersonaInput): Omit<PersonaRecord, 'id' | 'created_at' | 'updated_at'> {
+    const name = String(input?.name || '').trim()
+    const systemPrompt = String(input?.system_prompt || '').trim()
+    if (!name) throw new Error('Persona name is required')
+    if (!systemPrompt) throw new Error('Persona system prompt is required')
+    const knob = (v: unknown): number | null => {
+      const n = typeof v === 'number' ? v : parseInt(String(v ?? ''), 10)
+      return Number.isFinite(n) && n > 0 ? Math.floor(n) : null
+    }
+    return {
+      name,
+      system_prompt: systemPrompt,
+      length_guidance: String(input.length_guidance || '').trim() || null,
+      char_budget: knob(input.char_budget),
+      max_results: knob(input.max_results),
+      per_file_cap: knob(input.per_file_cap)
+    }
+  }
+
   // ========================
   // APP SETTINGS
   // ========================
@@ -1343,23 +2197,32 @@ class IslaDatabase {
   }
 
   /**
-   * Check if a file needs to be processed (new or modified) with cross-platform path handling
+   * Check if a file needs to be processed (new or modified) with cross-platform path handling.
+   * With content the stored hash decides; otherwise an unchanged mtime on a hashed row means skip.
    */
-  public needsProcessing(filePath: string, currentMtime: Date): boolean {
+  public needsProcessing(filePath: string, currentMtime: Date, content?: string): boolean {
     if (!this.db) throw new Error('Database not initialized')
 
     try {
       const normalizedPath = this.normalizeFilePath(filePath)
-      const existing = this.db.prepare('SELECT modified_at FROM files WHERE path = ?').get(normalizedPath) as { modified_at: string } | undefined
+      const existing = this.db.prepare('SELECT modified_at, file_mtime, content_hash FROM files WHERE path = ?')
+        .get(normalizedPath) as { modified_at: string; file_mtime: string | null; content_hash: string | null } | undefined
       
       if (!existing) {
         // File doesn't exist in database, needs processing
         return true
       }
+      if (!existing.content_hash) {
+        // Indexed before hashing existed; process once to record the hash
+        return true
+      }
+      if (typeof content === 'string') {
+        return this.hashContent(content) !== existing.content_hash
+      }
       
-      const dbMtime = new Date(existing.modified_at)
+      const dbMtime = new Date(existing.file_mtime || existing.modified_at)
       // File needs processing if it's been modified since last time
-      return currentMtime > dbMtime
+      return currentMtime.getTime() !== dbMtime.getTime()
     } catch (error) {
       console.error('❌ [Database] Error checking if file needs processing:', error)
       // On error, assume it needs processing to be safe
@@ -1392,20 +2255,26 @@ class IslaDatabase {
 
     const normalizedPath = this.normalizeFilePath(filePath)
 
+    let chunkIds: number[] = []
     const transaction = this.db.transaction(() => {
       // Find file id first (optional but useful for logging)
-      const file = this.db!.prepare('SELECT id FROM files WHERE path = ?').get(normalizedPath) as { id: number } | undefined
+      const file = this.db!.prepare('SELECT id, name FROM files WHERE path = ?').get(normalizedPath) as { id: number; name: string } | undefined
+      if (file?.id) {
+        chunkIds = (this.db!.prepare('SELECT id FROM content_chunks WHERE file_id = ?').all(file.id) as Array<{ id: number }>).map(r => r.id)
+      }
 
-      // Delete from files (CASCADE will remove content_chunks)
+      // Delete from files (CASCADE will remove content_chunks and outgoing links; incoming links become dangling)
       this.db!.prepare('DELETE FROM files WHERE path = ?').run(normalizedPath)
 
       // Clean up legacy search_index rows if any
       if (file?.id) {
         this.db!.prepare('DELETE FROM search_index WHERE file_id = ?').run(file.id)
+        this.resolveDanglingLinks(this.linkKey(file.name))
       }
     })
 
     transaction()
+    if (chunkIds.length) this.emitEmbeddingsChange({ type: 'delete', chunkIds })
   }
 
   /**
@@ -1426,6 +2295,208 @@ class IslaDatabase {
     `)
 
     stmt.run(normalizedNew, newName ?? null, normalizedOld)
+
+    // Relative links from this note and name-based links to it depend on the path
+    const file = this.db.prepare('SELECT id, name, content FROM files WHERE path = ?').get(normalizedNew) as { id: number; name: string; content: string } | undefined
+    if (file) {
+      this.updateLinks(file.id, normalizedNew, file.name, file.content || '')
+    }
+  }
+
+  /**
+   * Notes that link to the given file via [[wikilinks]]
+   */
+  public getBacklinks(filePath: string): BacklinkResult[] {
+    if (!this.db) throw new Error('Database not initialized')
+
+    const normalizedPath = this.normalizeFilePath(filePath)
+    return this.db.prepare(`
+      SELECT l.id AS link_id, l.source_file_id, f.path AS source_path, f.name AS source_name, l.line, l.context
+      FROM links l
+      JOIN files t ON t.id = l.target_file_id
+      JOIN files f ON f.id = l.source_file_id
+      WHERE t.path = ? AND l.source_file_id != t.id
+      ORDER BY f.name COLLATE NOCASE, l.line
+    `).all(normalizedPath) as BacklinkResult[]
+  }
+
+  /**
+   * Wikilinks found in the given file, resolved where possible
+   */
+  public getOutgoingLinks(filePath: string): OutgoingLink[] {
+    if (!this.db) throw new Error('Database not initialized')
+
+    const normalizedPath = this.normalizeFilePath(filePath)
+    const rows = this.db.prepare(`
+      SELECT l.id AS link_id, l.target, l.alias, l.heading, l.line, l.is_embed,
+             l.target_file_id, t.path AS target_path, t.name AS target_name
+      FROM links l
+      JOIN files f ON f.id = l.source_file_id
+      LEFT JOIN files t ON t.id = l.target_file_id
+      WHERE f.path = ?
+      ORDER BY l.line, l.id
+    `).all(normalizedPath) as Array<Omit<OutgoingLink, 'is_embed' | 'resolved'> & { is_embed: number }>
+    return rows.map(r => ({ ...r, is_embed: r.is_embed === 1, resolved: r.target_file_id != null }))
+  }
+
+  /**
+   * Dangling wikilinks across the vault (targets with no matching note)
+   */
+  public getUnresolvedLinks(limit: number = 500): UnresolvedLink[] {
+    if (!this.db) throw new Error('Database not initialized')
+
+    return this.db.prepare(`
+      SELECT l.id AS link_id, l.source_file_id, f.path AS source_path, f.name AS source_name, l.target, l.line, l.context
+      FROM links l
+      JOIN files f ON f.id = l.source_file_id
+      WHERE l.target_file_id IS NULL
+      ORDER BY l.target_key, f.name COLLATE NOCASE, l.line
+      LIMIT ?
+    `).all(limit) as UnresolvedLink[]
+  }
+
+  /**
+   * All tags with file counts; nested tags (a/b) also count toward their parents
+   */
+  public getTagCounts(): Array<{ tag: string; count: number; ownCount: number }> {
+    if (!this.db) throw new Error('Database not initialized')
+
+    const rows = this.db.prepare('SELECT DISTINCT file_id, tag FROM tags').all() as Array<{ file_id: number; tag: string }>
+    const rolled = new Map<string, Set<number>>()
+    const own = new Map<string, number>()
+    for (const r of rows) {
+      own.set(r.tag, (own.get(r.tag) || 0) + 1)
+      const parts = r.tag.split('/')
+      for (let i = 1; i <= parts.length; i++) {
+        const prefix = parts.slice(0, i).join('/')
+        if (!rolled.has(prefix)) rolled.set(prefix, new Set())
+        rolled.get(prefix)!.add(r.file_id)
+      }
+    }
+
+    return Array.from(rolled.entries())
+      .map(([tag, files]) => ({ tag, count: files.size, ownCount: own.get(tag) || 0 }))
+      .sort((a, b) => a.tag.localeCompare(b.tag))
+  }
+
+  /**
+   * Files carrying a tag (or any nested child tag), newest first
+   */
+  public getFilesForTag(tag: string, limit: number = 200): Array<{ id: number; path: string; name: string; note_date?: string; file_mtime?: string }> {
+    if (!this.db) throw new Error('Database not initialized')
+
+    const filter = this.tagFilterClause(tag)
+    return this.db.prepare(`
+      SELECT f.id, f.path, f.name, f.note_date, f.file_mtime
+      FROM files f
+      WHERE ${filter.sql}
+      ORDER BY COALESCE(f.note_date, f.file_mtime) DESC
+      LIMIT ?
+    `).all(...filter.params, limit) as Array<{ id: number; path: string; name: string; note_date?: string; file_mtime?: string }>
+  }
+
+  /**
+   * Markdown notes dated within [start, end) (local YYYY-MM-DD), oldest first, all of them (read
+   * `pageSize` rows at a time). The note's own date wins over its modification time; `date` is
+   * the local day the note was counted on.
+   */
+  public getFilesInDateRange(start: string, end: string, pageSize: number = 500): Array<{ id: number; path: string; name: string; note_date?: string; file_mtime?: string; date: string }> {
+    if (!this.db) throw new Error('Database not initialized')
+
+    // file_mtime is stored in UTC; the period bounds are local dates
+    const page = this.db.prepare(`
+      SELECT * FROM (
+        SELECT f.id, f.path, f.name, f.note_date, f.file_mtime,
+          COALESCE(f.note_date, date(f.file_mtime, 'localtime')) AS date
+        FROM files f
+        WHERE lower(f.path) LIKE '%.md'
+      )
+      WHERE date >= ? AND date < ? AND (date > ? OR (date = ? AND id > ?))
+      ORDER BY date ASC, id ASC
+      LIMIT ?
+    `)
+    const rows: Array<{ id: number; path: string; name: string; note_date?: string; file_mtime?: string; date: string }> = []
+    let after = { date: '', id: 0 }
+    for (;;) {
+      const batch = page.all(start, end, after.date, after.date, after.id, pageSize) as typeof rows
+      rows.push(...batch)
+      if (batch.length < pageSize) return rows
+      const last = batch[batch.length - 1]
+      after = { date: last.date, id: last.id }
+    }
+  }
+
+  /**
+   * Notes whose frontmatter matches every filter (e.g. `status = done`, `rating >= 4`)
+   */
+  public queryProperties(
+    filters: string | string[],
+    options: { sort?: string; order?: 'asc' | 'desc'; limit?: number } = {}
+  ): PropertyQueryResult[] {
+    if (!this.db) throw new Error('Database not initialized')
+
+    const list = (Array.isArray(filters) ? filters : String(filters || '').split(/\s+and\s+|\s*[,;\n]\s*/i))
+      .map(f => f.trim())
+      .filter(Boolean)
+    const compiled = list.map(f => this.compilePropertyFilter(f))
+    const where = compiled.length ? `WHERE ${compiled.map(c => c.sql).join(' AND ')}` : 'WHERE EXISTS (SELECT 1 FROM properties p WHERE p.file_id = f.id)'
+    const params = compiled.flatMap(c => c.params)
+
+    const order = options.order === 'asc' ? 'ASC' : 'DESC'
+    let orderBy = `ORDER BY COALESCE(f.note_date, f.file_mtime) ${order}`
+    if (options.sort) {
+      orderBy = `ORDER BY (SELECT COALESCE(p.value_num, p.value_text) FROM properties p WHERE p.file_id = f.id AND p.key = ? ORDER BY p.position LIMIT 1) ${order}, f.name`
+      params.push(options.sort.toLowerCase())
+    }
+
+    const files = this.db.prepare(`
+      SELECT f.id, f.path, f.name, f.note_date, f.file_mtime
+      FROM files f
+      ${where}
+      ${orderBy}
+      LIMIT ?
+    `).all(...params, options.limit ?? 500) as Array<Omit<PropertyQueryResult, 'properties'>>
+    if (files.length === 0) return []
+
+    const placeholders = files.map(() => '?').join(',')
+    const propRows = this.db.prepare(`
+      SELECT file_id, key, type, value_text, value_num
+      FROM properties
+      WHERE file_id IN (${placeholders})
+      ORDER BY file_id, key, position
+    `).all(...files.map(f => f.id)) as Array<{ file_id: number; key: string; type: PropertyType; value_text: string | null; value_num: number | null }>
+
+    const byFile = new Map<number, Record<string, PropertyValue>>()
+    for (const r of propRows) {
+      if (!byFile.has(r.file_id)) byFile.set(r.file_id, {})
+      const props = byFile.get(r.file_id)!
+      if (r.type === 'list') {
+        const existing = props[r.key]
+        props[r.key] = Array.isArray(existing) ? [...existing, r.value_text || ''] : [r.value_text || '']
+      } else if (r.type === 'number') {
+        props[r.key] = r.value_num
+      } else if (r.type === 'boolean') {
+        props[r.key] = r.value_num === 1
+      } else {
+        props[r.key] = r.value_text
+      }
+    }
+
+    return files.map(f => ({ ...f, properties: byFile.get(f.id) || {} }))
+  }
+
+  /**
+   * Property keys in use with their types and note counts
+   */
+  public getPropertyKeys(): Array<{ key: string; type: PropertyType; count: number }> {
+    if (!this.db) throw new Error('Database not initialized')
+
+    return this.db.prepare(`
+      SELECT key, type, COUNT(DISTINCT file_id) AS count
+      FROM properties
+      GROUP BY key, type
+      ORDER BY count DESC, key
+    `).all() as Array<{ key: string; type: PropertyType; count: number }>
   }
 
   /**
@@ -1470,11 +2541,12 @@ class IslaDatabase {
     query: string,
     limit: number = 20,
     dateRange: { start: Date; end: Date } | null = null,
-    operator: 'AND' | 'OR' = 'AND'
+    operator: 'AND' | 'OR' = 'AND',
+    tag: string | null = null
   ): SearchResult[] {
     if (!this.db) throw new Error('Database not initialized')
     if (!this.ftsReady) {
-      return this.searchContent(query, limit)
+      return this.searchContent(query, limit, tag)
     }
 
     try {
@@ -1508,6 +2580,12 @@ class IslaDatabase {
         params.push(startIso, endIso, startIso, endIso)
       }
 
+      if (tag) {
+        const tagFilter = this.tagFilterClause(tag)
+        clauses.push(tagFilter.sql)
+        params.push(...tagFilter.params)
+      }
+
       const where = clauses.length ? `WHERE ${clauses.join(' AND ')}` : ''
 
       const sql = `
@@ -1547,8 +2625,77 @@ class IslaDatabase {
       }))
     } catch (error) {
       console.error('⚠️ [Database] FTS search failed, falling back:', error)
-      return this.searchContent(query, limit)
+      return this.searchContent(query, limit, tag)
+    }
+  }
+
+  /**
+   * Search with a compiled query (FTS5 MATCH plus file predicates from field operators).
+   * Filter-only queries return the first chunk of each matching note, newest first.
+   */
+  public searchContentQuery(compiled: CompiledSearchQuery, limit: number = 20, tag: string | null = null): SearchResult[] {
+    if (!this.db) throw new Error('Database not initialized')
+    if (!this.ftsReady) {
+      // Operators compile against chunks_fts; degrade to a plain word search
+      return this.searchContent(compiled.textTerms.join(' '), limit, tag)
+    }
+
+    const clauses = [...compiled.where]
+    const params = [...compiled.params]
+    if (tag) {
+      const tagFilter = this.tagFilterClause(tag)
+      clauses.push(tagFilter.sql)
+      params.push(...tagFilter.params)
+    }
+
+    let sql: string
+    if (compiled.match) {
+      sql = `
+        SELECT 
+          c.id,
+          c.file_id,
+          f.path as file_path,
+          f.name as file_name,
+          c.chunk_index as chunk_index,
+          f.note_date,
+          f.file_mtime,
+          snippet(chunks_fts, 0, '<mark>', '</mark>', '...', 12) as content_snippet,
+          bm25(chunks_fts, 1.0, 1.0) as rank
+        FROM chunks_fts
+        JOIN content_chunks c ON chunks_fts.rowid = c.id
+        JOIN files f ON c.file_id = f.id
+        WHERE chunks_fts MATCH ?${clauses.length ? ` AND ${clauses.join(' AND ')}` : ''}
+        ORDER BY rank ASC, f.file_mtime DESC
+        LIMIT ?
+      `
+      params.unshift(compiled.match)
+    } else {
+      sql = `
+        SELECT c.id, c.file_id, f.path as file_path, f.name as file_name, c.chunk_index as chunk_index,
+               f.note_date, f.file_mtime, substr(c.chunk_text, 1, 200) as content_snippet, 0.0 as rank
+        FROM files f
+        JOIN content_chunks c ON c.file_id = f.id AND c.chunk_index = 0
+        ${clauses.length ? `WHERE ${clauses.join(' AND ')}` : ''}
+        ORDER BY COALESCE(f.note_date, f.file_mtime) DESC
+        LIMIT ?
+      `
     }
+
+    const rows = this.db.prepare(sql).all(...params, limit) as any[]
+    return rows.map(r => ({
+      id: r.id,
+      file_id: r.file_id,
+      file_path: r.file_path,
+      file_name: r.file_name,
+      content_snippet: String(r.content_snippet || '')
+        .replace(/\u0000/g, '')
+        .replace(/\s+/g, ' ')
+        .trim(),
+      rank: r.rank,
+      chunk_index: r.chunk_index,
+      note_date: r.note_date,
+      file_mtime: r.file_mtime
+    }))
   }
 
   // ========================
@@ -1568,10 +2715,16 @@ class IslaDatabase {
     return this.db.prepare(sql).all(model, limit) as any
   }
 
-  public upsertEmbedding(chunkId: number, vector: number[], model: string): void {
+  /** Store a chunk embedding as a Float32 BLOB; all non-empty vectors of a model must share one dim */
+  public upsertEmbedding(chunkId: number, vector: Float32Array | number[], model: string): void {
     if (!this.db) throw new Error('Database not initialized')
     const dim = vector.length
-    const vectorJson = JSON.stringify(vector)
+    if (dim > 0) {
+      const existing = this.db.prepare('SELECT dim FROM embeddings WHERE model = ? AND dim > 0 LIMIT 1').get(model) as { dim: number } | undefined
+      if (existing && existing.dim !== dim) {
+        throw new Error(`Embedding dimension mismatch for ${model}: expected ${existing.dim}, got ${dim}`)
+      }
+    }
     try {
       // Ensure chunk still exists to avoid FOREIGN KEY failures if content was reindexed
       const exists = this.db.prepare('SELECT 1 FROM content_chunks WHERE id = ? LIMIT 1').get(chunkId) as any
@@ -1580,7 +2733,8 @@ class IslaDatabase {
         INSERT OR REPLACE INTO embeddings (chunk_id, vector, dim, model)
         VALUES (?, ?, ?, ?)
       `
-      this.db.prepare(sql).run(chunkId, vectorJson, dim, model)
+      this.db.prepare(sql).run(chunkId, toVectorBlob(vector), dim, model)
+      this.emitEmbeddingsChange({ type: 'upsert', chunkId, vector, model })
     } catch (e: any) {
       // Ignore transient FK and other constraint errors during concurrent reindexing
       if (String(e?.message || e).toLowerCase().includes('foreign key')) {
@@ -1598,8 +2752,71 @@ class IslaDatabase {
     return { embeddedCount: embedded.c, chunkCount: chunks.c }
   }
 
+  /** Every model that has vectors stored, with its coverage of the current chunks */
+  public getEmbeddingModelsCoverage(): Array<{ model: string; embeddedCount: number; chunkCount: number; dim: number | null; vectorBytes: number }> {
+    if (!this.db) throw new Error('Database not initialized')
+    const chunks = this.db.prepare('SELECT COUNT(*) as c FROM content_chunks').get() as { c: number }
+    const rows = this.db.prepare(`
+      SELECT model, COUNT(*) AS n, MAX(dim) AS dim, COALESCE(SUM(length(vector)), 0) AS bytes
+      FROM embeddings GROUP BY model ORDER BY n DESC
+    `).all() as Array<{ model: string; n: number; dim: number | null; bytes: number }>
+    return rows.map(r => ({ model: r.model, embeddedCount: r.n, chunkCount: chunks.c, dim: r.dim || null, vectorBytes: r.bytes }))
+  }
+
+  /** Storage and query-latency figures for embeddings (plus the BLOB migration report, if any) */
+  public getEmbeddingsStorageStats(model: string): {
+    format: 'float32'
+    dim: number | null
+    vectorBytes: number
+    bytesPerVector: number
+    dbBytes: number
+    queryLatencyMs: { last: number | null; avg: number | null; p95: number | null; samples: number }
+    migration: EmbeddingsMigrationReport | null
+    /** JSON-era figures from the migration report next to the BLOB ones, when this DB was migrated */
+    comparison: {
+      before: { format: 'json'; dbBytes: number; vectorBytes: number; lookupMs: number | null }
+      after: { format: 'float32'; dbBytes: number; vectorBytes: number; lookupMs: number | null }
+    } | null
+  } {
+    if (!this.db) throw new Error('Database not initialized')
+    const row = this.db.prepare(`
+      SELECT COALESCE(SUM(length(vector)), 0) AS bytes, COUNT(*) AS n, MAX(dim) AS dim
+      FROM embeddings WHERE model = ?
+    `).get(model) as { bytes: number; n: number; dim: number | null }
+    const t = this.embeddingQueryTimings
+    const sorted = [...t].sort((a, b) => a - b)
+    let migration: EmbeddingsMigrationReport | null = null
+    try { migration = JSON.parse(this.getSetting('embeddingsMigration') || 'null') } catch {}
+    const dbBytes = this.getDatabaseSizeBytes()
+    return {
+      format: 'float32',
+      dim: row.dim,
+      vectorBytes: row.bytes,
+      bytesPerVector: row.n ? Math.round(row.bytes / row.n) : 0,
+      dbBytes,
+      queryLatencyMs: {
+        last: t.length ? t[t.length - 1] : null,
+        avg: t.length ? +(t.reduce((a, b) => a + b, 0) / t.length).toFixed(2) : null,
+        p95: sorted.length ? sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * 0.95))] : null,
+        samples: t.length
+      },
+      migration,
+      comparison: migration ? {
+        before: { format: 'json', dbBytes: migration.dbBytesBefore, vectorBytes: migration.vectorBytesBefore, lookupMs: migration.lookupMsBefore ?? null },
+        // Both sides are measured at migration time, on the same rows
+        after: { format: 'float32', dbBytes: migration.dbBytesAfter ?? dbBytes, vectorBytes: migration.vectorBytesAfter, lookupMs: migration.lookupMsAfter ?? null }
+      } : null
+    }
+  }
+
+  /** Keep a bounded window of embedding load timings */
+  private recordEmbeddingQueryTiming(ms: number): void {
+    this.embeddingQueryTimings.push(+ms.toFixed(2))
+    if (this.embeddingQueryTimings.length > 100) this.embeddingQueryTimings.shift()
+  }
+
   /** Load embeddings for a model with associated chunk and file metadata */
-  public getEmbeddingsForModel(model: string): Array<{ chunk_id: number; file_id: number; file_path: string; file_name: string; chunk_text: string; vector: number[] }> {
+  public getEmbeddingsForModel(model: string): Array<{ chunk_id: number; file_id: number; file_path: string; file_name: string; chunk_text: string; vector: Float32Array }> {
     if (!this.db) throw new Error('Database not initialized')
     const sql = `
       SELECT e.chunk_id, c.file_id, f.path as file_path, f.name as file_name, c.chunk_text, e.vector
@@ -1615,14 +2832,15 @@ class IslaDatabase {
       file_path: r.file_path,
       file_name: r.file_name,
       chunk_text: r.chunk_text,
-      vector: (() => { try { return JSON.parse(r.vector) } catch { return [] } })()
+      vector: fromVectorBlob(r.vector)
     }))
   }
 
   /** Load embeddings for specific chunk ids for a given model */
-  public getEmbeddingsForChunks(model: string, chunkIds: number[]): Array<{ chunk_id: number; vector: number[] }> {
+  public getEmbeddingsForChunks(model: string, chunkIds: number[]): Array<{ chunk_id: number; vector: Float32Array }> {
     if (!this.db) throw new Error('Database not initialized')
     if (!chunkIds || chunkIds.length === 0) return []
+    const started = process.hrtime.bigint()
     const placeholders = chunkIds.map(() => '?').join(',')
     const sql = `
       SELECT e.chunk_id, e.vector
@@ -1630,10 +2848,12 @@ class IslaDatabase {
       WHERE e.model = ? AND e.chunk_id IN (${placeholders})
     `
     const rows = this.db.prepare(sql).all(model, ...chunkIds) as any[]
-    return rows.map(r => ({
+    const result = rows.map(r => ({
       chunk_id: r.chunk_id,
-      vector: (() => { try { return JSON.parse(r.vector) } catch { return [] } })()
+      vector: fromVectorBlob(r.vector)
     }))
+    this.recordEmbeddingQueryTiming(Number(process.hrtime.bigint() - started) / 1e6)
+    return result
   }
 
   /** Fetch chunk rows (with file meta) by ids */
@@ -1658,6 +2878,19 @@ class IslaDatabase {
     } else {
       this.db.prepare('DELETE FROM embeddings').run()
     }
+    this.emitEmbeddingsChange({ type: 'clear', model })
+  }
+
+  /** Subscribe to embedding writes, deletions and clears (used to keep the ANN index current) */
+  public onEmbeddingsChanged(listener: (event: EmbeddingsChangeEvent) => void): () => void {
+    this.embeddingsListeners.push(listener)
+    return () => { this.embeddingsListeners = this.embeddingsListeners.filter(l => l !== listener) }
+  }
+
+  private emitEmbeddingsChange(event: EmbeddingsChangeEvent): void {
+    for (const listener of this.embeddingsListeners) {
+      try { listener(event) } catch (e) { console.warn('⚠️ [Database] Embeddings listener failed:', e) }
+    }
   }
 
   /** Load file by chunk id (for recency boost and metadata) */
@@ -1675,7 +2908,7 @@ class IslaDatabase {
   }
 
   /** Search by file name as a fallback or to boost title matches */
-  public searchFilesByName(query: string, limit: number = 20): SearchResult[] {
+  public searchFilesByName(query: string, limit: number = 20, tag: string | null = null): SearchResult[] {
     if (!this.db) throw new Error('Database not initialized')
     const words = query
       .toLowerCase()
@@ -1691,7 +2924,12 @@ class IslaDatabase {
       clauses.push('LOWER(f.name) LIKE ?')
       params.push(`%${w}%`)
     }
-    const where = clauses.length ? 'WHERE ' + clauses.join(' OR ') : ''
+    let where = clauses.length ? 'WHERE (' + clauses.join(' OR ') + ')' : ''
+    if (tag) {
+      const tagFilter = this.tagFilterClause(tag)
+      where += ` AND ${tagFilter.sql}`
+      params.push(...tagFilter.params)
+    }
     const sql = `
       SELECT c.id, c.file_id, f.path as file_path, f.name as file_name,
              substr(c.chunk_text, 1, 200) as content_snippet,
@@ -1716,17 +2954,44 @@ class IslaDatabase {
   }
 
   /** Fetch neighboring chunks around a given chunk index for a file */
-  public getNeighborChunks(fileId: number, centerChunkIndex: number, window: number = 1): Array<{ chunk_index: number; chunk_text: string }> {
+  public getNeighborChunks(fileId: number, centerChunkIndex: number, window: number = 1): Array<{ id: number; chunk_index: number; chunk_text: string }> {
     if (!this.db) throw new Error('Database not initialized')
     const start = Math.max(0, centerChunkIndex - window)
     const end = centerChunkIndex + window
     const sql = `
-      SELECT chunk_index, chunk_text
+      SELECT id, chunk_index, chunk_text
       FROM content_chunks
       WHERE file_id = ? AND chunk_index BETWEEN ? AND ?
       ORDER BY chunk_index ASC
     `
-    return this.db.prepare(sql).all(fileId, start, end) as Array<{ chunk_index: number; chunk_text: string }>
+    return this.db.prepare(sql).all(fileId, start, end) as Array<{ id: number; chunk_index: number; chunk_text: string }>
+  }
+
+  /** All chunks of a file in document order */
+  public getChunksForFile(fileId: number): Array<{ id: number; chunk_index: number; chunk_text: string }> {
+    if (!this.db) throw new Error('Database not initialized')
+    return this.db.prepare(`
+      SELECT id, chunk_index, chunk_text
+      FROM content_chunks
+      WHERE file_id = ?
+      ORDER BY chunk_index ASC
+    `).all(fileId) as Array<{ id: number; chunk_index: number; chunk_text: string }>
+  }
+
+  /** Heading path and source range per chunk (ranges are null for chunks indexed before they were tracked) */
+  public getChunkLocations(ids: number[]): Map<number, ChunkLocation> {
+    if (!this.db) throw new Error('Database not initialized')
+    const out = new Map<number, ChunkLocation>()
+    if (!ids || ids.length === 0) return out
+    const placeholders = ids.map(() => '?').join(',')
+    const rows = this.db.prepare(`
+      SELECT c.id AS chunk_id, m.heading_path, m.char_start, m.char_end, m.start_line, m.end_line
+      FROM content_chunks c
+      LEFT JOIN chunk_meta m ON m.chunk_id = c.id
+      WHERE c.id IN (${placeholders})
+    `).all(...ids) as ChunkLocation[]
+    rows.forEach(r => out.set(r.chunk_id, r))
+    return out
   }
 
   public getDatabaseFilePath(): string {
@@ -1,5 +1,8 @@
-export { database } from './db'
-export type { FileRecord, SearchIndex, ChatRecord, ChatMessageRecord, AppSettings } from './db'
+export { database, IslaDatabase } from './db'
+export type { IslaDatabaseOptions } from './db'
+export type { FileRecord, SearchIndex, ChatRecord, ChatMessageRecord, AppSettings, BacklinkResult, OutgoingLink, UnresolvedLink, PropertyQueryResult, EmbeddingsChangeEvent, ChunkLocation, PersonaRecord, PersonaInput, ChatSearchHit } from './db'
+export { MigrationError } from './migrations'
+export type { MigrationStatus } from './migrations'
 
 // Re-export for convenience
 export { database as default } from './db' 
\ No newline at end of file
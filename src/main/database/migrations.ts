@@ -0,0 +1,289 @@
+import Database from 'better-sqlite3'
+import { toVectorBlob, fromVectorBlob } from './vectorBlob'
+
+/**
+ * A numbered schema change. `up` runs inside a transaction together with the
+ * `PRAGMA user_version` bump, so a failure leaves the database at the previous version.
+ */
+export interface Migration {
+  version: number
+  name: string
+  up: (db: Database.Database) => void
+  /** Runs after the transaction commits (e.g. VACUUM, which cannot run inside one); failures are only logged */
+  after?: (db: Database.Database) => void
+}
+
+export interface MigrationStatus {
+  version: number
+  latest: number
+  backupPath: string | null
+  error: string | null
+  failedMigration: string | null
+}
+
+/** Raised when a migration (or its pre-migration backup) fails; the app must not recreate the DB */
+export class MigrationError extends Error {
+  fromVersion: number
+  failedMigration: string
+  backupPath: string | null
+
+  constructor(message: string, fromVersion: number, failedMigration: string, backupPath: string | null) {
+    super(message)
+    this.name = 'MigrationError'
+    this.fromVersion = fromVersion
+    this.failedMigration = failedMigration
+    this.backupPath = backupPath
+  }
+}
+
+/** Written once to the `embeddingsMigration` setting when JSON vectors are converted to BLOBs */
+export interface EmbeddingsMigrationReport {
+  migratedAt: string
+  rows: number
+  dropped: number
+  durationMs: number
+  vectorBytesBefore: number
+  vectorBytesAfter: number
+  dbBytesBefore: number
+  /** Filled in once the post-migration VACUUM has reclaimed the text vectors' pages */
+  dbBytesAfter: number | null
+  /** Model the lookup was timed on (the one with the most vectors); absent in older reports */
+  lookupModel?: string | null
+  lookupMsBefore?: number | null
+  lookupMsAfter?: number | null
+}
+
+function hasColumn(db: Database.Database, table: string, column: string): boolean {
+  const cols = db.prepare(`PRAGMA table_info(${table})`).all() as Array<{ name: string }>
+  return cols.some(c => c.name === column)
+}
+
+/** Databases created before user_version tracking may already have the column */
+function addColumn(db: Database.Database, table: string, column: string, decl: string): void {
+  if (!hasColumn(db, table, column)) {
+    db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${decl}`)
+  }
+}
+
+function databaseBytes(db: Database.Database): number {
+  return (db.pragma('page_count', { simple: true }) as number) * (db.pragma('page_size', { simple: true }) as number)
+}
+
+function readSetting(db: Database.Database, key: string): string | null {
+  const row = db.prepare('SELECT value FROM app_settings WHERE key = ?').get(key) as { value: string } | undefined
+  return row ? row.value : null
+}
+
+function writeSetting(db: Database.Database, key: string, value: string): void {
+  db.prepare(`INSERT OR REPLACE INTO app_settings (key, value, updated_at) VALUES (?, ?, datetime('now'))`).run(key, value)
+}
+
+/**
+ * Median time (ms, over 3 runs) to load and decode every vector of `model` with its chunk and
+ * file, i.e. the work behind a semantic search. Used to compare the JSON and BLOB formats.
+ */
+function timeEmbeddingLookup(db: Database.Database, model: string, decode: (vector: any) => ArrayLike<number>): number {
+  const stmt = db.prepare(`
+    SELECT e.chunk_id, c.file_id, f.path, f.name, c.chunk_text, e.vector
+    FROM embeddings e
+    JOIN content_chunks c ON c.id = e.chunk_id
+    JOIN files f ON f.id = c.file_id
+    WHERE e.model = ?
+  `)
+  const runs: number[] = []
+  for (let i = 0; i < 3; i++) {
+    const started = process.hrtime.bigint()
+    for (const r of stmt.all(model) as Array<{ vector: any }>) {
+      try { decode(r.vector) } catch {}
+    }
+    runs.push(Number(process.hrtime.bigint() - started) / 1e6)
+  }
+  return +runs.sort((a, b) => a - b)[1].toFixed(2)
+}
+
+/**
+ * Convert a legacy JSON-text embeddings table to Float32 BLOBs, recording sizes and lookup
+ * latency on both sides in the `embeddingsMigration` setting. New databases get the BLOB
+ * table from setupFTS and skip this.
+ */
+function migrateEmbeddingsToBlob(db: Database.Database): void {
+  const cols = db.prepare('PRAGMA table_info(embeddings)').all() as Array<{ name: string; type: string }>
+  const vectorCol = cols.find(c => c.name === 'vector')
+  if (!vectorCol || vectorCol.type.toUpperCase() === 'BLOB') return
+
+  console.log('🔄 [Database] Migrating embeddings from JSON text to Float32 BLOBs...')
+  const started = Date.now()
+  const dbBytesBefore = databaseBytes(db)
+  const vectorBytes = () => (db.prepare('SELECT COALESCE(SUM(length(vector)), 0) AS b FROM embeddings').get() as { b: number }).b
+  const textBytes = vectorBytes()
+  // Latency is measured on the model with the most vectors, the same way before and after
+  const timedModel = (db.prepare('SELECT model FROM embeddings GROUP BY model ORDER BY COUNT(*) DESC LIMIT 1').get() as { model: string } | undefined)?.model || null
+  const lookupMsBefore = timedModel ? timeEmbeddingLookup(db, timedModel, (v: string) => JSON.parse(v)) : null
+
+  db.exec(`
+    CREATE TABLE embeddings_blob (
+      chunk_id INTEGER NOT NULL,
+      vector BLOB NOT NULL,
+      dim INTEGER NOT NULL CHECK (length(vector) = dim * 4),
+      model TEXT NOT NULL,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (chunk_id) REFERENCES content_chunks (id) ON DELETE CASCADE
+    )
+  `)
+  const insert = db.prepare('INSERT OR REPLACE INTO embeddings_blob (chunk_id, vector, dim, model, created_at) VALUES (?, ?, ?, ?, ?)')
+  const rows = db.prepare('SELECT chunk_id, vector, model, created_at FROM embeddings').all() as Array<{ chunk_id: number; vector: string; model: string; created_at: string }>
+  let migrated = 0
+  let dropped = 0
+  for (const r of rows) {
+    let parsed: number[] = []
+    try { parsed = JSON.parse(r.vector) } catch { dropped++; continue }
+    if (!Array.isArray(parsed)) { dropped++; continue }
+    insert.run(r.chunk_id, toVectorBlob(parsed), parsed.length, r.model, r.created_at)
+    migrated++
+  }
+  db.exec('DROP TABLE embeddings')
+  db.exec('ALTER TABLE embeddings_blob RENAME TO embeddings')
+
+  const blobBytes = vectorBytes()
+  const report: EmbeddingsMigrationReport = {
+    migratedAt: new Date().toISOString(),
+    rows: migrated,
+    dropped,
+    durationMs: Date.now() - started,
+    vectorBytesBefore: textBytes,
+    vectorBytesAfter: blobBytes,
+    dbBytesBefore,
+    dbBytesAfter: null,
+    lookupModel: timedModel,
+    lookupMsBefore,
+    lookupMsAfter: timedModel ? timeEmbeddingLookup(db, timedModel, fromVectorBlob) : null
+  }
+  writeSetting(db, 'embeddingsMigration', JSON.stringify(report))
+  console.log(`✅ [Database] Migrated ${migrated} embeddings to BLOBs (${dropped} unreadable dropped, ${textBytes} → ${blobBytes} vector bytes)`)
+}
+
+/** Reclaim the space freed by the text vectors, then record the size it came down to */
+function vacuumAfterEmbeddingsMigration(db: Database.Database): void {
+  let report: EmbeddingsMigrationReport | null = null
+  try { report = JSON.parse(readSetting(db, 'embeddingsMigration') || 'null') } catch {}
+  if (!report || report.dbBytesAfter !== null) return
+  db.exec('VACUUM')
+  writeSetting(db, 'embeddingsMigration', JSON.stringify({ ...report, dbBytesAfter: databaseBytes(db) }))
+}
+
+/**
+ * Schema history on top of the base tables from createTables(). Append only:
+ * never edit or renumber a migration that has shipped.
+ */
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: 'files_dates',
+    up: (db) => {
+      addColumn(db, 'files', 'file_mtime', 'DATETIME')
+      addColumn(db, 'files', 'note_date', 'DATE')
+      db.exec(`
+        CREATE INDEX IF NOT EXISTS idx_files_file_mtime ON files (file_mtime);
+        CREATE INDEX IF NOT EXISTS idx_files_note_date ON files (note_date);
+      `)
+    }
+  },
+  {
+    version: 2,
+    name: 'chat_messages_metadata',
+    up: (db) => addColumn(db, 'chat_messages', 'metadata', 'TEXT')
+  },
+  {
+    version: 3,
+    name: 'files_content_hash',
+    // Existing rows keep a NULL hash and get re-chunked once on their next save
+    up: (db) => addColumn(db, 'files', 'content_hash', 'TEXT')
+  },
+  {
+    version: 4,
+    name: 'content_chunks_text_hash',
+    up: (db) => addColumn(db, 'content_chunks', 'text_hash', 'TEXT')
+  },
+  {
+    version: 5,
+    name: 'chunk_meta_ranges',
+    // Source location of each chunk for citations. Clearing the content hashes makes the next
+    // scan re-chunk every note; unchanged chunks keep their ids, so embeddings survive.
+    up: (db) => {
+      addColumn(db, 'chunk_meta', 'char_start', 'INTEGER')
+      addColumn(db, 'chunk_meta', 'char_end', 'INTEGER')
+      addColumn(db, 'chunk_meta', 'start_line', 'INTEGER')
+      addColumn(db, 'chunk_meta', 'end_line', 'INTEGER')
+      db.exec('UPDATE files SET content_hash = NULL')
+    }
+  },
+  {
+    version: 6,
+    name: 'personas',
+    // Chats keep a NULL persona_id, which means the built-in prompt
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS personas (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          name TEXT NOT NULL UNIQUE,
+          system_prompt TEXT NOT NULL,
+          length_guidance TEXT,
+          char_budget INTEGER,
+          max_results INTEGER,
+          per_file_cap INTEGER,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        )
+      `)
+      addColumn(db, 'chats', 'persona_id', 'INTEGER REFERENCES personas(id) ON DELETE SET NULL')
+      const seed = db.prepare(`
+        INSERT OR IGNORE INTO personas (name, system_prompt, length_guidance, char_budget, max_results, per_file_cap)
+        VALUES (?, ?, ?, ?, ?, ?)
+      `)
+      seed.run(
+        'Journaling coach',
+        'You are a warm, curious journaling coach. Reflect patterns and feelings you notice in the user\'s notes and ask one gentle follow-up question.',
+        'Keep it to 1–3 short paragraphs and end with a single reflective question.',
+        null, null, null
+      )
+      seed.run(
+        'Research assistant',
+        'You are a careful research assistant for the user\'s notes. Compare sources, point out disagreements and gaps, and separate what the notes say from your own inferences.',
+        'Use structured sections with bullets where helpful; thoroughness beats brevity.',
+        6000, 32, 4
+      )
+      seed.run(
+        'Search bot',
+        'You are a terse search tool over the user\'s notes. Report only what the notes contain.',
+        'Answer in at most 3 bullets, no preamble or follow-up suggestions.',
+        2400, 12, 2
+      )
+    }
+  },
+  {
+    version: 7,
+    name: 'chat_message_branches',
+    // Existing chats become a single branch: each message hangs off the one before it
+    up: (db) => {
+      addColumn(db, 'chat_messages', 'parent_id', 'INTEGER REFERENCES chat_messages(id) ON DELETE CASCADE')
+      addColumn(db, 'chats', 'active_leaf_id', 'INTEGER')
+      db.exec(`
+        UPDATE chat_messages SET parent_id = (
+          SELECT p.id FROM chat_messages p
+          WHERE p.chat_id = chat_messages.chat_id AND p.id < chat_messages.id
+          ORDER BY p.id DESC LIMIT 1
+        ) WHERE parent_id IS NULL;
+        UPDATE chats SET active_leaf_id = (SELECT MAX(m.id) FROM chat_messages m WHERE m.chat_id = chats.id);
+        CREATE INDEX IF NOT EXISTS idx_chat_messages_parent ON chat_messages (parent_id);
+      `)
+    }
+  },
+  {
+    version: 8,
+    name: 'embeddings_blob',
+    up: migrateEmbeddingsToBlob,
+    after: vacuumAfterEmbeddingsMigration
+  }
+]
+
+export const LATEST_SCHEMA_VERSION = MIGRATIONS.length ? MIGRATIONS[MIGRATIONS.length - 1].version : 0
@@ -0,0 +1,12 @@
+/** Encode a vector as a little-endian Float32 BLOB */
+export function toVectorBlob(vector: ArrayLike<number>): Buffer {
+  const arr = vector instanceof Float32Array ? vector : Float32Array.from(vector)
+  return Buffer.from(arr.buffer, arr.byteOffset, arr.byteLength)
+}
+
+/** Decode a Float32 BLOB (copied so the result is 4-byte aligned) */
+export function fromVectorBlob(blob: Buffer | null | undefined): Float32Array {
+  if (!blob || blob.byteLength === 0) return new Float32Array(0)
+  const copy = blob.buffer.slice(blob.byteOffset, blob.byteOffset + blob.byteLength)
+  return new Float32Array(copy)
+}
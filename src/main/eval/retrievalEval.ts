@@ -0,0 +1,291 @@
+/**
+ * Offline retrieval evaluation. Loads a fixture vault into an in-memory database, embeds it with a
+ * deterministic stub model (no Ollama) and scores the sources of preparePromptWithHybrid against
+ * the notes each question expects, once per configuration of retrieval settings.
+ *
+ *   npm run eval:retrieval -- [questions.yaml] [--k 5] [--min-recall 0.8] [--verbose]
+ *
+ * Exits non-zero when a configuration's mean recall@k falls below its threshold. Runs under plain
+ * Node; if better-sqlite3 was rebuilt for Electron, run the bundle with ELECTRON_RUN_AS_NODE=1 electron.
+ */
+import { readFileSync, readdirSync, statSync } from 'fs'
+import { basename, dirname, join, relative, resolve } from 'path'
+import { IslaDatabase } from '../database'
+import { ContentService } from '../services/contentService'
+import { VectorIndexService } from '../services/vectorIndex'
+import { parseInlineList, parseScalar } from '../utils/frontmatter'
+import { StubRetrievalModel } from './stubModel'
+
+export interface EvalQuestion {
+  question: string
+  /** Vault-relative paths or bare file names of the notes that answer the question */
+  expected: string[]
+}
+
+export interface EvalConfiguration {
+  name: string
+  /** app_settings overrides (ftsCharBudget, ftsPerFileCap, hybridWeights, ...) */
+  settings: Record<string, string>
+  minRecall?: number
+}
+
+export interface EvalSpec {
+  vault: string
+  k: number
+  minRecall: number
+  configurations: EvalConfiguration[]
+  questions: EvalQuestion[]
+}
+
+export interface ConfigurationReport {
+  name: string
+  recallAtK: number
+  mrr: number
+  avgContextChars: number
+  avgSources: number
+  minRecall: number
+  passed: boolean
+  misses: Array<{ question: string; expected: string[]; retrieved: string[] }>
+}
+
+type YamlValue = string | number | boolean | null | YamlValue[] | { [key: string]: YamlValue }
+
+/**
+ * Parse the YAML subset eval specs use: nested maps and sequences by indentation, sequences of
+ * maps (`- key: value`), scalars and inline lists. No anchors, multi-line strings or flow maps.
+ */
+export function parseEvalYaml(text: string): YamlValue {
+  const lines = text.split(/\r?\n/)
+    .filter(l => l.trim() && !l.trim().startsWith('#'))
+    .map(l => ({ indent: l.length - l.trimStart().length, text: l.trim() }))
+
+  const value = (raw: string): YamlValue => raw.startsWith('[') ? parseInlineList(raw) : parseScalar(raw)
+
+  const parseBlock = (start: number, indent: number): [YamlValue, number] => {
+    let i = start
+    if (lines[i].text === '-' || lines[i].text.startsWith('- ')) {
+      const items: YamlValue[] = []
+      while (i < lines.length && lines[i].indent === indent && (lines[i].text === '-' || lines[i].text.startsWith('- '))) {
+        const rest = lines[i].text.slice(1).trim()
+        if (!rest) {
+          const [item, next] = i + 1 < lines.length && lines[i + 1].indent > indent ? parseBlock(i + 1, lines[i + 1].indent) : [null, i + 1]
+          items.push(item)
+          i = next
+        } else if (/^[^'"[][^:]*:(\s|$)/.test(rest)) {
+          // `- key: value` opens a map whose keys line up with `key`
+          const itemIndent = indent + (lines[i].text.length - rest.length)
+          lines[i] = { indent: itemIndent, text: rest }
+          const [item, next] = parseBlock(i, itemIndent)
+          items.push(item)
+          i = next
+        } else {
+          items.push(value(rest))
+          i++
+        }
+      }
+      return [items, i]
+    }
+
+    const map: { [key: string]: YamlValue } = {}
+    while (i < lines.length && lines[i].indent === indent) {
+      const m = lines[i].text.match(/^([^:]+):\s*(.*)$/)
+      if (!m) throw new Error(`Unsupported YAML line: ${lines[i].text}`)
+      const key = m[1].trim().replace(/^(['"])(.*)\1$/, '$2')
+      if (m[2]) {
+        map[key] = value(m[2])
+        i++
+      } else if (i + 1 < lines.length && (lines[i + 1].indent > indent || (lines[i + 1].indent === indent && lines[i + 1].text.startsWith('-')))) {
+        const [child, next] = parseBlock(i + 1, lines[i + 1].indent)
+        map[key] = child
+        i = next
+      } else {
+        map[key] = null
+        i++
+      }
+    }
+    return [map, i]
+  }
+
+  return lines.length ? parseBlock(0, lines[0].indent)[0] : null
+}
+
+const asList = (v: YamlValue | undefined): YamlValue[] => Array.isArray(v) ? v : (v === null || v === undefined ? [] : [v])
+
+/** Read a spec; the vault path is relative to the spec file (default `vault/` next to it) */
+export function readEvalSpec(file: string): EvalSpec {
+  const doc = parseEvalYaml(readFileSync(file, 'utf8'))
+  if (!doc || typeof doc !== 'object' || Array.isArray(doc)) throw new Error(`${file}: expected a map at the top level`)
+
+  const questions = asList(doc.questions).map((q, idx) => {
+    const item = (q && typeof q === 'object' && !Array.isArray(q)) ? q : {}
+    const question = String(item.question ?? '').trim()
+    const expected = asList(item.expected).map(e => String(e).trim()).filter(Boolean)
+    if (!question || expected.length === 0) throw new Error(`${file}: question ${idx + 1} needs "question" and "expected"`)
+    return { question, expected }
+  })
+
+  const configurations = asList(doc.configurations).map((c, idx) => {
+    const item = (c && typeof c === 'object' && !Array.isArray(c)) ? c : {}
+    const settings: Record<string, string> = {}
+    const raw = item.settings && typeof item.settings === 'object' && !Array.isArray(item.settings) ? item.settings : {}
+    for (const [key, v] of Object.entries(raw)) {
+      // Nested maps (hybridWeights) are stored as JSON, like the app does
+      settings[key] = v !== null && typeof v === 'object' ? JSON.stringify(v) : String(v)
+    }
+    return {
+      name: String(item.name ?? `config-${idx + 1}`),
+      settings,
+      minRecall: typeof item.min_recall === 'number' ? item.min_recall : undefined
+    }
+  })
+
+  return {
+    vault: resolve(dirname(file), String(doc.vault ?? 'vault')),
+    k: typeof doc.k === 'number' ? doc.k : 5,
+    minRecall: typeof doc.min_recall === 'number' ? doc.min_recall : 0.8,
+    configurations: configurations.length ? configurations : [{ name: 'default', settings: {} }],
+    questions
+  }
+}
+
+function listMarkdown(dir: string): string[] {
+  return readdirSync(dir).flatMap(entry => {
+    const full = join(dir, entry)
+    if (statSync(full).isDirectory()) return listMarkdown(full)
+    return /\.md$/i.test(entry) ? [full] : []
+  })
+}
+
+/** Fresh in-memory database with the vault indexed and every chunk embedded by the stub */
+async function loadVault(vault: string, settings: Record<string, string>, model: StubRetrievalModel): Promise<IslaDatabase> {
+  const db = new IslaDatabase({ dbPath: ':memory:' })
+  await db.initialize()
+  for (const [key, v] of Object.entries(settings)) db.setSetting(key, v)
+  for (const file of listMarkdown(vault)) {
+    db.saveFile(file, basename(file), readFileSync(file, 'utf8'))
+  }
+  const modelName = model.getEmbeddingModel()
+  for (;;) {
+    const pending = db.getChunksNeedingEmbeddings(modelName, 500)
+    if (pending.length === 0) break
+    const vectors = await model.embedTexts(pending.map(c => c.chunk_text))
+    pending.forEach((c, i) => db.upsertEmbedding(c.id, vectors[i], modelName))
+  }
+  return db
+}
+
+export async function runConfiguration(spec: EvalSpec, config: EvalConfiguration): Promise<ConfigurationReport> {
+  const model = new StubRetrievalModel()
+  const db = await loadVault(spec.vault, config.settings, model)
+  const service = new ContentService(db, () => model, new VectorIndexService(db))
+  const vaultRoot = resolve(spec.vault)
+
+  let recallSum = 0
+  let rrSum = 0
+  let contextChars = 0
+  let sourceCount = 0
+  const misses: ConfigurationReport['misses'] = []
+  try {
+    for (const q of spec.questions) {
+      const { sources } = await service.preparePromptWithHybrid(q.question)
+      // Distinct notes in citation order; a note can back several passages
+      const retrieved = Array.from(new Set(sources.map(s => relative(vaultRoot, s.file_path).replace(/\\/g, '/'))))
+      const matches = (file: string, expected: string) => file === expected || basename(file) === expected
+      const topK = retrieved.slice(0, spec.k)
+      const found = q.expected.filter(e => topK.some(f => matches(f, e))).length
+      const firstRank = retrieved.findIndex(f => q.expected.some(e => matches(f, e)))
+
+      recallSum += found / q.expected.length
+      rrSum += firstRank >= 0 ? 1 / (firstRank + 1) : 0
+      contextChars += sources.reduce((acc, s) => acc + s.snippet.length, 0)
+      sourceCount += sources.length
+      if (found < q.expected.length) misses.push({ question: q.question, expected: q.expected, retrieved: topK })
+    }
+  } finally {
+    db.close()
+  }
+
+  const n = Math.max(1, spec.questions.length)
+  const minRecall = config.minRecall ?? spec.minRecall
+  const recallAtK = recallSum / n
+  return {
+    name: config.name,
+    recallAtK,
+    mrr: rrSum / n,
+    avgContextChars: Math.round(contextChars / n),
+    avgSources: sourceCount / n,
+    minRecall,
+    passed: recallAtK >= minRecall,
+    misses
+  }
+}
+
+function parseArgs(argv: string[]): { specPath: string; k?: number; minRecall?: number; verbose: boolean } {
+  const out: { specPath: string; k?: number; minRecall?: number; verbose: boolean } = { specPath: 'eval/retrieval/questions.yaml', verbose: false }
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i]
+    if (arg === '--k') out.k = parseInt(argv[++i], 10)
+    else if (arg === '--min-recall') out.minRecall = parseFloat(argv[++i])
+    else if (arg === '--verbose') out.verbose = true
+    else if (!arg.startsWith('--')) out.specPath = arg
+    else throw new Error(`Unknown option: ${arg}`)
+  }
+  return out
+}
+
+async function main(): Promise<number> {
+  const args = parseArgs(process.argv.slice(2))
+  const spec = readEvalSpec(resolve(args.specPath))
+  if (args.k && args.k > 0) spec.k = args.k
+  if (args.minRecall !== undefined && Number.isFinite(args.minRecall)) {
+    spec.minRecall = args.minRecall
+    spec.configurations.forEach(c => { c.minRecall = args.minRecall })
+  }
+
+  // Indexing and retrieval log per file and per query; keep the report readable
+  const print = console.log.bind(console)
+  if (!args.verbose) {
+    console.log = () => {}
+    console.warn = () => {}
+  }
+
+  print(`Retrieval eval: ${spec.questions.length} questions, ${spec.configurations.length} configuration(s), k=${spec.k}, vault ${spec.vault}`)
+  const reports: ConfigurationReport[] = []
+  for (const config of spec.configurations) {
+    reports.push(await runConfiguration(spec, config))
+  }
+
+  const header = ['configuration', `recall@${spec.k}`, 'MRR', 'ctx chars', 'sources', 'min', '']
+  const rows = reports.map(r => [
+    r.name,
+    r.recallAtK.toFixed(3),
+    r.mrr.toFixed(3),
+    String(r.avgContextChars),
+    r.avgSources.toFixed(1),
+    r.minRecall.toFixed(2),
+    r.passed ? 'ok' : 'FAIL'
+  ])
+  const widths = header.map((h, i) => Math.max(h.length, ...rows.map(r => r[i].length)))
+  const line = (cells: string[]) => cells.map((c, i) => c.padEnd(widths[i])).join('  ').trimEnd()
+  print('')
+  print(line(header))
+  rows.forEach(r => print(line(r)))
+
+  for (const r of reports.filter(r => r.misses.length)) {
+    print(`\nMissed in ${r.name}:`)
+    r.misses.forEach(m => print(`  - ${m.question}\n      expected ${m.expected.join(', ')}\n      got      ${m.retrieved.join(', ') || '(nothing)'}`))
+  }
+
+  const failed = reports.filter(r => !r.passed)
+  if (failed.length) print(`\n❌ Recall below threshold: ${failed.map(r => r.name).join(', ')}`)
+  return failed.length ? 1 : 0
+}
+
+if (require.main === module) {
+  main()
+    .then(code => { process.exitCode = code })
+    .catch(error => {
+      console.error('❌ [Eval] Retrieval eval failed:', error)
+      process.exitCode = 1
+    })
+}
@@ -0,0 +1,60 @@
+import type { ChatMessage } from '../services/llamaService'
+import type { RetrievalModel } from '../services/contentService'
+
+// FNV-1a, so the same token always lands in the same bucket across runs and platforms
+function hashToken(token: string): number {
+  let h = 0x811c9dc5
+  for (let i = 0; i < token.length; i++) {
+    h ^= token.charCodeAt(i)
+    h = Math.imul(h, 0x01000193)
+  }
+  return h >>> 0
+}
+
+// Crude suffix stripping so "plans"/"planning"/"planned" share a bucket
+function stem(token: string): string {
+  return token.replace(/(ing|ed|es|s)$/, '') || token
+}
+
+/**
+ * Deterministic stand-in for Ollama in the retrieval eval: texts become hashed bag-of-words
+ * vectors (L2-normalised), so notes sharing words with a question score as similar. Generation
+ * returns nothing, which turns query expansion and follow-up rewriting into no-ops.
+ */
+export class StubRetrievalModel implements RetrievalModel {
+  constructor(private model: string = 'eval-stub-embed', private dim: number = 256) {}
+
+  async initialize(): Promise<void> {}
+
+  getCurrentModel(): string | null {
+    return this.model
+  }
+
+  getEmbeddingModel(): string {
+    return this.model
+  }
+
+  // No window: the eval keeps the character budget so runs stay comparable
+  async getContextWindow(): Promise<number | null> {
+    return null
+  }
+
+  async embedTexts(texts: string[]): Promise<number[][]> {
+    return texts.map(t => this.embed(t))
+  }
+
+  async sendMessage(_messages: ChatMessage[]): Promise<string> {
+    return ''
+  }
+
+  embed(text: string): number[] {
+    const vec = new Array<number>(this.dim).fill(0)
+    const tokens = (text.toLowerCase().match(/[a-z0-9]+/g) || ([] as string[])).filter(t => t.length > 2)
+    for (const token of tokens) {
+      const h = hashToken(stem(token))
+      vec[h % this.dim] += (h & 0x80000000) ? -1 : 1
+    }
+    const norm = Math.sqrt(vec.reduce((acc, v) => acc + v * v, 0))
+    return norm ? vec.map(v => v / norm) : vec
+  }
+}
@@ -20,9 +20,12 @@ import path, { join, normalize, resolve } from 'path'
 import os from 'os'
 // Fixed isDev detection for packaged apps
 const isDev = process.env.NODE_ENV === 'development' && !app.isPackaged
-import { database } from './database'
+import { database, MigrationError, PersonaInput } from './database'
 import { LlamaService } from './services/llamaService'
-import { contentService } from './services/contentService'
+import { contentService, ConversationTurn } from './services/contentService'
+import { vectorIndexService } from './services/vectorIndex'
+import { chatExportService, ChatExportResult } from './services/chatExport'
+import { digestService, digestPeriod, previousDigestPeriod, DigestKind, DigestResult } from './services/digestService'
 import chokidar from 'chokidar'
 
 // Global list of indexable text/code extensions for FTS-only indexing
@@ -162,28 +165,9 @@ process.on('unhandledRejection', (reason, promise) => {
 ipcMain.handle('embeddings:rebuildAll', async (_, modelOverride?: string) => {
   try {
     await database.ensureReady()
-    const llama = require('./services/llamaService').LlamaService.getInstance()
-    await llama.initialize()
-    const model = modelOverride || llama.getCurrentModel() || 'llama3.1:latest'
-    const batchSize = 64
-    let batch: Array<{ id: number; file_id: number; chunk_text: string }>
-    let total = 0
-    let embedded = 0
-    const stats = database.getEmbeddingsStats(model)
-    total = stats.chunkCount
-    mainWindow?.webContents.send('embeddings:progress', { total, embedded: stats.embeddedCount, model, status: 'starting' })
-    while ((batch = database.getChunksNeedingEmbeddings(model, batchSize)).length > 0) {
-      const texts = batch.map(b => b.chunk_text)
-      const vectors = await llama.embedTexts(texts, model)
-      for (let i = 0; i < batch.length; i++) {
-        database.upsertEmbedding(batch[i].id, vectors[i] || [], model)
-      }
-      embedded += batch.length
-      const nowStats = database.getEmbeddingsStats(model)
-      mainWindow?.webContents.send('embeddings:progress', { total: nowStats.chunkCount, embedded: nowStats.embeddedCount, model, status: 'running' })
-    }
-    const finalStats = database.getEmbeddingsStats(model)
-    mainWindow?.webContents.send('embeddings:progress', { total: finalStats.chunkCount, embedded: finalStats.embeddedCount, model, status: 'done' })
+    const model = modelOverride || await prepareEmbeddingModel()
+    try { await LlamaService.getInstance().initialize() } catch {}
+    const finalStats = await embedPendingChunks(model)
     return { ok: true, model, ...finalStats }
   } catch (error) {
     console.error('❌ [IPC] Error rebuilding embeddings:', error)
@@ -196,29 +180,197 @@ ipcMain.handle('embeddings:rebuildAll', async (_, modelOverride?: string) => {
 ipcMain.handle('embeddings:getStats', async (_, modelOverride?: string) => {
   try {
     await database.ensureReady()
-    const llama = require('./services/llamaService').LlamaService.getInstance()
-    try { await llama.initialize() } catch {}
-    const model = modelOverride || llama.getCurrentModel() || 'llama3.1:latest'
+    const model = modelOverride || LlamaService.getInstance().getEmbeddingModel()
     const stats = database.getEmbeddingsStats(model)
-    return { model, ...stats }
+    let storage = null
+    try { storage = database.getEmbeddingsStorageStats(model) } catch {}
+    return { model, ...stats, storage }
   } catch (error) {
     return { model: null, embeddedCount: 0, chunkCount: 0, error: String((error as any)?.message || error) }
   }
 })
 
+// Embedding model (separate from the chat model) and the vectors stored per model
+function embeddingModelsOverview() {
+  return {
+    current: LlamaService.getInstance().getEmbeddingModel(),
+    dims: getEmbeddingModelDims(),
+    models: database.getEmbeddingModelsCoverage()
+  }
+}
+
+ipcMain.handle('embeddings:getModels', async () => {
+  try {
+    await database.ensureReady()
+    return embeddingModelsOverview()
+  } catch (error) {
+    console.error('❌ [IPC] Error getting embedding models:', error)
+    throw error
+  }
+})
+
+ipcMain.handle('embeddings:setModel', async (_, modelName: string) => {
+  try {
+    await database.ensureReady()
+    const llama = LlamaService.getInstance()
+    const previous = llama.getEmbeddingModel()
+    llama.setEmbeddingModel(modelName)
+    embeddingModelReady = null
+    try {
+      await prepareEmbeddingModel()
+    } catch (error) {
+      // Keep embedding with the old model rather than leave retrieval without vectors
+      llama.setEmbeddingModel(previous)
+      embeddingModelReady = null
+      throw error
+    }
+    database.setSetting('embeddingModel', llama.getEmbeddingModel())
+    maybeStartEmbeddingsBuild('embedding-model')
+    return embeddingModelsOverview()
+  } catch (error) {
+    console.error('❌ [IPC] Error setting embedding model:', error)
+    throw error
+  }
+})
+
+// Drop vectors of models no longer in use (one model, or every model but the current one)
+ipcMain.handle('embeddings:prune', async (_, modelName?: string) => {
+  try {
+    await database.ensureReady()
+    const current = LlamaService.getInstance().getEmbeddingModel()
+    const stale = database.getEmbeddingModelsCoverage().map(m => m.model)
+      .filter(m => m !== current && (!modelName || m === modelName))
+    for (const model of stale) database.clearEmbeddings(model)
+    const dims = getEmbeddingModelDims()
+    stale.forEach(m => delete dims[m])
+    database.setSetting('embeddingModelDims', JSON.stringify(dims))
+    console.log(`🧹 [IPC] Pruned embeddings of ${stale.length} model(s)`)
+    return embeddingModelsOverview()
+  } catch (error) {
+    console.error('❌ [IPC] Error pruning embeddings:', error)
+    throw error
+  }
+})
+
 let mainWindow: BrowserWindow | null = null
 let embeddingsBuilding = false
 let vaultWatcher: import('chokidar').FSWatcher | null = null
 let embedRetryTimer: NodeJS.Timeout | null = null
 let embedRetryAttempts = 0
+let embeddingModelReady: Promise<string> | null = null
+
+/**
+ * Pull the configured embedding model (once per model/provider) and record its vector size.
+ * If a model of the same name now returns vectors of another size, its old vectors are dropped.
+ */
+function prepareEmbeddingModel(): Promise<string> {
+  if (embeddingModelReady) return embeddingModelReady
+  embeddingModelReady = (async () => {
+    await database.ensureReady()
+    const llama = LlamaService.getInstance()
+    const model = llama.getEmbeddingModel()
+    try { await llama.initialize() } catch {}
+    await llama.ensureEmbeddingsModelAvailable(model, (progress, status) => {
+      mainWindow?.webContents.send('llm:downloadProgress', { modelName: model, progress, status })
+    })
+    const dim = (await llama.embedTexts(['dimension probe'], model))[0]?.length || 0
+    if (!dim) throw new Error(`${model} returned an empty embedding`)
+    const stored = database.getEmbeddingModelsCoverage().find(m => m.model === model)?.dim
+    if (stored && stored !== dim) {
+      console.warn(`⚠️ [Main] ${model} changed from ${stored} to ${dim} dimensions; dropping its old vectors`)
+      database.clearEmbeddings(model)
+    }
+    database.setSetting('embeddingModelDims', JSON.stringify({ ...getEmbeddingModelDims(), [model]: dim }))
+    console.log(`🧬 [Main] Embedding model ready: ${model} (${dim} dims)`)
+    return model
+  })()
+  // A failed pull/probe is retried on the next build
+  embeddingModelReady.catch(() => { embeddingModelReady = null })
+  return embeddingModelReady
+}
+
+function getEmbeddingModelDims(): Record<string, number> {
+  try { return JSON.parse(database.getSetting('embeddingModelDims') || '{}') || {} } catch { return {} }
+}
+
+/**
+ * Embed every chunk that has no vector for `model` yet. Batches of `embeddingBatchSize` chunks
+ * (default 64) go to the embedding worker, `embeddingConcurrency` (default 2) at a time; progress
+ * events carry throughput and an ETA.
+ */
+async function embedPendingChunks(model: string): Promise<{ embeddedCount: number; chunkCount: number }> {
+  const llama = LlamaService.getInstance()
+  const batchSize = Math.min(1024, Math.max(1, parseInt(database.getSetting('embeddingBatchSize') || '64') || 64))
+  const concurrency = Math.min(16, Math.max(1, parseInt(database.getSetting('embeddingConcurrency') || '2') || 2))
+  const started = Date.now()
+  let embeddedThisRun = 0
+
+  const report = (status: 'starting' | 'running' | 'done') => {
+    const now = database.getEmbeddingsStats(model)
+    const elapsed = (Date.now() - started) / 1000
+    const rate = elapsed > 0 ? embeddedThisRun / elapsed : 0
+    mainWindow?.webContents.send('embeddings:progress', {
+      total: now.chunkCount,
+      embedded: now.embeddedCount,
+      model,
+      status,
+      chunksPerSecond: rate > 0 ? +rate.toFixed(1) : null,
+      etaSeconds: rate > 0 && status === 'running' ? Math.round(Math.max(0, now.chunkCount - now.embeddedCount) / rate) : null
+    })
+    return now
+  }
+
+  let prevEmbedded = report('starting').embeddedCount
+  let stagnation = 0
+  while (true) {
+    // Split one page into batches and let `concurrency` runners work through them
+    const page = database.getChunksNeedingEmbeddings(model, batchSize * concurrency * 4)
+    if (!page.length) break
+    const batches: Array<typeof page> = []
+    for (let i = 0; i < page.length; i += batchSize) batches.push(page.slice(i, i + batchSize))
+    let next = 0
+    // Once a batch fails the other runners stop taking batches and drop vectors still in flight
+    let failed = false
+    const runner = async () => {
+      while (!failed && next < batches.length) {
+        const batch = batches[next++]
+        let vectors: number[][]
+        try {
+          vectors = await llama.embedBatch(batch.map(b => b.chunk_text), model)
+        } catch (error) {
+          failed = true
+          throw error
+        }
+        if (failed) return
+        for (let i = 0; i < batch.length; i++) {
+          database.upsertEmbedding(batch[i].id, vectors[i] || [], model)
+        }
+        embeddedThisRun += batch.length
+        report('running')
+      }
+    }
+    // Wait for every runner so none is still writing when the caller's `finally` resets the build flag
+    const results = await Promise.allSettled(Array.from({ length: Math.min(concurrency, batches.length) }, runner))
+    const rejected = results.find((r): r is PromiseRejectedResult => r.status === 'rejected')
+    if (rejected) throw rejected.reason
+
+    // Break if progress stalls to avoid busy loops under concurrent reindex
+    const now = database.getEmbeddingsStats(model)
+    if (now.embeddedCount <= prevEmbedded) {
+      if (++stagnation >= 3) break
+    } else {
+      stagnation = 0
+      prevEmbedded = now.embeddedCount
+    }
+  }
+  return report('done')
+}
 
 async function maybeStartEmbeddingsBuild(reason: string = 'auto'): Promise<void> {
   try {
     if (embeddingsBuilding) return
     await database.ensureReady()
-    const llama = LlamaService.getInstance()
-    try { await llama.initialize() } catch {}
-    const model = llama.getCurrentModel() || 'llama3.1:latest'
+    const model = await prepareEmbeddingModel()
     const pending = database.getChunksNeedingEmbeddings(model, 1)
     if (!pending || pending.length === 0) {
       // Schedule a short retry window to catch freshly indexed chunks
@@ -235,31 +387,7 @@ async function maybeStartEmbeddingsBuild(reason: string = 'auto'): Promise<void>
     embedRetryAttempts = 0
     if (embedRetryTimer) { try { clearTimeout(embedRetryTimer as any) } catch {} embedRetryTimer = null }
     embeddingsBuilding = true
-    const batchSize = 64
-    const modelToUse = model
-    const startStats = database.getEmbeddingsStats(modelToUse)
-    mainWindow?.webContents.send('embeddings:progress', { total: startStats.chunkCount, embedded: startStats.embeddedCount, model: modelToUse, status: 'starting' })
-    let stagnation = 0
-    let prevEmbedded = startStats.embeddedCount
-    while (true) {
-      const batch = database.getChunksNeedingEmbeddings(modelToUse, batchSize)
-      if (!batch.length) break
-      const texts = batch.map(b => b.chunk_text)
-      const vectors = await llama.embedTexts(texts, modelToUse)
-      for (let i = 0; i < batch.length; i++) {
-        database.upsertEmbedding(batch[i].id, vectors[i] || [], modelToUse)
-      }
-      const now = database.getEmbeddingsStats(modelToUse)
-      mainWindow?.webContents.send('embeddings:progress', { total: now.chunkCount, embedded: now.embeddedCount, model: modelToUse, status: 'running' })
-      if (now.embeddedCount <= prevEmbedded) {
-        if (++stagnation >= 3) break
-      } else {
-        stagnation = 0
-        prevEmbedded = now.embeddedCount
-      }
-    }
-    const fin = database.getEmbeddingsStats(modelToUse)
-    mainWindow?.webContents.send('embeddings:progress', { total: fin.chunkCount, embedded: fin.embeddedCount, model: modelToUse, status: 'done' })
+    await embedPendingChunks(model)
   } catch (e) {
     console.error('⚠️ [Main] maybeStartEmbeddingsBuild failed:', e)
     try { mainWindow?.webContents.send('embeddings:progress', { status: 'error', error: String((e as any)?.message || e) }) } catch {}
@@ -314,9 +442,13 @@ function startVaultWatcher(rootDir: string) {
         try {
           if (!hasIndexableExt(filePath)) return
           await database.ensureReady()
+          // Skip the read entirely when mtime and hash say nothing changed (startup scan)
+          const st = await stat(filePath)
+          if (!database.needsProcessing(filePath, st.mtime)) return
           const content = await readFile(filePath, 'utf-8')
           const name = path.basename(filePath)
-          database.saveFile(filePath, name, content)
+          if (!database.saveFile(filePath, name, content)) return
+          try { mainWindow?.webContents.send('file:indexed', { path: filePath }) } catch {}
           // New chunks may exist now; try to kick embeddings builder
           maybeStartEmbeddingsBuild('file-indexed')
         } catch (e) {
@@ -330,6 +462,7 @@ function startVaultWatcher(rootDir: string) {
           if (!hasIndexableExt(filePath)) return
           await database.ensureReady()
           database.deleteFileByPath(filePath)
+          try { mainWindow?.webContents.send('file:indexed', { path: filePath, deleted: true }) } catch {}
         } catch (e) {
           console.error('Watcher unlink failed:', e)
         }
@@ -478,36 +611,11 @@ const createWindow = (): void => {
         try {
           if (embeddingsBuilding) return
           await database.ensureReady()
-          const llama = LlamaService.getInstance()
-          await llama.initialize()
-          const model = llama.getCurrentModel() || 'llama3.1:latest'
+          const model = await prepareEmbeddingModel()
           const { embeddedCount, chunkCount } = database.getEmbeddingsStats(model)
           if (embeddedCount < chunkCount) {
             embeddingsBuilding = true
-            mainWindow?.webContents.send('embeddings:progress', { total: chunkCount, embedded: embeddedCount, model, status: 'starting' })
-            const batchSize = 64
-            let stagnation = 0
-            let prevEmbedded = embeddedCount
-            while (true) {
-              const batch = database.getChunksNeedingEmbeddings(model, batchSize)
-              if (!batch.length) break
-              const texts = batch.map(b => b.chunk_text)
-              const vectors = await llama.embedTexts(texts, model)
-              for (let i = 0; i < batch.length; i++) {
-                database.upsertEmbedding(batch[i].id, vectors[i] || [], model)
-              }
-              const now = database.getEmbeddingsStats(model)
-              mainWindow?.webContents.send('embeddings:progress', { total: now.chunkCount, embedded: now.embeddedCount, model, status: 'running' })
-              // Break if progress stalls to avoid busy loops under concurrent reindex
-              if (now.embeddedCount <= prevEmbedded) {
-                if (++stagnation >= 3) break
-              } else {
-                stagnation = 0
-                prevEmbedded = now.embeddedCount
-              }
-            }
-            const fin = database.getEmbeddingsStats(model)
-            mainWindow?.webContents.send('embeddings:progress', { total: fin.chunkCount, embedded: fin.embeddedCount, model, status: 'done' })
+            await embedPendingChunks(model)
           }
         } catch (e) {
           console.error('⚠️ [Main] Auto embeddings build failed:', e)
@@ -667,7 +775,11 @@ app.whenReady().then(async () => {
         name: error instanceof Error ? error.name : 'Unknown error'
       })
       
-      if (errorMsg.includes('Bad EXE format') || errorMsg.includes('better_sqlite3.node')) {
+      if (error instanceof MigrationError) {
+        console.error(`🧱 [Main] Schema migration ${error.failedMigration} failed; database left at v${error.fromVersion}`)
+        if (error.backupPath) console.error(`🧱 [Main] Pre-migration backup: ${error.backupPath}`)
+        console.error('🧱 [Main] The renderer will show the error; the database will not be recreated')
+      } else if (errorMsg.includes('Bad EXE format') || errorMsg.includes('better_sqlite3.node')) {
         console.error('🪟 [Main] CRITICAL: Windows native module issue detected!')
         console.error('🪟 [Main] This indicates better-sqlite3 was not compiled for Windows')
         console.error('🪟 [Main] App will continue but database features will be unavailable')
@@ -682,9 +794,28 @@ app.whenReady().then(async () => {
     }
     console.log(`🗄️ [Main] Database status: ${databaseReady ? '✅ READY' : '❌ UNAVAILABLE'}`)
     console.log('🗄️ [Main] ===============================================')
+    if (databaseReady) applyLLMSettings()
 
   createWindow()
 
+  // Chat export and reviews live in the app menu on every platform
+  const chatMenu: Electron.MenuItemConstructorOptions = {
+    label: 'Chat',
+    submenu: [
+      { label: 'Export Current Chat to Vault', click: () => exportChatsFromMenu('active') },
+      { label: 'Export All Chats to Vault', click: () => exportChatsFromMenu('all') }
+    ]
+  }
+  const reviewMenu: Electron.MenuItemConstructorOptions = {
+    label: 'Review',
+    submenu: [
+      { label: 'Generate Weekly Review (This Week)', click: () => generateDigestFromMenu('week', 'current') },
+      { label: 'Generate Weekly Review (Last Week)', click: () => generateDigestFromMenu('week', 'previous') },
+      { label: 'Generate Monthly Review (This Month)', click: () => generateDigestFromMenu('month', 'current') },
+      { label: 'Generate Monthly Review (Last Month)', click: () => generateDigestFromMenu('month', 'previous') }
+    ]
+  }
+
   // Set app menu
   if (process.platform === 'darwin') {
     // macOS menu
@@ -725,6 +856,8 @@ app.whenReady().then(async () => {
           }
         ]
       },
+      chatMenu,
+      reviewMenu,
       {
         label: 'View',
         submenu: [
@@ -772,6 +905,8 @@ app.whenReady().then(async () => {
           { role: 'selectAll' }
         ]
       },
+      chatMenu,
+      reviewMenu,
       {
         label: 'View',
         submenu: [
@@ -795,6 +930,10 @@ app.whenReady().then(async () => {
       createWindow()
     }
   })
+
+  // Scheduled reviews: checked hourly while the app is open, first shortly after launch
+  setTimeout(runScheduledDigests, 2 * 60 * 1000)
+  digestTimer = setInterval(runScheduledDigests, 60 * 60 * 1000)
   
     // BULLETPROOF initialization summary
     console.log('🎯 [Main] ========== INITIALIZATION COMPLETE ==========')
@@ -849,6 +988,8 @@ app.on('window-all-closed', () => {
 
 // Clean up database when app is about to quit
 app.on('before-quit', () => {
+  if (digestTimer) clearInterval(digestTimer)
+  vectorIndexService.flush()
   database.close()
 })
 
@@ -1050,12 +1191,15 @@ async function processDirectoryRecursively(dirPath: string): Promise<void> {
         const full = join(dirPath, entry.name)
         if (!hasIndexableExt(full)) continue
         try {
+          const st = await stat(fullPath)
+          if (!database.needsProcessing(fullPath, st.mtime)) continue
           console.log('📖 [Recursive] Reading content for indexing:', entry.name, 'in', dirPath)
           const content = await readFile(fullPath, 'utf-8')
           
-          // Save to database with chunking and FTS indexing
-          database.saveFile(fullPath, entry.name, content)
-          console.log('🧠 [Recursive] Indexed:', entry.name)
+          // Save to database with chunking and FTS indexing (no-op when the content hash matches)
+          if (database.saveFile(fullPath, entry.name, content)) {
+            console.log('🧠 [Recursive] Indexed:', entry.name)
+          }
         } catch (contentError) {
           console.error('⚠️ [Recursive] Failed to process content for', entry.name, ':', contentError)
         }
@@ -1102,6 +1246,7 @@ ipcMain.handle('file:writeFile', async (_, filePath: string, content: string) =>
       const fileName = path.basename(normalizedPath)
       database.saveFile(normalizedPath, fileName, content)
       console.log('🧠 [File] Updated RAG index for:', fileName)
+      try { mainWindow?.webContents.send('file:indexed', { path: normalizedPath }) } catch {}
     }
     
     return true
@@ -1128,6 +1273,7 @@ ipcMain.handle('file:createFile', async (_, dirPath: string, fileName: string) =
     // Also add to database for RAG indexing
     database.saveFile(filePath, fileName, initialContent)
     console.log('🧠 [File] Added new file to RAG index:', fileName)
+    try { mainWindow?.webContents.send('file:indexed', { path: filePath }) } catch {}
     
     return filePath
   } catch (error) {
@@ -1193,6 +1339,16 @@ ipcMain.handle('db:getStats', async () => {
   }
 })
 
+// Does not wait for ensureReady: this is how the renderer learns why the database is unavailable
+ipcMain.handle('db:getMigrationStatus', async () => {
+  try {
+    return database.getMigrationStatus()
+  } catch (error) {
+    console.error('❌ [IPC] Error getting migration status:', error)
+    throw error
+  }
+})
+
 ipcMain.handle('db:updateNoteDates', async () => {
   try {
     await database.ensureReady()
@@ -1231,6 +1387,79 @@ ipcMain.handle('db:reindexAll', async () => {
   }
 })
 
+// Links IPC handlers
+ipcMain.handle('links:getBacklinks', async (_, filePath: string) => {
+  try {
+    await database.ensureReady()
+    return database.getBacklinks(filePath)
+  } catch (error) {
+    console.error('❌ [IPC] Error getting backlinks:', error)
+    throw error
+  }
+})
+
+ipcMain.handle('links:getOutgoing', async (_, filePath: string) => {
+  try {
+    await database.ensureReady()
+    return database.getOutgoingLinks(filePath)
+  } catch (error) {
+    console.error('❌ [IPC] Error getting outgoing links:', error)
+    throw error
+  }
+})
+
+ipcMain.handle('links:getUnresolved', async (_, limit?: number) => {
+  try {
+    await database.ensureReady()
+    return database.getUnresolvedLinks(limit)
+  } catch (error) {
+    console.error('❌ [IPC] Error getting unresolved links:', error)
+    throw error
+  }
+})
+
+// Tags IPC handlers
+ipcMain.handle('tags:list', async () => {
+  try {
+    await database.ensureReady()
+    return database.getTagCounts()
+  } catch (error) {
+    console.error('❌ [IPC] Error listing tags:', error)
+    throw error
+  }
+})
+
+ipcMain.handle('tags:getFiles', async (_, tag: string, limit?: number) => {
+  try {
+    await database.ensureReady()
+    return database.getFilesForTag(tag, limit)
+  } catch (error) {
+    console.error('❌ [IPC] Error getting files for tag:', error)
+    throw error
+  }
+})
+
+// Properties IPC handlers
+ipcMain.handle('properties:query', async (_, filters: string | string[], options?: { sort?: string; order?: 'asc' | 'desc'; limit?: number }) => {
+  try {
+    await database.ensureReady()
+    return database.queryProperties(filters, options)
+  } catch (error) {
+    console.error('❌ [IPC] Error querying properties:', error)
+    throw error
+  }
+})
+
+ipcMain.handle('properties:listKeys', async () => {
+  try {
+    await database.ensureReady()
+    return database.getPropertyKeys()
+  } catch (error) {
+    console.error('❌ [IPC] Error listing property keys:', error)
+    throw error
+  }
+})
+
 // LLM IPC handlers
 // Removed: llm:sendMessage
 
@@ -1300,6 +1529,105 @@ ipcMain.handle('llm:getAvailableModels', async () => {
   }
 })
 
+// Model management in Settings: inspect, pull and delete installed models
+ipcMain.handle('llm:listModelDetails', async () => {
+  try {
+    const llama = LlamaService.getInstance()
+    return { models: await llama.listManagedModels(), ...llama.canManageModels() }
+  } catch (error) {
+    console.error('❌ [IPC] Error listing models:', error)
+    throw error
+  }
+})
+
+ipcMain.handle('llm:pullModel', async (_, modelName: string) => {
+  try {
+    const name = (modelName || '').trim()
+    if (!name) throw new Error('Enter a model name, e.g. llama3.2:3b')
+    await LlamaService.getInstance().pullModel(name)
+    return true
+  } catch (error) {
+    console.error('❌ [IPC] Error pulling model:', error)
+    mainWindow?.webContents.send('llm:downloadProgress', { modelName, progress: 0, status: 'error', error: String((error as any)?.message || error) })
+    throw error
+  }
+})
+
+ipcMain.handle('llm:deleteModel', async (_, modelName: string) => {
+  try {
+    await LlamaService.getInstance().deleteModel(modelName)
+    return true
+  } catch (error) {
+    console.error('❌ [IPC] Error deleting model:', error)
+    throw error
+  }
+})
+
+// Chat/embedding backend: Ollama or any OpenAI-compatible server (llama.cpp, LM Studio, vLLM)
+function applyLLMSettings(): void {
+  try {
+    LlamaService.getInstance().setEmbeddingModel(database.getSetting('embeddingModel'))
+    LlamaService.getInstance().setMaxContextTokens(parseInt(database.getSetting('maxContextTokens') || '') || null)
+    const kind = database.getSetting('llmProvider') === 'openai' ? 'openai' : 'ollama'
+    const baseUrl = database.getSetting('llmBaseUrl') || ''
+    if (kind === 'ollama' && !baseUrl) return
+    LlamaService.getInstance().setProvider({ kind, baseUrl, apiKey: database.getSetting('llmApiKey') })
+  } catch (error) {
+    console.error('❌ [Main] Failed to apply LLM provider settings:', error)
+  }
+}
+
+ipcMain.handle('llm:getProvider', async () => {
+  try {
+    await database.ensureReady()
+    const info = LlamaService.getInstance().getProviderInfo()
+    return { ...info, configuredBaseUrl: database.getSetting('llmBaseUrl') || '', hasApiKey: !!database.getSetting('llmApiKey') }
+  } catch (error) {
+    console.error('❌ [IPC] Error getting LLM provider:', error)
+    throw error
+  }
+})
+
+ipcMain.handle('llm:setProvider', async (_, config: { kind: 'ollama' | 'openai'; baseUrl?: string; apiKey?: string | null }) => {
+  try {
+    await database.ensureReady()
+    const kind = config.kind === 'openai' ? 'openai' : 'ollama'
+    const baseUrl = (config.baseUrl || '').trim()
+    if (kind === 'openai' && !baseUrl) throw new Error('Enter the server URL, e.g. http://127.0.0.1:8080')
+    database.setSetting('llmProvider', kind)
+    database.setSetting('llmBaseUrl', baseUrl)
+    // An omitted key keeps the stored one; an empty string clears it
+    if (config.apiKey !== undefined) database.setSetting('llmApiKey', config.apiKey || '')
+
+    const llama = LlamaService.getInstance()
+    llama.setProvider({ kind, baseUrl, apiKey: database.getSetting('llmApiKey') })
+    embeddingModelReady = null
+    await llama.initialize()
+    return { ...llama.getProviderInfo(), currentModel: llama.getCurrentModel() }
+  } catch (error) {
+    console.error('❌ [IPC] Error setting LLM provider:', error)
+    throw error
+  }
+})
+
+ipcMain.handle('llm:getModelInfo', async (_, modelName: string) => {
+  try {
+    return await LlamaService.getInstance().getModelInfo(modelName)
+  } catch {
+    return null
+  }
+})
+
+// Tokens the active chat model is run with (trained window, capped by `maxContextTokens`)
+ipcMain.handle('llm:getContextWindow', async () => {
+  try {
+    const llama = LlamaService.getInstance()
+    return { model: llama.getCurrentModel(), tokens: await llama.getContextWindow() }
+  } catch {
+    return null
+  }
+})
+
 // Chat IPC handlers
 ipcMain.handle('chat:create', async (_, title: string) => {
   try {
@@ -1378,6 +1706,38 @@ ipcMain.handle('chat:getMessages', async (_, chatId: number) => {
   }
 })
 
+ipcMain.handle('chat:editMessage', async (_, messageId: number, content: string) => {
+  try {
+    await database.ensureReady()
+    if (!content || !content.trim()) throw new Error('Message cannot be empty')
+    return database.editChatMessage(messageId, content.trim())
+  } catch (error) {
+    console.error('❌ [IPC] Error editing chat message:', error)
+    throw error
+  }
+})
+
+// Branch navigation returns the messages of the newly active branch
+ipcMain.handle('chat:switchBranch', async (_, messageId: number, direction: number) => {
+  try {
+    await database.ensureReady()
+    return database.getChatMessages(database.switchChatBranch(messageId, direction))
+  } catch (error) {
+    console.error('❌ [IPC] Error switching chat branch:', error)
+    throw error
+  }
+})
+
+ipcMain.handle('chat:selectBranch', async (_, messageId: number) => {
+  try {
+    await database.ensureReady()
+    return database.getChatMessages(database.selectChatBranch(messageId))
+  } catch (error) {
+    console.error('❌ [IPC] Error selecting chat branch:', error)
+    throw error
+  }
+})
+
 ipcMain.handle('chat:delete', async (_, chatId: number) => {
   try {
     await database.ensureReady()
@@ -1400,73 +1760,347 @@ ipcMain.handle('chat:rename', async (_, chatId: number, newTitle: string) => {
   }
 })
 
+ipcMain.handle('chat:setPersona', async (_, chatId: number, personaId: number | null) => {
+  try {
+    await database.ensureReady()
+    database.setChatPersona(chatId, personaId ?? null)
+    return true
+  } catch (error) {
+    console.error('❌ [IPC] Error setting chat persona:', error)
+    throw error
+  }
+})
+
+ipcMain.handle('chat:search', async (_, query: string, limit?: number) => {
+  try {
+    await database.ensureReady()
+    if (!query || !query.trim()) return []
+    return database.searchChatMessages(query, limit || 20)
+  } catch (error) {
+    console.error('❌ [IPC] Error searching chats:', error)
+    throw error
+  }
+})
+
+// Chat export: chats become Markdown notes in the vault's export folder and are indexed right away
+async function exportChats(scope: number | 'all'): Promise<ChatExportResult[]> {
+  const model = LlamaService.getInstance().getCurrentModel()
+  const results = scope === 'all'
+    ? await chatExportService.exportAllChats(model)
+    : [await chatExportService.exportChat(scope, model)]
+  for (const r of results) {
+    if (r.messages > 0) try { mainWindow?.webContents.send('file:indexed', { path: r.path }) } catch {}
+  }
+  if (results.length) maybeStartEmbeddingsBuild('chat-export')
+  return results
+}
+
+async function exportChatsFromMenu(scope: 'active' | 'all'): Promise<void> {
+  try {
+    await database.ensureReady()
+    let target: number | 'all' = 'all'
+    if (scope === 'active') {
+      const active = database.getActiveChat()
+      if (!active) throw new Error('There is no open chat to export')
+      target = active.id
+    }
+    const results = await exportChats(target)
+    const message = results.length === 1
+      ? `Exported to ${results[0].path}`
+      : `Exported ${results.length} chat(s) to ${chatExportService.getExportFolder().folder}`
+    if (mainWindow) await dialog.showMessageBox(mainWindow, { type: 'info', message: 'Chat export', detail: message })
+  } catch (error) {
+    console.error('❌ [Menu] Chat export failed:', error)
+    dialog.showErrorBox('Chat export failed', error instanceof Error ? error.message : String(error))
+  }
+}
+
+// Digests: reviews of a week or month of dated notes, written into the vault's review folder
+let digestTimer: NodeJS.Timeout | null = null
+
+async function generateDigest(kind: DigestKind, which: 'current' | 'previous'): Promise<DigestResult> {
+  const period = which === 'previous' ? previousDigestPeriod(kind) : digestPeriod(kind)
+  const result = await digestService.generate(period, (progress) => {
+    try { mainWindow?.webContents.send('digest:progress', progress) } catch {}
+  })
+  try { mainWindow?.webContents.send('file:indexed', { path: result.path }) } catch {}
+  maybeStartEmbeddingsBuild('digest')
+  return result
+}
+
+async function generateDigestFromMenu(kind: DigestKind, which: 'current' | 'previous'): Promise<void> {
+  try {
+    await database.ensureReady()
+    const result = await generateDigest(kind, which)
+    if (mainWindow) await dialog.showMessageBox(mainWindow, { type: 'info', message: 'Review written', detail: `${result.noteCount} note(s) → ${result.path}` })
+  } catch (error) {
+    console.error('❌ [Menu] Digest generation failed:', error)
+    dialog.showErrorBox('Review failed', error instanceof Error ? error.message : String(error))
+  }
+}
+
+// `digestSchedule` is off | weekly | monthly | both; each finished period is reviewed once
+async function runScheduledDigests(): Promise<void> {
+  try {
+    await database.ensureReady()
+    const schedule = database.getSetting('digestSchedule') || 'off'
+    const kinds: DigestKind[] = schedule === 'both' ? ['week', 'month'] : schedule === 'weekly' ? ['week'] : schedule === 'monthly' ? ['month'] : []
+    for (const kind of kinds) {
+      const key = kind === 'week' ? 'digestLastWeekly' : 'digestLastMonthly'
+      const period = previousDigestPeriod(kind)
+      if (database.getSetting(key) === period.label || digestService.isRunning()) continue
+      try {
+        await generateDigest(kind, 'previous')
+      } catch (error) {
+        // An empty period is done too; anything else is retried on the next check
+        if (!(error instanceof Error && error.message.startsWith('No dated notes'))) throw error
+      }
+      database.setSetting(key, period.label)
+    }
+  } catch (error) {
+    console.warn('⚠️ [Digest] Scheduled review failed:', error)
+  }
+}
+
+ipcMain.handle('digest:generate', async (_, kind: DigestKind, which?: 'current' | 'previous') => {
+  try {
+    await database.ensureReady()
+    return await generateDigest(kind === 'month' ? 'month' : 'week', which === 'previous' ? 'previous' : 'current')
+  } catch (error) {
+    console.error('❌ [IPC] Error generating digest:', error)
+    throw error
+  }
+})
+
+ipcMain.handle('chat:export', async (_, chatId: number) => {
+  try {
+    await database.ensureReady()
+    const [result] = await exportChats(chatId)
+    return result
+  } catch (error) {
+    console.error('❌ [IPC] Error exporting chat:', error)
+    throw error
+  }
+})
+
+ipcMain.handle('chat:exportAll', async () => {
+  try {
+    await database.ensureReady()
+    return await exportChats('all')
+  } catch (error) {
+    console.error('❌ [IPC] Error exporting all chats:', error)
+    throw error
+  }
+})
+
+// Persona IPC handlers
+ipcMain.handle('persona:list', async () => {
+  try {
+    await database.ensureReady()
+    return database.getPersonas()
+  } catch (error) {
+    console.error('❌ [IPC] Error listing personas:', error)
+    throw error
+  }
+})
+
+ipcMain.handle('persona:create', async (_, input: PersonaInput) => {
+  try {
+    await database.ensureReady()
+    return database.createPersona(input)
+  } catch (error) {
+    console.error('❌ [IPC] Error creating persona:', error)
+    throw error
+  }
+})
+
+ipcMain.handle('persona:update', async (_, id: number, input: PersonaInput) => {
+  try {
+    await database.ensureReady()
+    return database.updatePersona(id, input)
+  } catch (error) {
+    console.error('❌ [IPC] Error updating persona:', error)
+    throw error
+  }
+})
+
+ipcMain.handle('persona:delete', async (_, id: number) => {
+  try {
+    await database.ensureReady()
+    database.deletePersona(id)
+    return true
+  } catch (error) {
+    console.error('❌ [IPC] Error deleting persona:', error)
+    throw error
+  }
+})
+
 // RAG/Content Search IPC handlers
-ipcMain.handle('content:search', async (_, query: string, limit?: number) => {
+// The answer currently streaming (one at a time); aborted by content:cancelStream
+let activeStream: AbortController | null = null
+
+ipcMain.handle('content:cancelStream', async () => {
+  try {
+    if (!activeStream) return { cancelled: false }
+    console.log('⏹️ [IPC] Cancelling active answer stream')
+    activeStream.abort()
+    return { cancelled: true }
+  } catch (error) {
+    console.error('❌ [IPC] Error cancelling stream:', error)
+    throw error
+  }
+})
+
+// Recent turns of a chat for retrieval, minus the just-saved copy of the current question
+const loadConversationHistory = (chatId: number, query: string): ConversationTurn[] => {
+  const recent = database.getChatMessages(chatId, 8)
+  const last = recent[recent.length - 1]
+  if (last && last.role === 'user' && last.content.trim() === query.trim()) recent.pop()
+  return recent.map(m => ({ role: m.role, content: m.content, metadata: m.metadata }))
+}
+
+ipcMain.handle('content:search', async (_, query: string, limit?: number, tag?: string) => {
   try {
     await database.ensureReady()
-    console.log(`🔍 [IPC] Content search: ${query}`)
-    return contentService.searchOnly(query, limit)
+    console.log(`🔍 [IPC] Content search: ${query}${tag ? ` (#${tag})` : ''}`)
+    return contentService.searchOnly(query, limit, tag || null)
   } catch (error) {
     console.error('❌ [IPC] Error searching content:', error)
     throw error
   }
 })
 
+ipcMain.handle('content:semanticSearch', async (_, query: string, limit?: number, model?: string) => {
+  try {
+    await database.ensureReady()
+    console.log(`🧭 [IPC] Semantic search: ${query}`)
+    return await contentService.semanticSearch(query, limit || 20, model)
+  } catch (error) {
+    console.error('❌ [IPC] Error in semantic search:', error)
+    throw error
+  }
+})
+
 ipcMain.handle('content:searchAndAnswer', async (_, query: string, chatId?: number) => {
   try {
     await database.ensureReady()
     console.log(`🧠 [IPC] FTS-backed searchAndAnswer: ${query}`)
-    // Optional: collect brief conversation history for future use (not injected now)
-    let conversationHistory: Array<{ role: string, content: string }> = []
-    if (chatId) {
-      const recentMessages = database.getChatMessages(chatId, 6)
-      conversationHistory = recentMessages.map(msg => ({ role: msg.role, content: msg.content }))
-    }
-    return await contentService.searchAndAnswer(query, conversationHistory)
+    const conversationHistory = chatId ? loadConversationHistory(chatId, query) : []
+    const persona = chatId ? database.getChatPersona(chatId) : null
+    return await contentService.searchAndAnswer(query, conversationHistory, persona)
   } catch (error) {
     console.error('❌ [IPC] Error in searchAndAnswer:', error)
     throw error
   }
 })
 
-// Streaming RAG
-ipcMain.handle('content:streamSearchAndAnswer', async (_, query: string, chatId?: number) => {
-  try {
-    await database.ensureReady()
-    console.log(`🧠 [IPC] FTS-backed streaming: ${query}`)
+// Streaming RAG: retrieve, stream the answer chunk by chunk, persist it, then signal done.
+// Pinned paths (notes attached with @ in the chat input) are always part of the context.
+// The answer is attached to `parentId` (default: the end of the active branch when the stream starts).
+// `restoreLeafId`: branch to show again when no answer gets saved (a failed or empty regenerate)
+async function streamAnswer(query: string, chatId: number | undefined, options: { tag?: string; pinnedPaths?: string[]; model?: string; parentId?: number; restoreLeafId?: number | null } = {}) {
+  // A new question supersedes any stream still running
+  activeStream?.abort()
+  const controller = new AbortController()
+  activeStream = controller
+  // Once superseded, this call must not send stream events: the renderer would apply them to the new answer
+  const superseded = () => activeStream !== controller
+  let targetChatId: number | undefined
+  let saved = false
+  const restoreLeaf = () => {
+    if (saved || !targetChatId || !options.restoreLeafId) return
+    try { database.setActiveLeaf(targetChatId, options.restoreLeafId) } catch (e) { console.warn('⚠️ [IPC] Failed to restore the previous branch:', e) }
+  }
 
-    // Minimal streaming: build prompt from FTS, then stream from LLM
-    let conversationHistory: Array<{ role: string, content: string }> = []
-    if (chatId) {
-      const recent = database.getChatMessages(chatId, 6)
-      conversationHistory = recent.map(m => ({ role: m.role, content: m.content }))
-    }
-    const { prompt, sources } = await contentService["preparePromptWithHybrid"](query)
+  try {
+    // Follow-ups are rewritten against the chat history before retrieval, then streamed
+    const conversationHistory = chatId ? loadConversationHistory(chatId, query) : []
+    targetChatId = chatId || database.getActiveChat()?.id
+    const persona = targetChatId ? database.getChatPersona(targetChatId) : null
+    const parentId = options.parentId ?? (targetChatId ? database.getActiveLeafId(targetChatId) : null)
+    const { messages, sources, retrieval } = await contentService.prepareConversationalPrompt(query, conversationHistory, { tag: options.tag, pinnedPaths: options.pinnedPaths, persona })
     const llama = require('./services/llamaService').LlamaService.getInstance()
     try { await llama.initialize() } catch {}
 
     let full = ''
-    await llama.sendMessage([{ role: 'user', content: prompt }], (chunk: string) => {
+    await llama.sendMessage(messages, (chunk: string) => {
       full += chunk
+      if (superseded()) return
       try { mainWindow?.webContents.send('content:streamChunk', { chunk }) } catch {}
-    })
-    try { mainWindow?.webContents.send('content:streamDone', { answer: full, sources }) } catch {}
-    // Persist assistant message server-side to avoid renderer race/failures
+    }, controller.signal, options.model)
+    const cancelled = controller.signal.aborted
+
+    // Persist assistant message server-side (with the retrieval context the next turn builds on);
+    // a stopped answer is kept as far as it got and marked truncated
     try {
-      const active = database.getActiveChat()
-      if (active && full) {
-        database.addChatMessage(active.id, 'assistant', full, { sources })
+      if (targetChatId && full) {
+        const model = options.model || llama.getCurrentModel()
+        database.addChatMessage(targetChatId, 'assistant', full, cancelled ? { sources, retrieval, model, truncated: true } : { sources, retrieval, model }, parentId)
+        saved = true
       }
     } catch (e) {
       console.warn('⚠️ [IPC] Failed to persist assistant message on stream end:', e)
     }
-    return { started: true }
+    // Before streamDone, which makes the renderer reload the branch
+    restoreLeaf()
+    if (!superseded()) {
+      try { mainWindow?.webContents.send('content:streamDone', { answer: full, sources, cancelled }) } catch {}
+    }
+    return { started: true, cancelled, saved }
+  } finally {
+    restoreLeaf()
+    if (activeStream === controller) activeStream = null
+  }
+}
+
+ipcMain.handle('content:streamSearchAndAnswer', async (_, query: string, chatId?: number, options?: { tag?: string }) => {
+  try {
+    await database.ensureReady()
+    console.log(`🧠 [IPC] FTS-backed streaming: ${query}`)
+    return await streamAnswer(query, chatId, { tag: options?.tag })
   } catch (error) {
     console.error('❌ [IPC] Error in FTS-backed streaming:', error)
     throw error
   }
 })
 
+ipcMain.handle('content:streamSearchAndAnswerWithContext', async (_, query: string, chatId: number | undefined, pinnedPaths: string[], options?: { tag?: string }) => {
+  try {
+    await database.ensureReady()
+    const pins = Array.isArray(pinnedPaths) ? pinnedPaths.filter(p => typeof p === 'string' && p) : []
+    console.log(`🧠 [IPC] Streaming with ${pins.length} pinned file(s): ${query}`)
+    return await streamAnswer(query, chatId, { tag: options?.tag, pinnedPaths: pins })
+  } catch (error) {
+    console.error('❌ [IPC] Error in pinned-context streaming:', error)
+    throw error
+  }
+})
+
+// Answer a user message again (optionally with another model); the new answer is a sibling of
+// the earlier ones. Given an assistant message, its question is answered again.
+ipcMain.handle('chat:regenerate', async (_, messageId: number, options?: { model?: string; pinnedPaths?: string[] }) => {
+  try {
+    await database.ensureReady()
+    let message = database.getChatMessage(messageId)
+    if (message?.role === 'assistant' && message.parent_id) message = database.getChatMessage(message.parent_id)
+    if (!message || message.role !== 'user') throw new Error(`No question to regenerate from message ${messageId}`)
+    // History for the prompt is the branch up to this question; the current branch comes back
+    // if no new answer is saved
+    const previousLeafId = database.getActiveLeafId(message.chat_id)
+    database.setActiveLeaf(message.chat_id, message.id)
+    console.log(`🔁 [IPC] Regenerating answer to message ${message.id}${options?.model ? ` with ${options.model}` : ''}`)
+    return await streamAnswer(message.content, message.chat_id, {
+      parentId: message.id,
+      restoreLeafId: previousLeafId,
+      model: options?.model || undefined,
+      pinnedPaths: Array.isArray(options?.pinnedPaths) ? options!.pinnedPaths.filter(p => typeof p === 'string' && p) : undefined
+    })
+  } catch (error) {
+    console.error('❌ [IPC] Error regenerating answer:', error)
+    throw error
+  }
+})
+
 ipcMain.handle('content:getFile', async (_, fileId: number) => {
   try {
     await database.ensureReady()
@@ -1514,6 +2148,9 @@ ipcMain.handle('settings:set', async (_, key: string, value: string) => {
     if (key === 'selectedDirectory' && typeof value === 'string' && value) {
       startVaultWatcher(value)
     }
+    if (key === 'maxContextTokens') {
+      LlamaService.getInstance().setMaxContextTokens(parseInt(value) || null)
+    }
     return true
   } catch (error) {
     console.error('❌ [IPC] Error setting value:', error)
@@ -0,0 +1,155 @@
+import { readFile, writeFile, mkdir } from 'fs/promises'
+import { existsSync } from 'fs'
+import path from 'path'
+import { database, IslaDatabase } from '../database'
+import type { ChatRecord, ChatMessageRecord } from '../database'
+import type { SourceCitation } from './contentService'
+import { formatNoteLink, resolveVaultFolder, NoteLinkStyle } from '../utils/vaultPaths'
+
+export interface ChatExportResult {
+  chatId: number
+  path: string
+  messages: number
+}
+
+interface ExportContext {
+  vaultRoot: string
+  folder: string
+  linkStyle: NoteLinkStyle
+  fallbackModel: string | null
+}
+
+// SQLite CURRENT_TIMESTAMP is UTC without a zone marker
+function parseDbTimestamp(value: string): Date {
+  const d = new Date(/[zZ]|[+-]\d\d:?\d\d$/.test(value) ? value : `${value.replace(' ', 'T')}Z`)
+  return isNaN(d.getTime()) ? new Date() : d
+}
+
+const pad = (n: number) => String(n).padStart(2, '0')
+const localDate = (d: Date) => `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`
+const localTime = (d: Date) => `${pad(d.getHours())}:${pad(d.getMinutes())}`
+
+function parseMetadata(raw: string | null | undefined): any {
+  if (!raw) return null
+  try { return JSON.parse(raw) } catch { return null }
+}
+
+// Characters that break file names on some platform or wikilink targets in the note itself
+function safeFileTitle(title: string): string {
+  const cleaned = title.replace(/["*?<>|#^[\]]/g, '').replace(/[\\/:]/g, '-').replace(/\s+/g, ' ').trim().slice(0, 80).trim()
+  return cleaned.replace(/^\.+/, '') || 'Chat'
+}
+
+/**
+ * Writes chats into the vault as Markdown notes: frontmatter (title, date, model), one section
+ * per turn and the cited notes under each answer. The note is indexed straight away, so past
+ * conversations become searchable like any other note.
+ */
+export class ChatExportService {
+  constructor(private db: IslaDatabase = database) {}
+
+  /** Folder chats are exported into; `chatExportFolder` is relative to the vault root */
+  getExportFolder(): { vaultRoot: string; folder: string } {
+    return resolveVaultFolder(this.db.getSetting('selectedDirectory'), this.db.getSetting('chatExportFolder'), 'Chats')
+  }
+
+  async exportChat(chatId: number, fallbackModel: string | null = null): Promise<ChatExportResult> {
+    const chat = this.db.getChat(chatId)
+    if (!chat) throw new Error(`Chat ${chatId} not found`)
+    if (this.db.getChatMessages(chatId, 1).length === 0) throw new Error('This chat has no messages to export')
+    return this.writeChat(chat, { ...this.getExportFolder(), linkStyle: this.getLinkStyle(), fallbackModel })
+  }
+
+  /** Export every chat that has messages; one failing chat does not stop the rest */
+  async exportAllChats(fallbackModel: string | null = null): Promise<ChatExportResult[]> {
+    const ctx: ExportContext = { ...this.getExportFolder(), linkStyle: this.getLinkStyle(), fallbackModel }
+    const results: ChatExportResult[] = []
+    for (const chat of this.db.getAllChats()) {
+      try {
+        const result = await this.writeChat(chat, ctx)
+        if (result.messages > 0) results.push(result)
+      } catch (error) {
+        console.error(`❌ [ChatExport] Failed to export chat ${chat.id}:`, error)
+      }
+    }
+    return results
+  }
+
+  private renderChat(chat: ChatRecord, messages: ChatMessageRecord[], ctx: ExportContext): string {
+    const created = parseDbTimestamp(chat.created_at)
+    const updated = parseDbTimestamp(chat.updated_at)
+    const persona = this.db.getChatPersona(chat.id)
+
+    // The model of the latest answer; older answers predate recording it
+    let model = ctx.fallbackModel
+    for (const m of messages) {
+      const meta = m.role === 'assistant' ? parseMetadata(m.metadata) : null
+      if (meta?.model) model = meta.model
+    }
+
+    const frontmatter = [
+      '---',
+      `title: "${chat.title.replace(/"/g, "'")}"`,
+      `date: ${localDate(created)}`,
+      `updated: ${localDate(updated)} ${localTime(updated)}`,
+      `chat_id: ${chat.id}`,
+      ...(model ? [`model: "${model}"`] : []),
+      ...(persona ? [`persona: "${persona.name.replace(/"/g, "'")}"`] : []),
+      'tags: [chat]',
+      '---'
+    ]
+
+    const body: string[] = [`# ${chat.title}`, '']
+    for (const m of messages) {
+      if (m.role === 'system') continue
+      const at = parseDbTimestamp(m.created_at)
+      body.push(`## ${m.role === 'user' ? 'You' : 'Isla'} · ${localDate(at)} ${localTime(at)}`, '', m.content.trim(), '')
+
+      const meta = m.role === 'assistant' ? parseMetadata(m.metadata) : null
+      if (meta?.truncated) body.push('_Stopped early._', '')
+      const sources: SourceCitation[] = Array.isArray(meta?.sources) ? meta.sources : []
+      if (sources.length) {
+        body.push('Sources:')
+        sources.forEach((s, i) => body.push(`- [${s.citation ?? i + 1}] ${this.sourceLine(s, ctx)}`))
+        body.push('')
+      }
+    }
+
+    return `${frontmatter.join('\n')}\n\n${body.join('\n').trimEnd()}\n`
+  }
+
+  private getLinkStyle(): NoteLinkStyle {
+    return this.db.getSetting('chatExportLinkStyle') === 'markdown' ? 'markdown' : 'wikilink'
+  }
+
+  private sourceLine(source: SourceCitation, ctx: ExportContext): string {
+    const where = [
+      source.heading_path ? source.heading_path : '',
+      source.start_line ? `lines ${source.start_line}–${source.end_line ?? source.start_line}` : ''
+    ].filter(Boolean).join(', ')
+    const link = formatNoteLink(source.file_path, { vaultRoot: ctx.vaultRoot, fromFolder: ctx.folder, style: ctx.linkStyle, label: source.file_name })
+    return where ? `${link} (${where})` : link
+  }
+
+  private async writeChat(chat: ChatRecord, ctx: ExportContext): Promise<ChatExportResult> {
+    const messages = this.db.getChatMessages(chat.id)
+    const base = `${localDate(parseDbTimestamp(chat.created_at))} ${safeFileTitle(chat.title)}`
+    let filePath = path.join(ctx.folder, `${base}.md`)
+    // Re-exports overwrite the chat's own note; another chat with the same title and day gets a suffix
+    if (existsSync(filePath)) {
+      const existing = await readFile(filePath, 'utf-8').catch(() => '')
+      const owner = existing.match(/^chat_id:\s*(\d+)\s*$/m)
+      if (!owner || Number(owner[1]) !== chat.id) filePath = path.join(ctx.folder, `${base} (${chat.id}).md`)
+    }
+    if (messages.length === 0) return { chatId: chat.id, path: filePath, messages: 0 }
+
+    const content = this.renderChat(chat, messages, ctx)
+    await mkdir(ctx.folder, { recursive: true })
+    await writeFile(filePath, content, 'utf-8')
+    this.db.saveFile(filePath, path.basename(filePath), content)
+    console.log(`📝 [ChatExport] Exported chat ${chat.id} → ${filePath}`)
+    return { chatId: chat.id, path: filePath, messages: messages.length }
+  }
+}
+
+export const chatExportService = new ChatExportService()
@@ -1,17 +1,65 @@
-import { database } from '../database'
-import { LlamaService } from './llamaService'
+import { database, IslaDatabase, ChunkLocation, PersonaRecord } from '../database'
+import { LlamaService, ChatMessage } from './llamaService'
+import { parseSearchQuery, compileSearchQuery } from '../utils/searchQuery'
+import { vectorIndexService, VectorIndexService } from './vectorIndex'
+import { estimateTokens } from '../utils/tokenBudget'
+
+/**
+ * A retrieved passage as shown to the model (numbered `[citation]`) and to the user.
+ * The range covers the chunk(s) behind the snippet: [char_start, char_end) offsets and 1-based lines.
+ * `origin` tells passages from notes the user pinned to the question apart from search results.
+ */
+export interface SourceCitation {
+  citation: number
+  origin: 'pin' | 'search'
+  file_name: string
+  file_path: string
+  snippet: string
+  chunk_id?: number
+  heading_path?: string | null
+  char_start?: number | null
+  char_end?: number | null
+  start_line?: number | null
+  end_line?: number | null
+  /** A pinned note's passage cut short to fit the context budget */
+  truncated?: boolean
+}
 
 export interface RAGResponse {
   answer: string
-  sources: Array<{
-    file_name: string
-    file_path: string
-    snippet: string
-  }>
+  sources: SourceCitation[]
 }
 
 export type DateFilter = { start: Date; end: Date } | null
 
+// Floor for retrieved context when the template and history already fill most of the window
+const MIN_CONTEXT_TOKENS = 256
+
+// The built-in prompt, used by chats without a persona
+const DEFAULT_SYSTEM_PROMPT = 'You are a concise, friendly assistant for the user\'s local notes.'
+const DEFAULT_STYLE_GUIDANCE = [
+  'Be very conversational, like a thoughtful friend. Integrate details naturally.',
+  'Prefer 2–4 short paragraphs with occasional bullets. Avoid filler and repetition.'
+]
+
+function styleGuidance(persona: PersonaRecord | null | undefined): string {
+  const lines = persona ? (persona.length_guidance ? [persona.length_guidance] : []) : DEFAULT_STYLE_GUIDANCE
+  return lines.map(l => `\n- ${l}`).join('')
+}
+
+/** A prior chat message; metadata is the stored JSON (assistant turns carry `retrieval`) */
+export interface ConversationTurn {
+  role: string
+  content: string
+  metadata?: string | null
+}
+
+/** What a turn actually searched for, persisted so follow-ups can build on it */
+export interface RetrievalContext {
+  query: string
+  dateFilter: { start: string; end: string } | null
+}
+
 function cleanFileName(fileName: string): string {
   return fileName
     .replace(/\s+[a-f0-9]{32,}\.md$/i, '')
@@ -59,13 +107,197 @@ function extractDateFilter(qIn: string, now = new Date()): DateFilter {
   return null
 }
 
-class ContentService {
+/**
+ * Move the previous turn's date window for relative follow-ups:
+ * "the week after", "the day before", "the following month", "that same week".
+ * Returns undefined when the question has no relative date expression.
+ */
+function shiftDateFilter(qIn: string, previous: DateFilter): DateFilter | undefined {
+  if (!previous) return undefined
+  const q = qIn.toLowerCase()
+  const m = q.match(/\b(day|week|month)\s+(after|before|later|earlier)\b/) || q.match(/\b(next|following|previous|prior)\s+(day|week|month)\b/)
+  if (!m) {
+    return /\b(that|same)\s+(day|week|month)\b/.test(q) ? previous : undefined
+  }
+  const unit = /day|week|month/.test(m[1]) ? m[1] : m[2]
+  const dir = /after|later|next|following/.test(m[1] + ' ' + m[2]) ? 1 : -1
+  const step = (d: Date, n: number): Date => {
+    if (unit === 'month') return new Date(Date.UTC(d.getUTCFullYear(), d.getUTCMonth() + n, d.getUTCDate()))
+    return new Date(+d + n * (unit === 'week' ? 7 : 1) * 86400000)
+  }
+  return dir > 0
+    ? { start: previous.end, end: step(previous.end, 1) }
+    : { start: step(previous.start, -1), end: previous.start }
+}
+
+/** Short or referential questions ("what about…", "and then?", "why was that?") depend on earlier turns */
+function looksLikeFollowUp(query: string): boolean {
+  const q = query.trim().toLowerCase()
+  const words = q.split(/\s+/).filter(Boolean)
+  if (words.length <= 4) return true
+  if (/^(and|but|also|so|then|what about|how about|what else|anything else|why|more)\b/.test(q)) return true
+  return words.length <= 14 && /\b(that|those|it|its|them|this|these|there|then|he|she|they|the same|before|after)\b/.test(q)
+}
+
+/** Retrieval context recorded on the most recent assistant turn, if any */
+function previousRetrieval(history: ConversationTurn[]): { query: string; dateFilter: DateFilter } | null {
+  for (let i = history.length - 1; i >= 0; i--) {
+    const turn = history[i]
+    if (turn.role !== 'assistant' || !turn.metadata) continue
+    try {
+      const meta = typeof turn.metadata === 'string' ? JSON.parse(turn.metadata) : turn.metadata
+      const r = meta?.retrieval as RetrievalContext | undefined
+      if (!r) continue
+      const dateFilter = r.dateFilter ? { start: new Date(r.dateFilter.start), end: new Date(r.dateFilter.end) } : null
+      return { query: r.query, dateFilter }
+    } catch {}
+  }
+  return null
+}
+
+// Longest prefix of `text` (cut at a word where possible, marked with …) within `allowance`
+function trimToCost(text: string, allowance: number, cost: (text: string) => number): string {
+  let lo = 0
+  let hi = text.length
+  while (lo < hi) {
+    const mid = Math.ceil((lo + hi) / 2)
+    if (cost(text.slice(0, mid) + '…') <= allowance) lo = mid
+    else hi = mid - 1
+  }
+  const cut = text.slice(0, lo)
+  const atWord = cut.replace(/\s+\S*$/, '')
+  return `${(atWord.length > cut.length * 0.8 ? atWord : cut).trimEnd()}…`
+}
+
+// Minimum slice of a pinned note's best chunk, even when its share of the budget is smaller
+const MIN_PINNED_CHARS = 200
+
+// Pinned chunks per file, most query-relevant first, merged back into document-order runs
+// so adjacent chunks read as one passage. Every pin first gets its best chunk, trimmed to its
+// share of the budget when that chunk alone is too big; round-robin then fills the rest.
+function selectPinnedPassages(
+  files: Array<{ path: string; name: string; chunks: Array<{ id: number; chunk_index: number; chunk_text: string }> }>,
+  tokens: string[],
+  budget: number,
+  cost: (text: string) => number
+): Array<{ file_name: string; file_path: string; snippet: string; chunk_id?: number; chunkIds: number[]; truncated?: boolean }> {
+  const coverage = (text: string) => {
+    const lc = text.toLowerCase()
+    return tokens.reduce((acc, t) => acc + (lc.includes(t) ? 1 : 0), 0)
+  }
+  const queues = files.map(f => [...f.chunks].sort((a, b) => (coverage(b.chunk_text) - coverage(a.chunk_text)) || (a.chunk_index - b.chunk_index)))
+  const picked = files.map(() => [] as Array<{ id: number; chunk_index: number; chunk_text: string }>)
+  const trimmed = new Set<number>()
+  let used = 0
+  let remaining = queues.filter(q => q.length > 0).length
+  queues.forEach((q, i) => {
+    const best = q.shift()
+    if (!best) return
+    const allowance = Math.max(Math.floor((budget - used) / remaining), cost(best.chunk_text.slice(0, MIN_PINNED_CHARS)))
+    remaining--
+    if (cost(best.chunk_text) <= allowance) {
+      picked[i].push(best)
+      used += cost(best.chunk_text)
+      return
+    }
+    // Too big for its share: keep the start of it and nothing else from this note
+    const text = trimToCost(best.chunk_text, allowance, cost)
+    picked[i].push({ ...best, chunk_text: text })
+    used += cost(text)
+    trimmed.add(i)
+    q.length = 0
+  })
+  let progressed = true
+  while (progressed) {
+    progressed = false
+    queues.forEach((q, i) => {
+      const next = q[0]
+      if (!next || used + cost(next.chunk_text) > budget) return
+      q.shift()
+      picked[i].push(next)
+      used += cost(next.chunk_text)
+      progressed = true
+    })
+  }
+  const out: Array<{ file_name: string; file_path: string; snippet: string; chunk_id?: number; chunkIds: number[]; truncated?: boolean }> = []
+  files.forEach((f, i) => {
+    if (trimmed.has(i)) {
+      const c = picked[i][0]
+      out.push({ file_name: f.name, file_path: f.path, snippet: c.chunk_text, chunk_id: c.id, chunkIds: [c.id], truncated: true })
+      return
+    }
+    const runs: Array<typeof picked[number]> = []
+    for (const c of picked[i].sort((a, b) => a.chunk_index - b.chunk_index)) {
+      const run = runs[runs.length - 1]
+      if (run && run[run.length - 1].chunk_index === c.chunk_index - 1) run.push(c)
+      else runs.push([c])
+    }
+    for (const run of runs) {
+      out.push({ file_name: f.name, file_path: f.path, snippet: run.map(c => c.chunk_text).join('\n'), chunk_id: run[0].id, chunkIds: run.map(c => c.id) })
+    }
+  })
+  return out
+}
+
+/** Reciprocal-rank fusion (k=60) over ranked row lists keyed by chunk id */
+function fuseByReciprocalRank(lists: any[][], k: number = 60): any[] {
+  const fused = new Map<number, { row: any; score: number }>()
+  for (const list of lists) {
+    list.forEach((row, idx) => {
+      const entry = fused.get(row.id)
+      const add = 1 / (k + idx + 1)
+      if (entry) entry.score += add
+      else fused.set(row.id, { row, score: add })
+    })
+  }
+  return Array.from(fused.values()).sort((a, b) => b.score - a.score).map(e => e.row)
+}
+
+/** The model calls retrieval makes: LlamaService in the app, a deterministic stub in the eval harness */
+export type RetrievalModel = Pick<LlamaService, 'initialize' | 'getCurrentModel' | 'getEmbeddingModel' | 'getContextWindow' | 'embedTexts' | 'sendMessage'>
+
+/** Weights of the hybrid re-rank; `timeIntent` applies when the question is about a period */
+export interface HybridWeights {
+  default: { sim: number; bm25: number; recency: number; coverage: number }
+  timeIntent: { sim: number; bm25: number; recency: number; coverage: number }
+  fileName: number
+}
+
+export const DEFAULT_HYBRID_WEIGHTS: HybridWeights = {
+  default: { sim: 0.48, bm25: 0.32, recency: 0.1, coverage: 0.1 },
+  timeIntent: { sim: 0.38, bm25: 0.22, recency: 0.3, coverage: 0.1 },
+  fileName: 0.1
+}
+
+export class ContentService {
+  constructor(
+    private db: IslaDatabase = database,
+    private llm: () => RetrievalModel = () => LlamaService.getInstance(),
+    private vectors: VectorIndexService = vectorIndexService
+  ) {}
+
+  // The `hybridWeights` setting (JSON) overrides individual weights
+  private hybridWeights(): HybridWeights {
+    try {
+      const raw = (this.db as any).getSetting?.('hybridWeights')
+      if (!raw) return DEFAULT_HYBRID_WEIGHTS
+      const custom = JSON.parse(raw)
+      return {
+        default: { ...DEFAULT_HYBRID_WEIGHTS.default, ...(custom?.default || {}) },
+        timeIntent: { ...DEFAULT_HYBRID_WEIGHTS.timeIntent, ...(custom?.timeIntent || {}) },
+        fileName: typeof custom?.fileName === 'number' ? custom.fileName : DEFAULT_HYBRID_WEIGHTS.fileName
+      }
+    } catch {
+      return DEFAULT_HYBRID_WEIGHTS
+    }
+  }
+
   // Optional light query expansion (disabled by default unless setting enabled)
   private async tryExpandQuery(original: string): Promise<string> {
-    const enabled = (((database as any).getSetting?.('ragExpandQuery') || 'false') as string).toLowerCase() === 'true'
+    const enabled = (((this.db as any).getSetting?.('ragExpandQuery') || 'false') as string).toLowerCase() === 'true'
     if (!enabled) return original
     try {
-      const llama = LlamaService.getInstance()
+      const llama = this.llm()
       try { await llama.initialize() } catch {}
       const prompt = `For the user query below, output 5-10 literal search terms (single words or short noun phrases) separated by spaces. No punctuation, no sentences.\n\nQuery: ${original}\n\nTerms:`
       const out = await llama.sendMessage([{ role: 'user', content: prompt }])
@@ -79,14 +311,144 @@ class ContentService {
       return original
     }
   }
-  // FTS-only search (date-aware). Falls back to LIKE if FTS unavailable
-  searchOnly(query: string, limit: number = 20) {
+  // Last few turns, each clipped, within a total character budget (newest kept first)
+  private trimHistory(history: ConversationTurn[]): ConversationTurn[] {
+    const maxMessages = parseInt(((this.db as any).getSetting?.('chatHistoryMessages') || '6') as string) || 6
+    const perMessage = 600
+    let budget = parseInt(((this.db as any).getSetting?.('chatHistoryCharBudget') || '2400') as string) || 2400
+    const out: ConversationTurn[] = []
+    for (const turn of history.slice(-maxMessages).reverse()) {
+      if (turn.role !== 'user' && turn.role !== 'assistant') continue
+      const text = String(turn.content || '').trim()
+      if (!text) continue
+      const clipped = text.length > perMessage ? text.slice(0, perMessage - 1) + '…' : text
+      if (clipped.length > budget) break
+      budget -= clipped.length
+      out.push({ role: turn.role, content: clipped, metadata: turn.metadata })
+    }
+    return out.reverse()
+  }
+
+  // Turn a follow-up into a standalone search query; falls back to the original on any failure
+  private async rewriteFollowUp(query: string, turns: ConversationTurn[]): Promise<string> {
+    const enabled = (((this.db as any).getSetting?.('ragRewriteFollowUps') || 'true') as string).toLowerCase() !== 'false'
+    if (!enabled || turns.length === 0) return query
+    try {
+      const llama = this.llm()
+      try { await llama.initialize() } catch {}
+      const transcript = turns.map(t => `${t.role === 'user' ? 'User' : 'Assistant'}: ${t.content.replace(/\s+/g, ' ').slice(0, 300)}`).join('\n')
+      const prompt = `Rewrite the user's latest message as a standalone search query over their personal notes. Resolve pronouns and references using the conversation. Keep names, topics and dates. Output only the query on one line.\n\nConversation:\n${transcript}\n\nLatest message: ${query}\n\nStandalone query:`
+      const out = await llama.sendMessage([{ role: 'user', content: prompt }])
+      const line = String(out || '')
+        .split('\n')
+        .map(l => l.trim())
+        .find(Boolean) || ''
+      const cleaned = line.replace(/^standalone query:\s*/i, '').replace(/^["'“]|["'”]$/g, '').trim().slice(0, 300)
+      return cleaned || query
+    } catch {
+      return query
+    }
+  }
+
+  /**
+   * Build the chat messages for a question in an ongoing conversation: follow-ups are rewritten
+   * into standalone queries for retrieval, relative dates build on the previous turn's window,
+   * and a trimmed history precedes the retrieval prompt.
+   */
+  async prepareConversationalPrompt(query: string, history: ConversationTurn[] = [], options: { tag?: string | null; pinnedPaths?: string[]; persona?: PersonaRecord | null } = {}): Promise<{ messages: ChatMessage[]; sources: SourceCitation[]; retrieval: RetrievalContext }> {
+    const turns = this.trimHistory(history)
+    const previous = previousRetrieval(history)
+    const followUp = turns.length > 0 && looksLikeFollowUp(query)
+    const searchQuery = followUp ? await this.rewriteFollowUp(query, turns) : query
+
+    // Explicit dates in the new question win; otherwise shift or carry the previous window
+    let dateFilter = extractDateFilter(query)
+    if (!dateFilter && previous?.dateFilter) {
+      dateFilter = shiftDateFilter(query, previous.dateFilter) ?? (followUp ? previous.dateFilter : null)
+    }
+    if (!dateFilter && searchQuery !== query) dateFilter = extractDateFilter(searchQuery)
+
+    // History goes into the same window as the retrieval prompt (a few tokens of framing per message)
+    const historyTokens = turns.reduce((acc, t) => acc + estimateTokens(t.content) + 4, 0)
+    const { prompt, sources } = await this.preparePromptWithHybrid(searchQuery, { tag: options.tag, dateFilter, userQuery: query, hasHistory: turns.length > 0, historyTokens, pinnedPaths: options.pinnedPaths, persona: options.persona })
+    const messages: ChatMessage[] = [
+      ...turns.map(t => ({ role: t.role as 'user' | 'assistant', content: t.content })),
+      { role: 'user', content: prompt }
+    ]
+    if (searchQuery !== query) console.log(`🔁 [ContentService] Follow-up rewritten: "${query}" → "${searchQuery}"`)
+    return {
+      messages,
+      sources,
+      retrieval: {
+        query: searchQuery,
+        dateFilter: dateFilter ? { start: dateFilter.start.toISOString(), end: dateFilter.end.toISOString() } : null
+      }
+    }
+  }
+
+  // Nearest chunks from the ANN index, shaped like FTS rows and filtered by date/tag
+  private async annCandidates(model: string, qVec: ArrayLike<number>, k: number, dateFilter: DateFilter, tag: string | null): Promise<any[]> {
+    let hits = await this.vectors.search(model, qVec, k)
+    if (!hits.length) return []
+    let rows = this.db.getChunksByIds(hits.map(h => h.chunk_id))
+    const found = new Set(rows.map(r => r.id))
+    const stale = hits.filter(h => !found.has(h.chunk_id))
+    if (stale.length) {
+      // Ids whose chunk is gone are forgotten; search again so they don't cost top-k slots
+      stale.forEach(h => this.vectors.forget(model, h.chunk_id))
+      hits = await this.vectors.search(model, qVec, k + stale.length)
+      rows = this.db.getChunksByIds(hits.map(h => h.chunk_id))
+    }
+    const byId = new Map(rows.map(r => [r.id, r]))
+    const tagFileIds = tag ? new Set(this.db.getFilesForTag(tag, 10000).map(f => f.id)) : null
+    const out: any[] = []
+    for (const h of hits.filter(h => byId.has(h.chunk_id)).slice(0, k)) {
+      const r = byId.get(h.chunk_id)!
+      if (tagFileIds && !tagFileIds.has(r.file_id)) continue
+      if (dateFilter) {
+        const d = new Date((r.note_date || r.file_mtime || '') as string)
+        if (isNaN(+d) || d < dateFilter.start || d >= dateFilter.end) continue
+      }
+      out.push({
+        id: r.id,
+        file_id: r.file_id,
+        file_path: r.file_path,
+        file_name: r.file_name,
+        content_snippet: r.chunk_text.slice(0, 650),
+        chunk_index: r.chunk_index,
+        file_mtime: r.file_mtime,
+        note_date: r.note_date,
+        score: h.score
+      })
+    }
+    return out
+  }
+
+  /** Pure vector search over the ANN index (no FTS), best match first */
+  async semanticSearch(query: string, limit: number = 20, model?: string): Promise<any[]> {
+    const llama = this.llm()
+    try { await llama.initialize() } catch {}
+    const useModel = model || llama.getEmbeddingModel()
+    if (!useModel || !query.trim()) return []
+    const qVec = (await llama.embedTexts([query], useModel))[0] || []
+    if (!qVec.length) return []
+    return this.annCandidates(useModel, qVec, limit, null, null)
+  }
+
+  // FTS-only search (date-aware, optionally restricted to a tag). Falls back to LIKE if FTS unavailable.
+  // Queries using operators (path:, tag:, "phrase", -term, OR, ...) go through the query compiler and
+  // throw SearchQueryError on invalid syntax; plain queries keep the date heuristics.
+  searchOnly(query: string, limit: number = 20, tag: string | null = null) {
+    const parsed = parseSearchQuery(query)
+    if (parsed.hasOperators) {
+      return this.db.searchContentQuery(compileSearchQuery(parsed), limit, tag)
+    }
     const dateFilter = extractDateFilter(query)
-    const operator = ((database as any).getSetting?.('ftsOperator') || 'AND').toUpperCase() === 'OR' ? 'OR' : 'AND'
-    const hasFTS = typeof (database as any).searchContentFTS === 'function'
+    const operator = ((this.db as any).getSetting?.('ftsOperator') || 'AND').toUpperCase() === 'OR' ? 'OR' : 'AND'
+    const hasFTS = typeof (this.db as any).searchContentFTS === 'function'
     return hasFTS
-      ? (database as any).searchContentFTS(query, limit, dateFilter, operator)
-      : database.searchContent(query, limit)
+      ? (this.db as any).searchContentFTS(query, limit, dateFilter, operator, tag)
+      : this.db.searchContent(query, limit, tag)
   }
 
   private buildAnswer(query: string, sources: Array<{ file_name: string; file_path: string; snippet: string }>): string {
@@ -100,29 +462,28 @@ class ContentService {
     return header + body
   }
 
-  // Keep signature compatible; ignore conversation history
-  async searchAndAnswer(query: string, _conversationHistory?: Array<{ role: string; content: string }>): Promise<RAGResponse> {
+  async searchAndAnswer(query: string, conversationHistory: ConversationTurn[] = [], persona: PersonaRecord | null = null): Promise<RAGResponse> {
     const trimmed = (query || '').trim()
     // Guard against vague/empty prompts; keep responses grounded
     if (trimmed.length < 2 || /^(hi|hello|hey|yo|sup|hola|howdy|\?$)/i.test(trimmed)) {
       const safe = 'Hi! I can search your notes or help with a question. Ask something specific (e.g., “ideas from last week’s meeting” or “todos today”).'
       return { answer: safe, sources: [] }
     }
-    const { prompt, sources } = await this.preparePromptWithHybrid(query)
-    const llama = LlamaService.getInstance()
+    const { messages, sources } = await this.prepareConversationalPrompt(query, conversationHistory, { persona })
+    const llama = this.llm()
     try { await llama.initialize() } catch {}
-    const answer = await llama.sendMessage([{ role: 'user', content: prompt }])
+    const answer = await llama.sendMessage(messages)
     return { answer, sources }
   }
 
-  preparePrompt(query: string): { prompt: string; sources: Array<{ file_name: string; file_path: string; snippet: string }> } {
+  preparePrompt(query: string, persona: PersonaRecord | null = null): { prompt: string; sources: Array<{ file_name: string; file_path: string; snippet: string }> } {
     const dateFilter = extractDateFilter(query)
     const rows = this.searchOnly(query, 20) as any[]
     // Simple per-file cap and size guard
     const seen = new Map<string, number>()
     const sources: Array<{ file_name: string; file_path: string; snippet: string }> = []
-    const budget = parseInt(((database as any).getSetting?.('ftsCharBudget') || '2400') as string) || 2400
-    const perFileCap = parseInt(((database as any).getSetting?.('ftsPerFileCap') || '2') as string) || 2
+    const budget = persona?.char_budget || parseInt(((this.db as any).getSetting?.('ftsCharBudget') || '2400') as string) || 2400
+    const perFileCap = persona?.per_file_cap || parseInt(((this.db as any).getSetting?.('ftsPerFileCap') || '2') as string) || 2
     let totalChars = 0
     for (const r of rows) {
       const key = r.file_path
@@ -133,13 +494,13 @@ class ContentService {
         seen.set(key, count + 1)
         totalChars += snippet.length
       }
-      const maxResults = parseInt(((database as any).getSetting?.('ftsMaxResults') || '20') as string) || 20
+      const maxResults = persona?.max_results || parseInt(((this.db as any).getSetting?.('ftsMaxResults') || '20') as string) || 20
       if (sources.length >= maxResults || totalChars >= budget) break
     }
     const retrievedBlock = sources.map(s => `• ${cleanFileName(s.file_name)} — ${s.snippet}`).join('\n')
     const dateBlock = dateFilter ? `Date filter: ${dateFilter.start.toISOString().slice(0,10)} → ${new Date(+dateFilter.end - 1).toISOString().slice(0,10)}` : ''
     const today = new Date().toISOString()
-    const prompt = `You are a concise, friendly assistant. Use only the following context from the user's notes when helpful. If unsure, say so clearly.
+    const prompt = `${persona ? persona.system_prompt : 'You are a concise, friendly assistant.'} Use only the following context from the user's notes when helpful. If unsure, say so clearly.
 
 Today is ${today}.
 ${dateBlock ? `\n${dateBlock}` : ''}
@@ -149,31 +510,41 @@ User's request: ${query}
 
 Instructions:
 - Prefer the supplied context; cite filenames naturally.
-- Keep answers tight (2–4 short paragraphs; bullets for steps).
+- ${persona?.length_guidance || 'Keep answers tight (2–4 short paragraphs; bullets for steps).'}
 - If context is sparse, say so and suggest next steps or date ranges.`
     return { prompt, sources }
   }
 
-  private async preparePromptWithHybrid(query: string): Promise<{ prompt: string; sources: Array<{ file_name: string; file_path: string; snippet: string }> }> {
+  // `query` is what gets searched; `userQuery` (the user's own words) is what the prompt answers.
+  // An explicit `dateFilter` (including null) overrides the one parsed from the query.
+  // `pinnedPaths` are always included (up to `pinnedBudgetShare` of the context budget); search is
+  // boosted towards them, or restricted to them when `pinnedRetrieval` is 'restrict'.
+  // A `persona` replaces the built-in prompt and style, and its knobs override the settings.
+  // Context fills `contextFillFraction` of the model's window, less the template and `historyTokens`
+  // (estimated tokens); a persona's char budget, or `ftsCharBudget` when the window is unknown,
+  // budgets in characters instead.
+  // Also driven directly by the retrieval eval harness (src/main/eval).
+  async preparePromptWithHybrid(query: string, options: { tag?: string | null; dateFilter?: DateFilter; userQuery?: string; hasHistory?: boolean; historyTokens?: number; pinnedPaths?: string[]; persona?: PersonaRecord | null } = {}): Promise<{ prompt: string; sources: SourceCitation[] }> {
     // Base FTS results
-      const dateFilter = extractDateFilter(query)
-    const operator = ((database as any).getSetting?.('ftsOperator') || 'AND').toUpperCase() === 'OR' ? 'OR' : 'AND'
-    const candidateLimit = parseInt(((database as any).getSetting?.('ftsCandidateLimit') || '400') as string) || 400
-    const hasFTS = typeof (database as any).searchContentFTS === 'function'
+    const dateFilter = options.dateFilter !== undefined ? options.dateFilter : extractDateFilter(query)
+    const tag = options.tag || null
+    const operator = ((this.db as any).getSetting?.('ftsOperator') || 'AND').toUpperCase() === 'OR' ? 'OR' : 'AND'
+    const candidateLimit = parseInt(((this.db as any).getSetting?.('ftsCandidateLimit') || '400') as string) || 400
+    const hasFTS = typeof (this.db as any).searchContentFTS === 'function'
     const expanded = await this.tryExpandQuery(query)
     let ftsRows = hasFTS
-      ? (database as any).searchContentFTS(expanded, candidateLimit, dateFilter, operator)
-      : database.searchContent(expanded, candidateLimit)
+      ? (this.db as any).searchContentFTS(expanded, candidateLimit, dateFilter, operator, tag)
+      : this.db.searchContent(expanded, candidateLimit, tag)
     // Retry with OR if AND yielded nothing
     if (hasFTS && operator === 'AND' && (!ftsRows || ftsRows.length === 0)) {
-      ftsRows = (database as any).searchContentFTS(query, 40, dateFilter, 'OR')
+      ftsRows = (this.db as any).searchContentFTS(query, 40, dateFilter, 'OR', tag)
     }
     // Fallbacks: LIKE search then filename search
     if (!ftsRows || ftsRows.length === 0) {
-      ftsRows = database.searchContent(query, 40)
+      ftsRows = this.db.searchContent(query, 40, tag)
     }
-    if ((!ftsRows || ftsRows.length === 0) && (database as any).searchFilesByName) {
-      const nameRows = (database as any).searchFilesByName(query, 40)
+    if ((!ftsRows || ftsRows.length === 0) && (this.db as any).searchFilesByName) {
+      const nameRows = (this.db as any).searchFilesByName(query, 40, tag)
       ftsRows = nameRows
     }
 
@@ -181,24 +552,26 @@ Instructions:
 
     // Optional Embeddings re-rank if available per Phase 3
       try {
-        const llama = LlamaService.getInstance()
-        const model = llama.getCurrentModel()
-      const getEmbForChunks = (database as any).getEmbeddingsForChunks as undefined | ((m: string, ids: number[]) => any[])
+        const llama = this.llm()
+        const model = llama.getEmbeddingModel()
+      const getEmbForChunks = (this.db as any).getEmbeddingsForChunks as undefined | ((m: string, ids: number[]) => any[])
+      // Build query vector using expanded text for better recall
+      const qVec = model ? ((await llama.embedTexts([expanded], model))[0] || []) : []
       if (model && typeof getEmbForChunks === 'function' && candidateRows.length) {
         const candidateIds = candidateRows.slice(0, Math.min(1000, candidateRows.length)).map(r => r.id)
-        const embRows = getEmbForChunks(model, candidateIds) as Array<{ chunk_id:number; vector:number[] }>
-        // Build query vector using expanded text for better recall
-        const qVec = (await llama.embedTexts([expanded], model))[0] || []
+        const embRows = getEmbForChunks(model, candidateIds) as Array<{ chunk_id:number; vector:Float32Array }>
         // Cosine similarity
-        const cos = (a:number[], b:number[]): number => {
+        const cos = (a:ArrayLike<number>, b:ArrayLike<number>): number => {
           let dot=0, na=0, nb=0; const len = Math.min(a.length, b.length)
           for (let i=0;i<len;i++){ dot+=a[i]*b[i]; na+=a[i]*a[i]; nb+=b[i]*b[i] }
           if (!na || !nb) return 0; return dot/(Math.sqrt(na)*Math.sqrt(nb))
         }
         const simMap = new Map<number, number>()
-        for (const e of embRows) simMap.set(e.chunk_id, cos(qVec, (e as any).vector || []))
+        for (const e of embRows) simMap.set(e.chunk_id, cos(qVec, e.vector || []))
         // Merge: normalized FTS rank + sim
         const timeIntent = !!dateFilter || /(today|yesterday|recent|this\s+week|this\s+month|last\s+\d+\s*(days?|weeks?|months?)|ago|since|before|after)/i.test(query)
+        const weights = this.hybridWeights()
+        const w = timeIntent ? weights.timeIntent : weights.default
         const merged = candidateRows.map((r, idx) => {
           const bm = typeof r.rank === 'number' ? r.rank : (idx + 1)
           const bmScore = 1 / (1 + bm)
@@ -217,34 +590,107 @@ Instructions:
           } catch {}
           // Light filename boost
           const name = String(r.file_name || '').toLowerCase()
-          const fileHit = tokens.some(t => name.includes(t)) ? 0.1 : 0
-          const score = timeIntent
-            ? (0.38 * simScore + 0.22 * bmScore + 0.3 * recencyScore + 0.1 * coverageScore + fileHit)
-            : (0.48 * simScore + 0.32 * bmScore + 0.1 * recencyScore + 0.1 * coverageScore + fileHit)
+          const fileHit = tokens.some(t => name.includes(t)) ? weights.fileName : 0
+          const score = w.sim * simScore + w.bm25 * bmScore + w.recency * recencyScore + w.coverage * coverageScore + fileHit
           return { row: r, score }
         })
         merged.sort((a,b)=>b.score - a.score)
         candidateRows = merged.map(m=>m.row)
       }
+
+      // ANN candidates catch semantically related chunks that share no words with the query.
+      // Fuse with the lexical order by reciprocal rank so neither list needs score calibration.
+      if (model && qVec.length) {
+        const annTopK = parseInt(((this.db as any).getSetting?.('annTopK') || '40') as string) || 40
+        const annRows = await this.annCandidates(model, qVec, annTopK, dateFilter, tag)
+        if (annRows.length) candidateRows = fuseByReciprocalRank([candidateRows, annRows])
+      }
     } catch {}
 
+    const persona = options.persona || null
+    const dateBlock = dateFilter ? `Date filter: ${dateFilter.start.toISOString().slice(0,10)} → ${new Date(+dateFilter.end - 1).toISOString().slice(0,10)}` : ''
+    const tagBlock = tag ? `Tag filter: #${tag.replace(/^#/, '')}` : ''
+    const userQuery = options.userQuery || query
+    const today = new Date().toISOString()
+    const renderPrompt = (pinnedBlock: string, retrievedBlock: string) => `${persona ? persona.system_prompt : DEFAULT_SYSTEM_PROMPT}
+
+Today is ${today}.
+${dateBlock ? `\n${dateBlock}` : ''}${tagBlock ? `\n${tagBlock}` : ''}
+${pinnedBlock ? `\nNotes the user attached to this question:\n${pinnedBlock}\n` : ''}${retrievedBlock ? `\nContext from notes:\n${retrievedBlock}` : ''}
+
+User’s request: ${userQuery}${userQuery !== query ? `\n(Searched notes for: ${query})` : ''}
+
+Instructions:
+- Use ONLY the context above. Cite the passages you rely on with their numbers, e.g. [1] or [2][3]; never invent numbers.${options.hasHistory ? `\n- Earlier turns of this conversation come before this message; use them to interpret the request, not as facts about the notes.` : ''}${styleGuidance(persona)}
+- If context is sparse, say what's missing and suggest one next step.
+- If timing or recency matters, prefer newer notes and mention that explicitly.`
+
+    let contextWindow: number | null = null
+    if (!persona?.char_budget) {
+      try { contextWindow = await this.llm().getContextWindow() } catch {}
+    }
+    // In tokens each passage also pays for its "[n] name (date) › heading:" label
+    const cost = contextWindow ? (text: string) => estimateTokens(text) + 12 : (text: string) => text.length
+    let budget: number
+    if (contextWindow) {
+      const fraction = Math.min(0.9, Math.max(0.1, parseFloat(((this.db as any).getSetting?.('contextFillFraction') || '0.5') as string) || 0.5))
+      const reserved = estimateTokens(renderPrompt('', '')) + (options.historyTokens || 0)
+      budget = Math.max(MIN_CONTEXT_TOKENS, Math.floor(contextWindow * fraction) - reserved)
+      console.log(`📏 [ContentService] Context budget: ${budget} tokens (${Math.round(fraction * 100)}% of ${contextWindow}, ${reserved} reserved)`)
+    } else {
+      budget = persona?.char_budget || parseInt(((this.db as any).getSetting?.('ftsCharBudget') || '3600') as string) || 3600
+    }
+    const expandedTokens = expanded.toLowerCase().split(/\s+/).filter(t => t.length > 2)
+
+    // Pinned notes: resolved against the index, always in context, and favoured by retrieval
+    const pinnedFiles = (options.pinnedPaths || [])
+      .map(p => { try { return this.db.getFileByPath(p) } catch { return null } })
+      .filter((f, i, arr): f is NonNullable<typeof f> => !!f && arr.findIndex(o => o?.id === f.id) === i)
+    const pinnedPathSet = new Set(pinnedFiles.map(f => f.path))
+    let pinned: Array<{ file_name: string; file_path: string; snippet: string; chunk_id?: number; chunkIds: number[]; truncated?: boolean }> = []
+    if (pinnedFiles.length) {
+      const share = Math.min(1, Math.max(0, parseFloat(((this.db as any).getSetting?.('pinnedBudgetShare') || '0.6') as string) || 0.6))
+      const restrict = ((this.db as any).getSetting?.('pinnedRetrieval') || 'boost') === 'restrict'
+      pinned = selectPinnedPassages(
+        pinnedFiles.map(f => ({ path: f.path, name: f.name, chunks: this.db.getChunksForFile(f.id) })),
+        expandedTokens,
+        Math.floor(budget * share),
+        cost
+      )
+      const pinnedRows = candidateRows.filter(r => pinnedPathSet.has(r.file_path))
+      candidateRows = restrict ? pinnedRows : fuseByReciprocalRank([candidateRows, pinnedRows])
+      const trimmedPins = pinned.filter(p => p.truncated)
+      if (trimmedPins.length) {
+        console.warn(`⚠️ [ContentService] Pinned note(s) trimmed to fit the context budget: ${trimmedPins.map(p => p.file_name).join(', ')}`)
+      }
+      if (options.pinnedPaths!.length > pinnedFiles.length) {
+        console.warn(`⚠️ [ContentService] ${options.pinnedPaths!.length - pinnedFiles.length} pinned file(s) are not indexed`)
+      }
+    }
+    const pinnedChunkIds = new Set(pinned.flatMap(p => p.chunkIds))
+
     // Diversity-first selection: ensure wide file coverage before adding multiples
     const seen = new Map<string, number>()
-    const budget = parseInt(((database as any).getSetting?.('ftsCharBudget') || '3600') as string) || 3600
-    const perFileCap = parseInt(((database as any).getSetting?.('ftsPerFileCap') || '3') as string) || 3
-    const maxResults = parseInt(((database as any).getSetting?.('ftsMaxResults') || '24') as string) || 24
-    const sources: Array<{ file_name: string; file_path: string; snippet: string }> = []
-    let totalChars = 0
-    const expandedTokens = expanded.toLowerCase().split(/\s+/).filter(t => t.length > 2)
+    const perFileCap = persona?.per_file_cap || parseInt(((this.db as any).getSetting?.('ftsPerFileCap') || '3') as string) || 3
+    // Unless set, the passage count grows with a large window so broad questions can use it
+    const maxResults = persona?.max_results || parseInt(((this.db as any).getSetting?.('ftsMaxResults') || '') as string)
+      || (contextWindow ? Math.min(96, Math.max(24, Math.floor(budget / 180))) : 24)
+    const sources: Array<{ file_name: string; file_path: string; snippet: string; chunk_id?: number; chunkIds: number[] }> = []
+    let used = pinned.reduce((acc, p) => acc + cost(p.snippet), 0)
     const seenSnippetSig = new Set<string>()
 
     const addWithNeighbors = (r: any) => {
+      if (pinnedChunkIds.has(r.id)) return
       let text = String(r.content_snippet || '').replace(/<\/?mark>/g, '')
+      let chunkIds: number[] = typeof r.id === 'number' ? [r.id] : []
       try {
         if (typeof r.file_id === 'number' && typeof r.chunk_index === 'number') {
-          const neighbors = database.getNeighborChunks(r.file_id, r.chunk_index, 1)
+          const neighbors = this.db.getNeighborChunks(r.file_id, r.chunk_index, 1)
           const merged = neighbors.map(n => n.chunk_text).join('\n')
-          if (merged && merged.length > text.length) text = merged
+          if (merged && merged.length > text.length) {
+            text = merged
+            chunkIds = neighbors.map(n => n.id)
+          }
         }
       } catch {}
       // Drop very short/low-signal snippets
@@ -258,10 +704,10 @@ Instructions:
       // Basic relevance guard: require at least one token match unless we have very few sources
       const tokenHit = expandedTokens.some(t => snippet.toLowerCase().includes(t))
       if (!tokenHit && sources.length >= Math.min(8, maxResults)) return
-      if (count < perFileCap && totalChars + snippet.length <= budget) {
-        sources.push({ file_name: r.file_name, file_path: r.file_path, snippet })
+      if (count < perFileCap && used + cost(snippet) <= budget) {
+        sources.push({ file_name: r.file_name, file_path: r.file_path, snippet, chunk_id: typeof r.id === 'number' ? r.id : undefined, chunkIds })
         seen.set(key, count + 1)
-        totalChars += snippet.length
+        used += cost(snippet)
         seenSnippetSig.add(sig)
       }
     }
@@ -273,54 +719,59 @@ Instructions:
       if (topByFile.size >= maxResults) break
     }
     for (const r of topByFile.values()) {
-      if (sources.length >= maxResults || totalChars >= budget) break
+      if (sources.length >= maxResults || used >= budget) break
       addWithNeighbors(r)
     }
 
     // Pass 2: fill remaining slots up to per-file cap
-    if (sources.length < maxResults && totalChars < budget) {
+    if (sources.length < maxResults && used < budget) {
       for (const r of candidateRows) {
-        if (sources.length >= maxResults || totalChars >= budget) break
+        if (sources.length >= maxResults || used >= budget) break
         addWithNeighbors(r)
       }
     }
-    // Add dates for better temporal grounding (no bracket tags in output)
-    const enriched = sources.map((s) => ({
-      file_name: s.file_name,
-      file_path: s.file_path,
-      snippet: s.snippet,
+    // Locate each source in its note (union of the chunks behind the snippet) for jump-to citations
+    let locations = new Map<number, ChunkLocation>()
+    try { locations = this.db.getChunkLocations(Array.from(new Set([...pinned, ...sources].flatMap(s => s.chunkIds)))) } catch {}
+    const cited: SourceCitation[] = [...pinned, ...sources].map((s, i) => {
+      const locs = s.chunkIds.map(id => locations.get(id)).filter((l): l is ChunkLocation => !!l && l.char_start !== null && l.char_end !== null)
+      const primary = s.chunk_id !== undefined ? locations.get(s.chunk_id) : undefined
+      return {
+        citation: i + 1,
+        origin: i < pinned.length ? 'pin' : 'search',
+        file_name: s.file_name,
+        file_path: s.file_path,
+        snippet: s.snippet,
+        chunk_id: s.chunk_id,
+        heading_path: primary?.heading_path || null,
+        char_start: locs.length ? Math.min(...locs.map(l => l.char_start!)) : null,
+        char_end: locs.length ? Math.max(...locs.map(l => l.char_end!)) : null,
+        start_line: locs.length ? Math.min(...locs.map(l => l.start_line || 1)) : null,
+        end_line: locs.length ? Math.max(...locs.map(l => l.end_line || 1)) : null,
+        ...(i < pinned.length && pinned[i].truncated ? { truncated: true } : {})
+      }
+    })
+
+    // Add dates for better temporal grounding
+    const enriched = cited.map((s) => ({
+      ...s,
       displayDate: (() => {
         try {
-          const file = (database as any).getFileByPath?.(s.file_path)
+          const file = (this.db as any).getFileByPath?.(s.file_path)
           const d = (file?.note_date || file?.file_mtime) as string | undefined
           return d ? d.slice(0,10) : ''
         } catch { return '' }
       })()
     }))
-    const retrievedBlock = enriched
-      .map(s => `• ${cleanFileName(s.file_name)}${s.displayDate ? ` (${s.displayDate})` : ''}: ${s.snippet}`)
-      .join('\n')
-    const dateBlock = dateFilter ? `Date filter: ${dateFilter.start.toISOString().slice(0,10)} → ${new Date(+dateFilter.end - 1).toISOString().slice(0,10)}` : ''
-      const today = new Date().toISOString()
-    const prompt = `You are a concise, friendly assistant for the user's local notes.
-
-Today is ${today}.
-${dateBlock ? `\n${dateBlock}` : ''}
-${retrievedBlock ? `\nContext from notes:\n${retrievedBlock}` : ''}
-
-User’s request: ${query}
-
-Instructions:
-- Use ONLY the context above. Do not include bracket citations like [S1].
-- Be very conversational, like a thoughtful friend. Integrate details naturally.
-- Prefer 2–4 short paragraphs with occasional bullets. Avoid filler and repetition.
-- If context is sparse, say what's missing and suggest one next step.
-- If timing or recency matters, prefer newer notes and mention that explicitly.`
-    return { prompt, sources: enriched.map(({file_name, file_path, snippet}) => ({ file_name, file_path, snippet })) }
+    const formatSource = (s: typeof enriched[number]) =>
+      `[${s.citation}] ${cleanFileName(s.file_name)}${s.displayDate ? ` (${s.displayDate})` : ''}${s.heading_path ? ` › ${s.heading_path}` : ''}: ${s.snippet}`
+    const pinnedBlock = enriched.filter(s => s.origin === 'pin').map(formatSource).join('\n')
+    const retrievedBlock = enriched.filter(s => s.origin === 'search').map(formatSource).join('\n')
+    return { prompt: renderPrompt(pinnedBlock, retrievedBlock), sources: cited }
   }
 
   getFileContent(fileId: number): string | null {
-    return database.getFileContent(fileId)
+    return this.db.getFileContent(fileId)
   }
 }
 
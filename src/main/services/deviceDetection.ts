@@ -260,9 +260,14 @@ export class DeviceDetectionService {
     }
   }
 
-  public getModelRecommendation(specs: DeviceSpecs): ModelRecommendation {
-    // Conservative memory allocation (leave room for OS and app)
-    const usableMemory = specs.totalMemory * 0.7
+  /** Memory left for a model once the OS and app are accounted for (GB) */
+  public getUsableMemory(specs: DeviceSpecs): number {
+    return specs.totalMemory * 0.7
+  }
+
+  /** Models the recommendation considers for this device's memory tier, platform and arch, best first */
+  public getCompatibleRecommendations(specs: DeviceSpecs): ModelRecommendation[] {
+    const usableMemory = this.getUsableMemory(specs)
     
     // Get candidate models based on memory
     let candidateModels: ModelRecommendation[]
@@ -336,7 +341,7 @@ export class DeviceDetectionService {
     }
 
     // Enhanced cross-platform compatibility filtering
-    const compatibleModels = candidateModels.filter(model => {
+    return candidateModels.filter(model => {
       // Check platform compatibility with fallbacks
       let platformCompatible = model.compatiblePlatforms.includes(specs.platform)
       
@@ -363,6 +368,10 @@ export class DeviceDetectionService {
       
       return isCompatible
     })
+  }
+
+  public getModelRecommendation(specs: DeviceSpecs): ModelRecommendation {
+    const compatibleModels = this.getCompatibleRecommendations(specs)
 
     // Return the first compatible model, or fallback if none found
     if (compatibleModels.length > 0) {
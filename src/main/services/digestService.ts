@@ -0,0 +1,244 @@
+import { writeFile, mkdir } from 'fs/promises'
+import path from 'path'
+import { database, IslaDatabase } from '../database'
+import { LlamaService } from './llamaService'
+import type { RetrievalModel } from './contentService'
+import { formatNoteLink, isInside, resolveVaultFolder } from '../utils/vaultPaths'
+
+export type DigestKind = 'week' | 'month'
+
+/** A review period; `start` is inclusive and `end` exclusive (local YYYY-MM-DD) */
+export interface DigestPeriod {
+  kind: DigestKind
+  label: string
+  title: string
+  start: string
+  end: string
+}
+
+export interface DigestProgress {
+  stage: 'notes' | 'weeks' | 'overview' | 'writing'
+  done: number
+  total: number
+  label: string
+}
+
+export interface DigestResult {
+  kind: DigestKind
+  label: string
+  path: string
+  noteCount: number
+}
+
+type DigestModel = Pick<RetrievalModel, 'initialize' | 'getCurrentModel' | 'sendMessage'>
+
+const DAY_MS = 86400000
+// Notes this short go into the week summary as they are
+const SHORT_NOTE_CHARS = 400
+
+const pad = (n: number) => String(n).padStart(2, '0')
+const localDate = (d: Date) => `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`
+const parseLocalDate = (s: string) => new Date(+s.slice(0, 4), +s.slice(5, 7) - 1, +s.slice(8, 10))
+
+function isoWeek(d: Date): { year: number; week: number; monday: Date } {
+  const monday = new Date(d.getFullYear(), d.getMonth(), d.getDate() - ((d.getDay() + 6) % 7))
+  // The ISO year is the one the week's Thursday falls in
+  const year = new Date(monday.getFullYear(), monday.getMonth(), monday.getDate() + 3).getFullYear()
+  const jan4 = new Date(year, 0, 4)
+  const week1 = new Date(year, 0, 4 - ((jan4.getDay() + 6) % 7))
+  return { year, week: 1 + Math.round((+monday - +week1) / (7 * DAY_MS)), monday }
+}
+
+/** The week (ISO, Monday first) or calendar month containing `reference` */
+export function digestPeriod(kind: DigestKind, reference: Date = new Date()): DigestPeriod {
+  if (kind === 'week') {
+    const { year, week, monday } = isoWeek(reference)
+    const label = `${year}-W${pad(week)}`
+    const end = new Date(monday.getFullYear(), monday.getMonth(), monday.getDate() + 7)
+    return { kind, label, title: `Weekly Review ${label}`, start: localDate(monday), end: localDate(end) }
+  }
+  const first = new Date(reference.getFullYear(), reference.getMonth(), 1)
+  const label = `${first.getFullYear()}-${pad(first.getMonth() + 1)}`
+  const end = new Date(first.getFullYear(), first.getMonth() + 1, 1)
+  return { kind, label, title: `Monthly Review ${label}`, start: localDate(first), end: localDate(end) }
+}
+
+/** The last period that has fully ended before `now` */
+export function previousDigestPeriod(kind: DigestKind, now: Date = new Date()): DigestPeriod {
+  const current = parseLocalDate(digestPeriod(kind, now).start)
+  return digestPeriod(kind, new Date(current.getFullYear(), current.getMonth(), current.getDate() - 1))
+}
+
+function stripFrontmatter(content: string): string {
+  return content.replace(/^---\r?\n[\s\S]*?\r?\n---(?:\r?\n|$)/, '').trim()
+}
+
+/**
+ * Weekly and monthly reviews of dated notes. Notes are summarised one by one, then per week (and
+ * for a month, once more across its weeks), so no single prompt has to hold the whole period.
+ * The review is written into the vault with a link to every source note and indexed like any note.
+ */
+export class DigestService {
+  private running = false
+
+  constructor(private db: IslaDatabase = database, private llm: () => DigestModel = () => LlamaService.getInstance()) {}
+
+  getDigestFolder(): { vaultRoot: string; folder: string } {
+    return resolveVaultFolder(this.db.getSetting('selectedDirectory'), this.db.getSetting('digestFolder'), 'Reviews')
+  }
+
+  isRunning(): boolean {
+    return this.running
+  }
+
+  async generate(period: DigestPeriod, onProgress?: (progress: DigestProgress) => void): Promise<DigestResult> {
+    if (this.running) throw new Error('A digest is already being generated')
+    this.running = true
+    try {
+      return await this.build(period, onProgress || (() => {}))
+    } finally {
+      this.running = false
+    }
+  }
+
+  private async build(period: DigestPeriod, progress: (p: DigestProgress) => void): Promise<DigestResult> {
+    const { vaultRoot, folder } = this.getDigestFolder()
+    const budget = parseInt(this.db.getSetting('digestContextChars') || '8000') || 8000
+
+    // Earlier reviews and exported chats are derived from notes; summarising them again would double count
+    const derived = [folder]
+    try {
+      derived.push(resolveVaultFolder(vaultRoot, this.db.getSetting('chatExportFolder'), 'Chats').folder)
+    } catch {}
+    const files = this.db.getFilesInDateRange(period.start, period.end)
+      .filter(f => !derived.some(dir => isInside(dir, path.resolve(f.path))))
+    if (files.length === 0) throw new Error(`No dated notes in ${period.label}`)
+
+    const model = this.llm()
+    try { await model.initialize() } catch {}
+    console.log(`🗓️ [Digest] ${period.title}: ${files.length} note(s)`)
+
+    // 1. One summary per note
+    const notes: Array<{ path: string; name: string; date: string; summary: string }> = []
+    for (const [i, f] of files.entries()) {
+      progress({ stage: 'notes', done: i, total: files.length, label: period.label })
+      const body = stripFrontmatter(this.db.getFileContent(f.id) || '')
+      if (!body) continue
+      const summary = body.length <= SHORT_NOTE_CHARS
+        ? body
+        : await this.summarize('Summarize this note in 2–4 short bullet points: what happened, decisions, feelings and open threads.', body.slice(0, budget))
+      notes.push({ path: f.path, name: f.name, date: f.date, summary })
+    }
+    if (notes.length === 0) throw new Error(`No dated notes in ${period.label}`)
+
+    // 2. One review per ISO week
+    const weeks = new Map<string, typeof notes>()
+    for (const n of notes) {
+      const week = digestPeriod('week', parseLocalDate(n.date)).label
+      weeks.set(week, [...(weeks.get(week) || []), n])
+    }
+    const weekReviews: Array<{ label: string; notes: typeof notes; review: string }> = []
+    for (const [label, weekNotes] of weeks) {
+      progress({ stage: 'weeks', done: weekReviews.length, total: weeks.size, label })
+      const review = await this.condense(
+        weekNotes.map(n => `### ${n.name.replace(/\.md$/i, '')} (${n.date})\n${n.summary}`),
+        'These are summaries of the user\'s notes from one week. Write a short review of the week: main themes, progress, notable moments and open threads, in 1–3 short paragraphs or bullets.',
+        budget
+      )
+      weekReviews.push({ label, notes: weekNotes, review })
+    }
+
+    // 3. A month gets an overview across its weeks
+    let overview = weekReviews.length === 1 ? weekReviews[0].review : ''
+    if (!overview) {
+      progress({ stage: 'overview', done: 0, total: 1, label: period.label })
+      overview = await this.condense(
+        weekReviews.map(w => `### ${w.label}\n${w.review}`),
+        'These are reviews of the weeks of one month from the user\'s notes. Write a review of the month: main themes, how things developed, highlights and what is still open, in 2–4 short paragraphs or bullets.',
+        budget
+      )
+    }
+
+    progress({ stage: 'writing', done: 0, total: 1, label: period.label })
+    const link = (n: { path: string; name: string }) => formatNoteLink(n.path, { vaultRoot, fromFolder: folder, style: 'wikilink', label: n.name })
+    const last = new Date(+parseLocalDate(period.end) - DAY_MS)
+    const now = new Date()
+    const modelName = model.getCurrentModel()
+
+    const lines = [
+      '---',
+      `title: "${period.title}"`,
+      'type: digest',
+      `period: ${period.label}`,
+      `start: ${period.start}`,
+      `end: ${localDate(last)}`,
+      `generated: ${localDate(now)} ${pad(now.getHours())}:${pad(now.getMinutes())}`,
+      ...(modelName ? [`model: "${modelName}"`] : []),
+      'tags: [review]',
+      '---',
+      '',
+      `# ${period.title}`,
+      '',
+      `_${period.start} – ${localDate(last)} · ${notes.length} note${notes.length === 1 ? '' : 's'}_`,
+      '',
+      '## Overview',
+      '',
+      overview.trim(),
+      ''
+    ]
+    if (period.kind === 'month') {
+      for (const w of weekReviews) {
+        lines.push(`## ${w.label}`, '', w.review.trim(), '', `Notes: ${w.notes.map(link).join(', ')}`, '')
+      }
+    }
+    lines.push('## Notes', '')
+    for (const n of notes) {
+      lines.push(`- ${link(n)} (${n.date})`)
+      n.summary.split('\n').map(l => l.trim()).filter(Boolean).forEach(l => lines.push(`  ${/^[-*•]/.test(l) ? l.replace(/^[*•]/, '-') : `- ${l}`}`))
+    }
+
+    const content = `${lines.join('\n').trimEnd()}\n`
+    const filePath = path.join(folder, `${period.title}.md`)
+    await mkdir(folder, { recursive: true })
+    await writeFile(filePath, content, 'utf-8')
+    this.db.saveFile(filePath, path.basename(filePath), content)
+    console.log(`✅ [Digest] Wrote ${filePath}`)
+    return { kind: period.kind, label: period.label, path: filePath, noteCount: notes.length }
+  }
+
+  private async summarize(instruction: string, text: string): Promise<string> {
+    const reply = await this.llm().sendMessage([
+      {
+        role: 'system',
+        content: 'You summarize the user\'s own journal and notes for a periodic review. Address the user as "you", stay factual and never add details that are not in the text. No preamble.'
+      },
+      { role: 'user', content: `${instruction}\n\n---\n${text}` }
+    ])
+    return reply.trim()
+  }
+
+  /**
+   * Summarise items with one prompt when they fit the budget; otherwise summarise them in groups
+   * that fit and repeat on the group summaries.
+   */
+  private async condense(items: string[], instruction: string, budget: number): Promise<string> {
+    let current = items.map(i => i.slice(0, budget))
+    for (let round = 0; round < 4 && current.join('\n\n').length > budget; round++) {
+      const groups: string[][] = [[]]
+      let size = 0
+      for (const item of current) {
+        if (size + item.length > budget && groups[groups.length - 1].length) {
+          groups.push([])
+          size = 0
+        }
+        groups[groups.length - 1].push(item)
+        size += item.length + 2
+      }
+      current = []
+      for (const g of groups) current.push(await this.summarize(instruction, g.join('\n\n')))
+    }
+    return this.summarize(instruction, current.join('\n\n').slice(0, budget))
+  }
+}
+
+export const digestService = new DigestService()
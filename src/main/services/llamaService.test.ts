@@ -0,0 +1,177 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest'
+import { startMockOllama, type MockOllama } from '../testing/mockOllama'
+import type { ModelRecommendation } from './deviceDetection'
+
+const device = vi.hoisted(() => ({ getRecommendedModel: vi.fn() }))
+
+vi.mock('electron', () => ({ BrowserWindow: class {} }))
+// The real service reads the hardware through systeminformation
+vi.mock('./deviceDetection', () => ({ DeviceDetectionService: { getInstance: () => device } }))
+
+import { LlamaService } from './llamaService'
+
+const recommend = (modelName: string, fallbackModel?: string): ModelRecommendation => ({
+  modelName,
+  fallbackModel,
+  displayName: modelName,
+  minMemory: 8,
+  description: 'test recommendation',
+  downloadSize: '2GB',
+  compatiblePlatforms: ['windows', 'macos', 'linux'],
+  compatibleArchitectures: ['x64', 'arm64'],
+  isOptimized: true
+})
+
+let mock: MockOllama
+let llama: LlamaService
+let sent: Array<{ channel: string; payload: any }>
+
+beforeAll(async () => {
+  // The service logs every step and every expected failure
+  vi.spyOn(console, 'log').mockImplementation(() => {})
+  vi.spyOn(console, 'error').mockImplementation(() => {})
+  mock = await startMockOllama()
+  llama = LlamaService.getInstance()
+})
+
+afterAll(async () => {
+  await mock?.stop()
+})
+
+beforeEach(async () => {
+  await mock.reset()
+  // A fresh provider also clears the initialized flag and the current model
+  llama.setProvider({ kind: 'ollama', baseUrl: mock.url })
+  sent = []
+  llama.setMainWindow({ webContents: { send: (channel: string, payload: any) => sent.push({ channel, payload }) } } as any)
+  device.getRecommendedModel.mockReset()
+})
+
+const pullsOf = (model: string) => sent.filter(e => e.channel === 'llm:downloadProgress' && e.payload.modelName === model)
+
+describe('LlamaService.initialize', () => {
+  it('uses the recommended model when it is installed', async () => {
+    device.getRecommendedModel.mockResolvedValue(recommend('llama3.2:latest'))
+    await llama.initialize()
+    expect(llama.getCurrentModel()).toBe('llama3.2:latest')
+    expect(sent).toEqual([])
+  })
+
+  it('pulls the recommended model when it is missing and reports progress', async () => {
+    device.getRecommendedModel.mockResolvedValue(recommend('qwen2.5:7b'))
+    await llama.initialize()
+    expect(llama.getCurrentModel()).toBe('qwen2.5:7b')
+    expect(await llama.getAvailableModels()).toContain('qwen2.5:7b')
+    expect(pullsOf('qwen2.5:7b').map(e => e.payload.progress)).toContain(100)
+  })
+
+  it('falls back to the recommendation\'s fallback model when the pull fails', async () => {
+    device.getRecommendedModel.mockResolvedValue(recommend('missing-large:70b', 'phi3:mini'))
+    await llama.initialize()
+    expect(llama.getCurrentModel()).toBe('phi3:mini')
+  })
+
+  it('falls back to gemma2:2b when both recommended models fail', async () => {
+    device.getRecommendedModel.mockResolvedValue(recommend('missing-large:70b', 'missing-small:1b'))
+    await llama.initialize()
+    expect(llama.getCurrentModel()).toBe('gemma2:2b')
+  })
+
+  it('falls back to gemma2:2b when the device recommendation fails', async () => {
+    device.getRecommendedModel.mockRejectedValue(new Error('no hardware info'))
+    await llama.initialize()
+    expect(llama.getCurrentModel()).toBe('gemma2:2b')
+  })
+
+  it('ends on the installed llama3.2 when no pull succeeds', async () => {
+    device.getRecommendedModel.mockResolvedValue(recommend('qwen2.5:7b', 'phi3:mini'))
+    await mock.setFaults({ failPaths: '/api/pull' })
+    await llama.initialize()
+    expect(llama.getCurrentModel()).toBe('llama3.2:latest')
+    expect(await llama.getAvailableModels()).not.toContain('qwen2.5:7b')
+  })
+
+  it('initializes without a model when nothing can be loaded', async () => {
+    device.getRecommendedModel.mockResolvedValue(recommend('qwen2.5:7b'))
+    await mock.setFaults({ failPaths: '/api/pull' })
+    // Only the embedding model is installed, so every candidate needs a pull
+    await fetch(`${mock.url}/api/delete`, { method: 'DELETE', body: JSON.stringify({ model: 'llama3.2:latest' }) })
+    await llama.initialize()
+    expect(llama.getCurrentModel()).toBeNull()
+    await expect(llama.sendMessage([{ role: 'user', content: 'hi' }])).rejects.toThrow('not initialized')
+  })
+
+  it('uses the first served model on an OpenAI-compatible server', async () => {
+    llama.setProvider({ kind: 'openai', baseUrl: mock.url })
+    await llama.initialize()
+    expect(llama.getCurrentModel()).toBe('llama3.2:latest')
+    expect(device.getRecommendedModel).not.toHaveBeenCalled()
+  })
+})
+
+describe('LlamaService.switchModel', () => {
+  beforeEach(async () => {
+    device.getRecommendedModel.mockResolvedValue(recommend('llama3.2:latest'))
+    await llama.initialize()
+  })
+
+  it('switches to an installed model without pulling', async () => {
+    await llama.switchModel('nomic-embed-text:latest')
+    expect(llama.getCurrentModel()).toBe('nomic-embed-text:latest')
+    expect(sent).toEqual([])
+  })
+
+  it('pulls a model that is not installed yet', async () => {
+    await llama.switchModel('mistral:7b')
+    expect(llama.getCurrentModel()).toBe('mistral:7b')
+    expect(pullsOf('mistral:7b').length).toBeGreaterThan(0)
+  })
+
+  it('keeps the current model when the pull fails', async () => {
+    await expect(llama.switchModel('missing-model:1b')).rejects.toThrow()
+    expect(llama.getCurrentModel()).toBe('llama3.2:latest')
+  })
+})
+
+describe('LlamaService.sendMessage', () => {
+  const messages = [{ role: 'user' as const, content: 'Summarise my week' }]
+
+  beforeEach(async () => {
+    device.getRecommendedModel.mockResolvedValue(recommend('llama3.2:latest'))
+    await llama.initialize()
+  })
+
+  it('streams the answer chunk by chunk', async () => {
+    const chunks: string[] = []
+    const answer = await llama.sendMessage(messages, chunk => chunks.push(chunk))
+    expect(chunks.length).toBeGreaterThan(3)
+    expect(chunks.join('')).toBe(answer)
+    expect(answer).toContain('[llama3.2:latest] You asked: "Summarise my week".')
+  })
+
+  it('answers with the model override without switching', async () => {
+    await llama.switchModel('mistral:7b')
+    const answer = await llama.sendMessage(messages, () => {}, undefined, 'llama3.2:latest')
+    expect(answer).toContain('[llama3.2:latest]')
+    expect(llama.getCurrentModel()).toBe('mistral:7b')
+  })
+
+  it('stops streaming when aborted and returns the partial answer', async () => {
+    await mock.setFaults({ tokenDelayMs: 50 })
+    const full = await llama.sendMessage(messages)
+    const controller = new AbortController()
+    const chunks: string[] = []
+    const answer = await llama.sendMessage(messages, chunk => {
+      chunks.push(chunk)
+      if (chunks.length === 2) controller.abort()
+    }, controller.signal)
+    expect(answer.length).toBeGreaterThan(0)
+    expect(answer.length).toBeLessThan(full.length)
+    expect(full.startsWith(answer)).toBe(true)
+  })
+
+  it('rejects when the stream fails', async () => {
+    await mock.setFaults({ failPaths: '/api/chat' })
+    await expect(llama.sendMessage(messages, () => {})).rejects.toThrow()
+  })
+})
@@ -1,9 +1,9 @@
-import { Ollama } from 'ollama'
 import { BrowserWindow } from 'electron'
 import { DeviceDetectionService, ModelRecommendation } from './deviceDetection'
 import { Worker } from 'worker_threads'
 import path from 'path'
 import { v4 as uuidv4 } from 'uuid'
+import { createProvider, DEFAULT_OLLAMA_HOST, LLMProvider, OllamaProvider, ProviderConfig, ProviderKind, ProviderModelInfo } from './providers'
 
 export interface ChatMessage {
   role: 'user' | 'assistant' | 'system'
@@ -11,6 +11,20 @@ export interface ChatMessage {
   timestamp?: Date
 }
 
+/** An installed model as listed in Settings, with how it fits this machine */
+export interface ManagedModel extends ProviderModelInfo {
+  inUse: 'chat' | 'embedding' | null
+  recommended: boolean
+  /** Picked by the device recommendation for this machine's memory tier, platform and arch */
+  compatible: boolean
+  /** Whether the weights fit the memory left for models; null when the size is unknown */
+  fitsMemory: boolean | null
+}
+
+// "name" and "name:latest" are the same Ollama model
+const sameModel = (a: string | null, b: string | null) =>
+  !!a && !!b && (a === b || a.replace(/:latest$/, '') === b.replace(/:latest$/, ''))
+
 export interface ModelStatus {
   isInstalled: boolean
   isLoading: boolean
@@ -18,16 +32,34 @@ export interface ModelStatus {
   error?: string
 }
 
+/** Small dedicated embedding model; vectors stay valid whatever chat model is active */
+export const DEFAULT_EMBEDDING_MODEL = 'nomic-embed-text'
+
+// Assumed when the backend does not report a model's context length
+const DEFAULT_CONTEXT_TOKENS = 4096
+// Cap on the window requested per chat; larger windows cost memory for the KV cache
+export const DEFAULT_MAX_CONTEXT_TOKENS = 8192
+
+function defaultOllamaHost(): string {
+  const envHost = process.env.OLLAMA_HOST?.trim()
+  return envHost && /^(http|https):\/\//i.test(envHost) ? envHost : (envHost || DEFAULT_OLLAMA_HOST)
+}
+
 export class LlamaService {
   private static instance: LlamaService
-  private ollama: Ollama
+  private provider: LLMProvider
   private deviceService: DeviceDetectionService
   private currentModel: string | null = null
+  private embeddingModel = DEFAULT_EMBEDDING_MODEL
+  private maxContextTokens = DEFAULT_MAX_CONTEXT_TOKENS
+  private contextLengths = new Map<string, number | null>()
   private isInitialized = false
   private mainWindow: BrowserWindow | null = null
   private embedWorker: Worker | null = null
+  private embedWorkerBroken = false
   private pendingEmbeds: Map<string, { resolve: (v:number[][])=>void; reject: (e:any)=>void }> = new Map()
   private currentHost: string
+  private apiKey: string | null = null
 
   public static getInstance(): LlamaService {
     if (!LlamaService.instance) {
@@ -37,18 +69,49 @@ export class LlamaService {
   }
 
   private constructor() {
-    const envHost = process.env.OLLAMA_HOST?.trim()
-    this.currentHost = envHost && /^(http|https):\/\//i.test(envHost) ? envHost : (envHost || 'http://127.0.0.1:11434')
-    this.ollama = new Ollama({ host: this.currentHost })
+    this.currentHost = defaultOllamaHost()
+    this.provider = new OllamaProvider(this.currentHost)
     this.deviceService = DeviceDetectionService.getInstance()
   }
 
   private setHost(host: string) {
     this.currentHost = host
-    this.ollama = new Ollama({ host })
+    this.provider = new OllamaProvider(host)
     this.safeLog(`🔗 [LlamaService] Using Ollama host: ${host}`)
   }
 
+  /**
+   * Point the service at another backend. An Ollama provider without a base URL uses the
+   * OLLAMA_HOST/default host. The next call re-initializes and picks a model on the new backend.
+   */
+  public setProvider(config: ProviderConfig): void {
+    const baseUrl = config.baseUrl?.trim()
+    this.apiKey = config.apiKey || null
+    if (config.kind === 'ollama') {
+      this.setHost(baseUrl || defaultOllamaHost())
+    } else {
+      this.provider = createProvider({ ...config, baseUrl: baseUrl || '' })
+      this.safeLog(`🔗 [LlamaService] Using ${config.kind} provider: ${this.provider.baseUrl}`)
+    }
+    this.isInitialized = false
+    this.currentModel = null
+    this.contextLengths.clear()
+  }
+
+  public getProviderInfo(): { kind: ProviderKind; baseUrl: string } {
+    return { kind: this.provider.kind, baseUrl: this.provider.baseUrl }
+  }
+
+  /** Size, quantization and context length as far as the backend reports them */
+  public async getModelInfo(modelName: string): Promise<ProviderModelInfo | null> {
+    try {
+      return await this.provider.modelInfo(modelName)
+    } catch (error) {
+      console.error('❌ [LlamaService] Error getting model info:', error)
+      return null
+    }
+  }
+
   public setMainWindow(window: BrowserWindow): void {
     this.mainWindow = window
   }
@@ -108,6 +171,16 @@ export class LlamaService {
         // Don't throw - allow app to continue with limited functionality
         return
       }
+
+      // Servers like llama.cpp or vLLM serve whatever they were started with; there is nothing to pull
+      if (!this.provider.pullModel) {
+        const models = await this.provider.listModels()
+        this.currentModel = models[0] || null
+        this.isInitialized = true
+        if (this.currentModel) this.safeLog(`✅ [LlamaService] Using served model: ${this.currentModel}`)
+        else this.safeLog(`❌ [LlamaService] ${this.provider.baseUrl} serves no models`, 'error')
+        return
+      }
       
       // Get recommended model for this device with fallback
       let recommendation
@@ -178,9 +251,16 @@ export class LlamaService {
   }
 
   private async checkOllamaStatus(): Promise<void> {
-    const tryList = async (): Promise<void> => {
-      const models = await this.ollama.list()
-      if (!models) throw new Error('Ollama list returned no data')
+    const tryList = () => this.provider.ping()
+    if (this.provider.kind !== 'ollama') {
+      try {
+        await tryList()
+        this.safeLog(`✅ [LlamaService] ${this.provider.baseUrl} is reachable`)
+        return
+      } catch (error: any) {
+        this.safeLog(`❌ [LlamaService] ${this.provider.baseUrl} not reachable: ${error?.message || error}`, 'error')
+        throw error
+      }
     }
     try {
       await tryList()
@@ -200,7 +280,7 @@ export class LlamaService {
       }
       // If explicit host fails with ECONNREFUSED, try the common default http endpoint
       if (msg.includes('ECONNREFUSED') || msg.includes('ENOTFOUND')) {
-        const fallback = 'http://127.0.0.1:11434'
+        const fallback = DEFAULT_OLLAMA_HOST
         if (this.currentHost !== fallback) {
           this.safeLog(`⚠️ [LlamaService] Connection refused. Trying fallback: ${fallback}`)
           this.setHost(fallback)
@@ -224,8 +304,8 @@ export class LlamaService {
 
   public async getModelStatus(modelName: string): Promise<ModelStatus> {
     try {
-      const models = await this.ollama.list()
-      const isInstalled = models.models.some(model => model.name === modelName)
+      const models = await this.provider.listModels()
+      const isInstalled = models.includes(modelName)
       
       return {
         isInstalled,
@@ -244,26 +324,14 @@ export class LlamaService {
     const status = await this.getModelStatus(modelName)
     
     if (!status.isInstalled) {
+      if (!this.provider.pullModel) {
+        throw new Error(`${modelName} is not served by ${this.provider.baseUrl}`)
+      }
       console.log(`📥 [LlamaService] Downloading model: ${modelName}`)
       
       try {
         // Pull the model - this will download it if not available
-        const stream = await this.ollama.pull({ model: modelName, stream: true })
-        
-        for await (const chunk of stream) {
-          if (chunk.status) {
-            console.log(`📥 [LlamaService] ${chunk.status}`)
-            if (chunk.completed && chunk.total) {
-              const progress = Math.round((chunk.completed / chunk.total) * 100)
-              console.log(`📥 [LlamaService] Download progress: ${progress}%`)
-              if (onProgress) {
-                onProgress(progress, chunk.status)
-              }
-            } else if (onProgress) {
-              onProgress(0, chunk.status)
-            }
-          }
-        }
+        await this.provider.pullModel(modelName, onProgress)
         
         console.log(`✅ [LlamaService] Model ${modelName} downloaded successfully`)
       } catch (error) {
@@ -275,9 +343,16 @@ export class LlamaService {
     }
   }
 
+  /**
+   * Send a chat request. With `onProgress` the reply is streamed; aborting `signal` stops the
+   * Ollama request and resolves with whatever was generated so far. `modelOverride` answers with
+   * another installed model without switching the current one.
+   */
   public async sendMessage(
     messages: ChatMessage[],
-    onProgress?: (chunk: string) => void
+    onProgress?: (chunk: string) => void,
+    signal?: AbortSignal,
+    modelOverride?: string
   ): Promise<string> {
     if (!this.isInitialized || !this.currentModel) {
       try {
@@ -288,42 +363,21 @@ export class LlamaService {
       if (!this.currentModel) throw new Error('LlamaService not initialized')
     }
 
+    const model = modelOverride || this.currentModel
     try {
-      console.log(`💬 [LlamaService] Sending message to ${this.currentModel}`)
+      console.log(`💬 [LlamaService] Sending message to ${model}`)
       
-      // Convert our message format to Ollama format
-      const ollamaMessages = messages.map(msg => ({
+      const providerMessages = messages.map(msg => ({
         role: msg.role,
         content: msg.content
       }))
 
-      if (onProgress) {
-        // Streaming response
-        let fullResponse = ''
-        const stream = await this.ollama.chat({
-          model: this.currentModel,
-          messages: ollamaMessages,
-          stream: true
-        })
-
-        for await (const chunk of stream) {
-          if (chunk.message?.content) {
-            fullResponse += chunk.message.content
-            onProgress(chunk.message.content)
-          }
-        }
-
-        return fullResponse
-      } else {
-        // Non-streaming response
-        const response = await this.ollama.chat({
-          model: this.currentModel,
-          messages: ollamaMessages,
-          stream: false
-        })
-
-        return response.message.content
+      const contextLength = (await this.getContextWindow(model)) || undefined
+      const response = await this.provider.chat(providerMessages, { model, onToken: onProgress, signal, contextLength })
+      if (signal?.aborted) {
+        console.log(`⏹️ [LlamaService] Stream cancelled after ${response.length} chars`)
       }
+      return response
     } catch (error) {
       console.error('❌ [LlamaService] Error sending message:', error)
       throw error
@@ -332,8 +386,7 @@ export class LlamaService {
 
   public async getAvailableModels(): Promise<string[]> {
     try {
-      const models = await this.ollama.list()
-      return models.models.map(model => model.name)
+      return await this.provider.listModels()
     } catch (error) {
       console.error('❌ [LlamaService] Error getting available models:', error)
       return []
@@ -344,6 +397,52 @@ export class LlamaService {
     return this.currentModel
   }
 
+  /** Installed models with size, quantization and context length, flagged against this device */
+  public async listManagedModels(): Promise<ManagedModel[]> {
+    const names = await this.getAvailableModels()
+    const specs = await this.deviceService.getDeviceSpecs()
+    const compatible = this.deviceService.getCompatibleRecommendations(specs)
+    const recommended = this.deviceService.getModelRecommendation(specs)
+    const usableBytes = this.deviceService.getUsableMemory(specs) * 1024 ** 3
+
+    const models: ManagedModel[] = []
+    for (const name of names) {
+      const info = (await this.getModelInfo(name)) || { name, sizeBytes: null, family: null, parameterSize: null, quantization: null, contextLength: null }
+      models.push({
+        ...info,
+        inUse: sameModel(name, this.currentModel) ? 'chat' : sameModel(name, this.embeddingModel) ? 'embedding' : null,
+        recommended: sameModel(name, recommended.modelName),
+        compatible: compatible.some(m => sameModel(name, m.modelName)),
+        fitsMemory: info.sizeBytes ? info.sizeBytes <= usableBytes : null
+      })
+    }
+    return models
+  }
+
+  public canManageModels(): { pull: boolean; delete: boolean } {
+    return { pull: !!this.provider.pullModel, delete: !!this.provider.deleteModel }
+  }
+
+  /** Download any model by name; progress goes to the renderer as llm:downloadProgress */
+  public async pullModel(modelName: string): Promise<void> {
+    if (!this.provider.pullModel) throw new Error(`${this.provider.baseUrl} cannot download models`)
+    console.log(`📥 [LlamaService] Pulling model: ${modelName}`)
+    await this.provider.pullModel(modelName, (progress, status) => {
+      this.mainWindow?.webContents.send('llm:downloadProgress', { modelName, progress, status })
+    })
+    this.mainWindow?.webContents.send('llm:downloadProgress', { modelName, progress: 100, status: 'success' })
+    console.log(`✅ [LlamaService] Model ${modelName} pulled`)
+  }
+
+  /** Remove a model from disk; the active chat and embedding models are refused */
+  public async deleteModel(modelName: string): Promise<void> {
+    if (!this.provider.deleteModel) throw new Error(`${this.provider.baseUrl} cannot delete models`)
+    if (sameModel(modelName, this.currentModel)) throw new Error('Switch to another chat model before deleting this one')
+    if (sameModel(modelName, this.embeddingModel)) throw new Error('This model embeds your notes; choose another embedding model first')
+    await this.provider.deleteModel(modelName)
+    console.log(`🗑️ [LlamaService] Deleted model: ${modelName}`)
+  }
+
   public async switchModel(modelName: string): Promise<void> {
     console.log(`🔄 [LlamaService] Switching to model: ${modelName}`)
     
@@ -365,28 +464,104 @@ export class LlamaService {
     return await this.deviceService.getRecommendedModel()
   }
 
+  public setMaxContextTokens(tokens: number | null): void {
+    this.maxContextTokens = tokens && tokens >= 512 ? Math.floor(tokens) : DEFAULT_MAX_CONTEXT_TOKENS
+  }
+
+  /**
+   * Tokens a chat with `model` (default: the current model) gets: its trained context length,
+   * capped by the `maxContextTokens` setting. Null when there is no model.
+   */
+  public async getContextWindow(modelOverride?: string): Promise<number | null> {
+    const model = modelOverride || this.currentModel
+    if (!model) return null
+    if (!this.contextLengths.has(model)) {
+      const info = await this.getModelInfo(model)
+      // A failed lookup is retried next time rather than cached
+      if (!info) return Math.min(DEFAULT_CONTEXT_TOKENS, this.maxContextTokens)
+      this.contextLengths.set(model, info.contextLength)
+    }
+    return Math.min(this.contextLengths.get(model) || DEFAULT_CONTEXT_TOKENS, this.maxContextTokens)
+  }
+
+  public getEmbeddingModel(): string {
+    return this.embeddingModel
+  }
+
+  public setEmbeddingModel(modelName: string | null): void {
+    this.embeddingModel = modelName?.trim() || DEFAULT_EMBEDDING_MODEL
+  }
+
   // Ensure an embeddings model is downloaded and ready (separate from chat model)
   public async ensureEmbeddingsModelAvailable(modelName: string, onProgress?: (progress: number, status: string) => void): Promise<void> {
-    // Reuse ensureModelAvailable since pulling is identical via Ollama
+    // Reuse ensureModelAvailable since pulling is identical to chat models
     await this.ensureModelAvailable(modelName, onProgress)
   }
 
-  public async embedTexts(texts: string[], modelOverride?: string): Promise<number[][]> {
+  /**
+   * Embed one batch on the embedding worker thread, so bulk builds keep the main process free.
+   * If the worker cannot run (e.g. missing from the build), batches are embedded in-process.
+   */
+  public async embedBatch(texts: string[], modelOverride?: string): Promise<number[][]> {
     if (!this.isInitialized) {
       throw new Error('LlamaService not initialized')
     }
-    const model = modelOverride || this.currentModel
-    if (!model) throw new Error('No model available for embeddings')
+    const model = modelOverride || this.embeddingModel
+    const worker = this.embedWorkerBroken ? null : this.getEmbedWorker()
+    if (!worker) return this.embedTexts(texts, model)
+
+    try {
+      return await new Promise<number[][]>((resolve, reject) => {
+        const requestId = uuidv4()
+        this.pendingEmbeds.set(requestId, { resolve, reject })
+        const provider: ProviderConfig = { kind: this.provider.kind, baseUrl: this.provider.baseUrl, apiKey: this.apiKey }
+        worker.postMessage({ type: 'embed', requestId, provider, model, texts })
+      })
+    } catch (error) {
+      if (this.embedWorkerBroken) return this.embedTexts(texts, model)
+      throw error
+    }
+  }
 
+  private getEmbedWorker(): Worker | null {
+    if (this.embedWorker) return this.embedWorker
     try {
-      // Ollama embeddings endpoint supports single text per call; do sequential to avoid overload
-      const vectors: number[][] = []
-      for (const t of texts) {
-        const res: any = await (this.ollama as any).embeddings({ model, prompt: t })
-        const v: number[] = res?.embedding || res?.data?.[0]?.embedding || []
-        vectors.push(v)
+      const worker = new Worker(path.join(__dirname, '../workers/embeddingWorker.js'))
+      worker.on('message', (msg: { type: 'result' | 'error'; requestId: string; vectors?: number[][]; error?: string }) => {
+        const pending = this.pendingEmbeds.get(msg?.requestId)
+        if (!pending) return
+        this.pendingEmbeds.delete(msg.requestId)
+        if (msg.type === 'result') pending.resolve(msg.vectors || [])
+        else pending.reject(new Error(msg.error || 'Embedding failed'))
+      })
+      // A dead worker fails its in-flight batches over to in-process embedding
+      const fail = (error: Error) => {
+        if (this.embedWorker !== worker) return
+        this.safeLog(`❌ [LlamaService] Embedding worker stopped: ${error.message}`, 'error')
+        this.embedWorker = null
+        this.embedWorkerBroken = true
+        for (const pending of this.pendingEmbeds.values()) pending.reject(error)
+        this.pendingEmbeds.clear()
       }
-      return vectors
+      worker.on('error', fail)
+      worker.on('exit', code => fail(new Error(`Embedding worker exited with code ${code}`)))
+      this.embedWorker = worker
+      return worker
+    } catch (error) {
+      this.safeLog(`❌ [LlamaService] Could not start embedding worker: ${error}`, 'error')
+      this.embedWorkerBroken = true
+      return null
+    }
+  }
+
+  public async embedTexts(texts: string[], modelOverride?: string): Promise<number[][]> {
+    if (!this.isInitialized) {
+      throw new Error('LlamaService not initialized')
+    }
+    const model = modelOverride || this.embeddingModel
+
+    try {
+      return await this.provider.embed(model, texts)
     } catch (error) {
       console.error('❌ [LlamaService] Error generating embeddings:', error)
       throw error
@@ -0,0 +1,19 @@
+import { OllamaProvider } from './ollamaProvider'
+import { OpenAICompatibleProvider } from './openAICompatibleProvider'
+import type { LLMProvider, ProviderConfig } from './types'
+
+export * from './types'
+export { OllamaProvider, DEFAULT_OLLAMA_HOST } from './ollamaProvider'
+export { OpenAICompatibleProvider } from './openAICompatibleProvider'
+
+export function createProvider(config: ProviderConfig): LLMProvider {
+  switch (config.kind) {
+    case 'openai':
+      if (!config.baseUrl) throw new Error('An OpenAI-compatible provider needs a base URL')
+      return new OpenAICompatibleProvider(config.baseUrl, config.apiKey)
+    case 'ollama':
+      return new OllamaProvider(config.baseUrl || undefined)
+    default:
+      throw new Error(`Unknown provider: ${(config as any).kind}`)
+  }
+}
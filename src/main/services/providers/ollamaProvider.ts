@@ -0,0 +1,102 @@
+import { Ollama } from 'ollama'
+import type { LLMProvider, ProviderChatOptions, ProviderMessage, ProviderModelInfo } from './types'
+
+export const DEFAULT_OLLAMA_HOST = 'http://127.0.0.1:11434'
+
+export class OllamaProvider implements LLMProvider {
+  readonly kind = 'ollama' as const
+  private client: Ollama
+
+  constructor(readonly baseUrl: string = DEFAULT_OLLAMA_HOST) {
+    this.client = new Ollama({ host: baseUrl })
+  }
+
+  async ping(): Promise<void> {
+    const models = await this.client.list()
+    if (!models) throw new Error('Ollama list returned no data')
+  }
+
+  async listModels(): Promise<string[]> {
+    const models = await this.client.list()
+    return models.models.map(model => model.name)
+  }
+
+  async modelInfo(model: string): Promise<ProviderModelInfo | null> {
+    const listed = (await this.client.list()).models.find(m => m.name === model)
+    let show: any = null
+    try { show = await this.client.show({ model }) } catch {}
+    if (!listed && !show) return null
+
+    // model_info keys are prefixed with the architecture, e.g. `llama.context_length`
+    const info = show?.model_info || {}
+    const arch = info['general.architecture']
+    const contextLength = Number(arch ? info[`${arch}.context_length`] : NaN)
+    return {
+      name: model,
+      sizeBytes: listed?.size ?? null,
+      family: show?.details?.family || listed?.details?.family || null,
+      parameterSize: show?.details?.parameter_size || listed?.details?.parameter_size || null,
+      quantization: show?.details?.quantization_level || listed?.details?.quantization_level || null,
+      contextLength: Number.isFinite(contextLength) && contextLength > 0 ? contextLength : null
+    }
+  }
+
+  async chat(messages: ProviderMessage[], options: ProviderChatOptions): Promise<string> {
+    const { model, onToken, signal } = options
+    // Ollama runs every model with a small default num_ctx unless asked for more
+    const runOptions = options.contextLength ? { num_ctx: options.contextLength } : undefined
+    if (!onToken) {
+      const response = await this.client.chat({ model, messages, stream: false, options: runOptions })
+      return response.message.content
+    }
+
+    let fullResponse = ''
+    if (signal?.aborted) return fullResponse
+    const stream = await this.client.chat({ model, messages, stream: true, options: runOptions })
+
+    // Abort the HTTP request itself so Ollama stops generating
+    const onAbort = () => {
+      try { stream.abort() } catch {}
+    }
+    signal?.addEventListener('abort', onAbort)
+    try {
+      for await (const chunk of stream) {
+        if (signal?.aborted) break
+        if (chunk.message?.content) {
+          fullResponse += chunk.message.content
+          onToken(chunk.message.content)
+        }
+      }
+    } catch (error) {
+      if (!signal?.aborted) throw error
+    } finally {
+      signal?.removeEventListener('abort', onAbort)
+    }
+    if (signal?.aborted) onAbort()
+    return fullResponse
+  }
+
+  async embed(model: string, texts: string[]): Promise<number[][]> {
+    if (texts.length === 0) return []
+    // /api/embed takes the whole batch in one request
+    const res = await this.client.embed({ model, input: texts })
+    return res.embeddings || []
+  }
+
+  async pullModel(model: string, onProgress?: (progress: number, status: string) => void): Promise<void> {
+    const stream = await this.client.pull({ model, stream: true })
+    for await (const chunk of stream) {
+      if (!chunk.status) continue
+      console.log(`📥 [Ollama] ${chunk.status}`)
+      if (chunk.completed && chunk.total) {
+        onProgress?.(Math.round((chunk.completed / chunk.total) * 100), chunk.status)
+      } else {
+        onProgress?.(0, chunk.status)
+      }
+    }
+  }
+
+  async deleteModel(model: string): Promise<void> {
+    await this.client.delete({ model })
+  }
+}
@@ -0,0 +1,134 @@
+import type { LLMProvider, ProviderChatOptions, ProviderMessage, ProviderModelInfo } from './types'
+
+/**
+ * Any server speaking the OpenAI REST API: llama.cpp server, LM Studio, vLLM and friends.
+ * The base URL may be given with or without the trailing `/v1`.
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly kind = 'openai' as const
+  readonly baseUrl: string
+  private apiRoot: string
+
+  constructor(baseUrl: string, private apiKey?: string | null) {
+    this.baseUrl = baseUrl.trim().replace(/\/+$/, '')
+    this.apiRoot = /\/v1$/.test(this.baseUrl) ? this.baseUrl : `${this.baseUrl}/v1`
+  }
+
+  async ping(): Promise<void> {
+    await this.fetchModels()
+  }
+
+  async listModels(): Promise<string[]> {
+    return (await this.fetchModels()).map(m => m.id)
+  }
+
+  async modelInfo(model: string): Promise<ProviderModelInfo | null> {
+    const entry = (await this.fetchModels()).find(m => m.id === model)
+    if (!entry) return null
+    // Servers put the context size in different places: llama.cpp meta.n_ctx_train, vLLM max_model_len, LM Studio max_context_length
+    const contextLength = Number(entry.meta?.n_ctx_train ?? entry.max_model_len ?? entry.max_context_length ?? entry.context_length)
+    return {
+      name: model,
+      sizeBytes: typeof entry.meta?.size === 'number' ? entry.meta.size : null,
+      family: entry.arch || entry.owned_by || null,
+      parameterSize: null,
+      quantization: entry.quantization || null,
+      contextLength: Number.isFinite(contextLength) && contextLength > 0 ? contextLength : null
+    }
+  }
+
+  async chat(messages: ProviderMessage[], options: ProviderChatOptions): Promise<string> {
+    const { model, onToken, signal } = options
+    if (signal?.aborted) return ''
+
+    let res: Response
+    try {
+      res = await this.request('/chat/completions', { model, messages, stream: !!onToken }, signal)
+    } catch (error) {
+      if (signal?.aborted) return ''
+      throw error
+    }
+    if (!onToken) {
+      const json: any = await res.json()
+      return json?.choices?.[0]?.message?.content || ''
+    }
+
+    let fullResponse = ''
+    try {
+      for await (const data of readServerSentEvents(res)) {
+        if (data === '[DONE]') break
+        let event: any
+        try { event = JSON.parse(data) } catch { continue }
+        const token = event?.choices?.[0]?.delta?.content
+        if (token) {
+          fullResponse += token
+          onToken(token)
+        }
+      }
+    } catch (error) {
+      if (!signal?.aborted) throw error
+    }
+    return fullResponse
+  }
+
+  async embed(model: string, texts: string[]): Promise<number[][]> {
+    if (texts.length === 0) return []
+    const res = await this.request('/embeddings', { model, input: texts })
+    const json: any = await res.json()
+    const data: Array<{ index?: number; embedding: number[] }> = json?.data || []
+    return data
+      .map((d, i) => ({ index: d.index ?? i, embedding: d.embedding }))
+      .sort((a, b) => a.index - b.index)
+      .map(d => d.embedding || [])
+  }
+
+  private async fetchModels(): Promise<any[]> {
+    const res = await fetch(`${this.apiRoot}/models`, { headers: this.headers() })
+    if (!res.ok) throw new Error(`${this.baseUrl} answered ${res.status} ${res.statusText}`)
+    const json: any = await res.json()
+    return Array.isArray(json?.data) ? json.data : []
+  }
+
+  private async request(endpoint: string, body: unknown, signal?: AbortSignal): Promise<Response> {
+    const res = await fetch(`${this.apiRoot}${endpoint}`, {
+      method: 'POST',
+      headers: { ...this.headers(), 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+      signal
+    })
+    if (!res.ok) {
+      const detail = await res.text().catch(() => '')
+      throw new Error(`${endpoint} failed: ${res.status} ${res.statusText}${detail ? ` – ${detail.slice(0, 200)}` : ''}`)
+    }
+    return res
+  }
+
+  private headers(): Record<string, string> {
+    return this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {}
+  }
+}
+
+/** Yield the `data:` payloads of a text/event-stream response */
+async function* readServerSentEvents(res: Response): AsyncGenerator<string> {
+  if (!res.body) return
+  const reader = res.body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+  try {
+    while (true) {
+      const { done, value } = await reader.read()
+      if (done) break
+      buffer += decoder.decode(value, { stream: true })
+      let newline: number
+      while ((newline = buffer.indexOf('\n')) >= 0) {
+        const line = buffer.slice(0, newline).trim()
+        buffer = buffer.slice(newline + 1)
+        if (line.startsWith('data:')) yield line.slice(5).trim()
+      }
+    }
+    const rest = buffer.trim()
+    if (rest.startsWith('data:')) yield rest.slice(5).trim()
+  } finally {
+    reader.releaseLock()
+  }
+}
@@ -0,0 +1,125 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest'
+import { startMockOllama, type MockOllama } from '../../testing/mockOllama'
+import { OllamaProvider } from './ollamaProvider'
+import { OpenAICompatibleProvider } from './openAICompatibleProvider'
+import type { LLMProvider } from './types'
+
+const CHAT_MODEL = 'llama3.2:latest'
+const EMBED_MODEL = 'nomic-embed-text:latest'
+const question = [{ role: 'user' as const, content: 'What did I write about gardening?' }]
+
+let mock: MockOllama
+
+beforeAll(async () => {
+  mock = await startMockOllama()
+})
+
+afterAll(async () => {
+  await mock?.stop()
+})
+
+beforeEach(async () => {
+  await mock.reset()
+})
+
+const providers: Array<[string, () => LLMProvider]> = [
+  ['OllamaProvider', () => new OllamaProvider(mock.url)],
+  ['OpenAICompatibleProvider', () => new OpenAICompatibleProvider(mock.url)]
+]
+
+describe.each(providers)('%s against the mock server', (_, create) => {
+  it('answers ping and lists the installed models', async () => {
+    const provider = create()
+    await expect(provider.ping()).resolves.toBeUndefined()
+    expect(await provider.listModels()).toEqual([CHAT_MODEL, EMBED_MODEL])
+  })
+
+  it('reports the context length in modelInfo and null for unknown models', async () => {
+    const provider = create()
+    const info = await provider.modelInfo(CHAT_MODEL)
+    expect(info).toMatchObject({ name: CHAT_MODEL, contextLength: 8192 })
+    expect(info?.sizeBytes).toBeGreaterThan(0)
+    expect((await provider.modelInfo(EMBED_MODEL))?.contextLength).toBe(2048)
+    expect(await provider.modelInfo('not-installed:latest')).toBeNull()
+  })
+
+  it('returns the whole reply at once without onToken', async () => {
+    const reply = await create().chat(question, { model: CHAT_MODEL })
+    expect(reply).toContain(`[${CHAT_MODEL}] You asked: "What did I write about gardening?".`)
+  })
+
+  it('streams tokens that join back into the full reply', async () => {
+    const provider = create()
+    const tokens: string[] = []
+    const reply = await provider.chat(question, { model: CHAT_MODEL, onToken: t => tokens.push(t) })
+    expect(tokens.length).toBeGreaterThan(3)
+    expect(tokens.join('')).toBe(reply)
+    expect(reply).toBe(await provider.chat(question, { model: CHAT_MODEL }))
+  })
+
+  it('resolves with the partial reply when aborted mid-stream', async () => {
+    await mock.setFaults({ tokenDelayMs: 50 })
+    const provider = create()
+    const full = await provider.chat(question, { model: CHAT_MODEL })
+    const controller = new AbortController()
+    const tokens: string[] = []
+    const reply = await provider.chat(question, {
+      model: CHAT_MODEL,
+      signal: controller.signal,
+      onToken: t => {
+        tokens.push(t)
+        if (tokens.length === 2) controller.abort()
+      }
+    })
+    expect(reply.length).toBeGreaterThan(0)
+    expect(reply.length).toBeLessThan(full.length)
+    expect(full.startsWith(reply)).toBe(true)
+  })
+
+  it('returns nothing when the signal is already aborted', async () => {
+    const controller = new AbortController()
+    controller.abort()
+    const reply = await create().chat(question, { model: CHAT_MODEL, signal: controller.signal, onToken: () => {} })
+    expect(reply).toBe('')
+  })
+
+  it('returns one embedding per input, in input order', async () => {
+    await mock.setFaults({ reverseEmbeddings: true })
+    const provider = create()
+    const texts = ['apples and pears', 'tax return deadline', 'garden beds in spring']
+    const batch = await provider.embed(EMBED_MODEL, texts)
+    expect(batch).toHaveLength(3)
+    for (let i = 0; i < texts.length; i++) {
+      expect(batch[i]).toEqual((await provider.embed(EMBED_MODEL, [texts[i]]))[0])
+    }
+    expect(await provider.embed(EMBED_MODEL, [])).toEqual([])
+  })
+
+  it('rejects when the model is not installed', async () => {
+    const provider = create()
+    await expect(provider.chat(question, { model: 'missing-model:latest' })).rejects.toThrow(/not found|404/)
+    await expect(provider.embed('missing-model:latest', ['text'])).rejects.toThrow(/not found|404/)
+  })
+
+  it('rejects on server errors', async () => {
+    await mock.setFaults({ failPaths: '/api/chat,/v1/chat/completions,/api/embed,/v1/embeddings,/api/tags,/v1/models' })
+    const provider = create()
+    await expect(provider.chat(question, { model: CHAT_MODEL })).rejects.toThrow()
+    await expect(provider.chat(question, { model: CHAT_MODEL, onToken: () => {} })).rejects.toThrow()
+    await expect(provider.embed(EMBED_MODEL, ['text'])).rejects.toThrow()
+    await expect(provider.ping()).rejects.toThrow()
+  })
+})
+
+describe('OpenAICompatibleProvider', () => {
+  it('accepts a base URL that already ends in /v1', async () => {
+    const provider = new OpenAICompatibleProvider(`${mock.url}/v1/`)
+    expect(await provider.listModels()).toEqual([CHAT_MODEL, EMBED_MODEL])
+  })
+
+  it('puts the status code in the error message', async () => {
+    await mock.setFaults({ failPaths: '/v1/chat/completions' })
+    const provider = new OpenAICompatibleProvider(mock.url)
+    await expect(provider.chat(question, { model: CHAT_MODEL })).rejects.toThrow(/500/)
+  })
+})
@@ -0,0 +1,50 @@
+export type ProviderKind = 'ollama' | 'openai'
+
+export interface ProviderMessage {
+  role: 'user' | 'assistant' | 'system'
+  content: string
+}
+
+/** What a backend reports about a model; anything it does not expose stays null */
+export interface ProviderModelInfo {
+  name: string
+  sizeBytes: number | null
+  family: string | null
+  parameterSize: string | null
+  quantization: string | null
+  contextLength: number | null
+}
+
+export interface ProviderChatOptions {
+  model: string
+  /** Stream the reply token by token; without it the full reply is returned at once */
+  onToken?: (chunk: string) => void
+  /** Aborting stops the request and resolves with what was generated so far */
+  signal?: AbortSignal
+  /** Context window to run the model with, where the backend lets the client choose it */
+  contextLength?: number
+}
+
+export interface ProviderConfig {
+  kind: ProviderKind
+  baseUrl: string
+  apiKey?: string | null
+}
+
+/**
+ * A chat/embedding backend. LlamaService picks models and handles fallbacks; providers only
+ * speak their server's HTTP API.
+ */
+export interface LLMProvider {
+  readonly kind: ProviderKind
+  readonly baseUrl: string
+  /** Resolves when the server answers; rejects with the connection error otherwise */
+  ping(): Promise<void>
+  listModels(): Promise<string[]>
+  modelInfo(model: string): Promise<ProviderModelInfo | null>
+  chat(messages: ProviderMessage[], options: ProviderChatOptions): Promise<string>
+  embed(model: string, texts: string[]): Promise<number[][]>
+  /** Download a model; only backends that manage their own model store implement it */
+  pullModel?(model: string, onProgress?: (progress: number, status: string) => void): Promise<void>
+  deleteModel?(model: string): Promise<void>
+}
@@ -0,0 +1,384 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync, renameSync, unlinkSync } from 'fs'
+import { dirname, join } from 'path'
+import { database, IslaDatabase } from '../database'
+
+/** Min-heap keyed by distance (use negated distances for a max-heap) */
+class DistanceHeap {
+  private items: Array<{ id: number; dist: number }> = []
+
+  get size(): number { return this.items.length }
+
+  peek(): { id: number; dist: number } | undefined { return this.items[0] }
+
+  push(item: { id: number; dist: number }): void {
+    const a = this.items
+    a.push(item)
+    let i = a.length - 1
+    while (i > 0) {
+      const p = (i - 1) >> 1
+      if (a[p].dist <= a[i].dist) break
+      ;[a[p], a[i]] = [a[i], a[p]]
+      i = p
+    }
+  }
+
+  pop(): { id: number; dist: number } | undefined {
+    const a = this.items
+    if (a.length === 0) return undefined
+    const top = a[0]
+    const last = a.pop()!
+    if (a.length > 0) {
+      a[0] = last
+      let i = 0
+      for (;;) {
+        const l = 2 * i + 1
+        const r = l + 1
+        let m = i
+        if (l < a.length && a[l].dist < a[m].dist) m = l
+        if (r < a.length && a[r].dist < a[m].dist) m = r
+        if (m === i) break
+        ;[a[m], a[i]] = [a[i], a[m]]
+        i = m
+      }
+    }
+    return top
+  }
+}
+
+function normalize(vec: ArrayLike<number>): Float32Array {
+  const out = Float32Array.from(vec)
+  let norm = 0
+  for (let i = 0; i < out.length; i++) norm += out[i] * out[i]
+  norm = Math.sqrt(norm)
+  if (norm > 0) for (let i = 0; i < out.length; i++) out[i] /= norm
+  return out
+}
+
+/**
+ * Hierarchical navigable small-world graph over cosine distance.
+ * Vectors live in memory only; the graph is persisted and vectors are reloaded from the DB.
+ */
+export class HnswIndex {
+  readonly dim: number
+  private readonly M: number
+  private readonly efConstruction: number
+  private readonly levelMult: number
+  private vectors = new Map<number, Float32Array>()
+  private levels = new Map<number, number>()
+  private links = new Map<number, number[][]>()
+  private deleted = new Set<number>()
+  private entryPoint: number | null = null
+  private maxLevel = -1
+
+  constructor(dim: number, M: number = 16, efConstruction: number = 100) {
+    this.dim = dim
+    this.M = M
+    this.efConstruction = efConstruction
+    this.levelMult = 1 / Math.log(M)
+  }
+
+  get size(): number { return this.vectors.size - this.deleted.size }
+
+  has(id: number): boolean { return this.vectors.has(id) && !this.deleted.has(id) }
+
+  ids(): number[] { return Array.from(this.vectors.keys()).filter(id => !this.deleted.has(id)) }
+
+  private distance(a: Float32Array, b: Float32Array): number {
+    let dot = 0
+    for (let i = 0; i < a.length; i++) dot += a[i] * b[i]
+    return 1 - dot
+  }
+
+  private randomLevel(): number {
+    return Math.floor(-Math.log(Math.max(Math.random(), 1e-12)) * this.levelMult)
+  }
+
+  private searchLayer(query: Float32Array, entry: number, ef: number, level: number): Array<{ id: number; dist: number }> {
+    const visited = new Set<number>([entry])
+    const entryDist = this.distance(query, this.vectors.get(entry)!)
+    const candidates = new DistanceHeap()
+    const results = new DistanceHeap() // max-heap via negated distance
+    candidates.push({ id: entry, dist: entryDist })
+    results.push({ id: entry, dist: -entryDist })
+
+    while (candidates.size > 0) {
+      const current = candidates.pop()!
+      const worst = -results.peek()!.dist
+      if (current.dist > worst && results.size >= ef) break
+      const neighbours = this.links.get(current.id)?.[level] || []
+      for (const n of neighbours) {
+        if (visited.has(n)) continue
+        visited.add(n)
+        const vec = this.vectors.get(n)
+        if (!vec) continue
+        const d = this.distance(query, vec)
+        if (results.size < ef || d < -results.peek()!.dist) {
+          candidates.push({ id: n, dist: d })
+          results.push({ id: n, dist: -d })
+          if (results.size > ef) results.pop()
+        }
+      }
+    }
+
+    const out: Array<{ id: number; dist: number }> = []
+    while (results.size > 0) {
+      const r = results.pop()!
+      out.push({ id: r.id, dist: -r.dist })
+    }
+    return out.reverse()
+  }
+
+  private prune(id: number, level: number): void {
+    const max = level === 0 ? this.M * 2 : this.M
+    const list = this.links.get(id)![level]
+    if (list.length <= max) return
+    const base = this.vectors.get(id)!
+    list.sort((a, b) => this.distance(base, this.vectors.get(a)!) - this.distance(base, this.vectors.get(b)!))
+    list.length = max
+  }
+
+  /** Insert or replace a vector. Replacing keeps existing links (approximate, but cheap). */
+  add(id: number, vector: ArrayLike<number>): void {
+    if (vector.length !== this.dim) throw new Error(`Vector dimension ${vector.length} does not match index dimension ${this.dim}`)
+    const vec = normalize(vector)
+    const existed = this.vectors.has(id)
+    this.vectors.set(id, vec)
+    this.deleted.delete(id)
+    if (existed && this.links.has(id)) return
+
+    const level = this.randomLevel()
+    this.levels.set(id, level)
+    this.links.set(id, Array.from({ length: level + 1 }, () => []))
+
+    if (this.entryPoint === null) {
+      this.entryPoint = id
+      this.maxLevel = level
+      return
+    }
+
+    let entry = this.entryPoint
+    for (let l = this.maxLevel; l > level; l--) {
+      entry = this.searchLayer(vec, entry, 1, l)[0]?.id ?? entry
+    }
+    for (let l = Math.min(level, this.maxLevel); l >= 0; l--) {
+      const found = this.searchLayer(vec, entry, this.efConstruction, l)
+      const selected = found.filter(f => f.id !== id).slice(0, this.M)
+      this.links.get(id)![l] = selected.map(s => s.id)
+      for (const s of selected) {
+        const nLinks = this.links.get(s.id)
+        if (!nLinks || !nLinks[l]) continue
+        nLinks[l].push(id)
+        this.prune(s.id, l)
+      }
+      if (found.length > 0) entry = found[0].id
+    }
+
+    if (level > this.maxLevel) {
+      this.maxLevel = level
+      this.entryPoint = id
+    }
+  }
+
+  /** Soft-delete; the node keeps routing traffic but is never returned */
+  remove(id: number): void {
+    if (this.vectors.has(id)) this.deleted.add(id)
+  }
+
+  search(query: ArrayLike<number>, k: number, ef: number = 64): Array<{ id: number; score: number }> {
+    if (this.entryPoint === null || query.length !== this.dim) return []
+    const q = normalize(query)
+    let entry = this.entryPoint
+    for (let l = this.maxLevel; l > 0; l--) {
+      entry = this.searchLayer(q, entry, 1, l)[0]?.id ?? entry
+    }
+    return this.searchLayer(q, entry, Math.max(ef, k + Math.min(this.deleted.size, k)), 0)
+      .filter(r => !this.deleted.has(r.id))
+      .slice(0, k)
+      .map(r => ({ id: r.id, score: 1 - r.dist }))
+  }
+
+  /** Graph only (vectors are reloaded from the embeddings table) */
+  serialize(): object {
+    return {
+      version: 1,
+      dim: this.dim,
+      M: this.M,
+      efConstruction: this.efConstruction,
+      entryPoint: this.entryPoint,
+      maxLevel: this.maxLevel,
+      nodes: Array.from(this.links.entries())
+        .filter(([id]) => !this.deleted.has(id))
+        .map(([id, l]) => [id, this.levels.get(id) || 0, l.map(list => list.filter(n => !this.deleted.has(n)))])
+    }
+  }
+
+  static deserialize(data: any, vectors: Map<number, Float32Array>): HnswIndex {
+    const index = new HnswIndex(data.dim, data.M, data.efConstruction)
+    for (const [id, level, l] of data.nodes as Array<[number, number, number[][]]>) {
+      const vec = vectors.get(id)
+      if (!vec) continue
+      index.vectors.set(id, normalize(vec))
+      index.levels.set(id, level)
+      index.links.set(id, l)
+    }
+    // Drop links to nodes that no longer have vectors
+    for (const l of index.links.values()) {
+      for (let i = 0; i < l.length; i++) l[i] = l[i].filter(n => index.vectors.has(n))
+    }
+    index.entryPoint = index.vectors.has(data.entryPoint) ? data.entryPoint : null
+    index.maxLevel = index.entryPoint !== null ? data.maxLevel : -1
+    if (index.entryPoint === null && index.vectors.size > 0) {
+      // Entry point vanished; promote the highest remaining node
+      let best: number | null = null
+      for (const [id, level] of index.levels) {
+        if (index.vectors.has(id) && (best === null || level > (index.levels.get(best) || 0))) best = id
+      }
+      index.entryPoint = best
+      index.maxLevel = best !== null ? index.levels.get(best) || 0 : -1
+    }
+    return index
+  }
+}
+
+/**
+ * Per-model ANN indexes built from the embeddings table, persisted next to the database
+ * (in-memory databases are never persisted) and kept current through database embedding events.
+ */
+export class VectorIndexService {
+  private db: IslaDatabase
+  private indexes = new Map<string, HnswIndex>()
+  private loading = new Map<string, Promise<HnswIndex | null>>()
+  private dirty = new Set<string>()
+  private saveTimer: NodeJS.Timeout | null = null
+
+  constructor(db: IslaDatabase = database) {
+    this.db = db
+    this.db.onEmbeddingsChanged((event) => {
+      if (event.type === 'clear') {
+        const models = event.model ? [event.model] : Array.from(this.indexes.keys())
+        models.forEach(m => { this.indexes.delete(m); this.deleteFile(m) })
+        return
+      }
+      if (event.type === 'delete') {
+        // Chunk ids are shared by every model's index
+        for (const [model, index] of this.indexes) {
+          let removed = 0
+          for (const id of event.chunkIds) {
+            if (index.has(id)) { index.remove(id); removed++ }
+          }
+          if (removed > 0) this.markDirty(model)
+        }
+        return
+      }
+      const index = this.indexes.get(event.model)
+      if (!index) return
+      try {
+        if (event.vector.length === index.dim) {
+          index.add(event.chunkId, event.vector)
+          this.markDirty(event.model)
+        }
+      } catch (e) {
+        console.warn('⚠️ [VectorIndex] Incremental add failed:', e)
+      }
+    })
+  }
+
+  private indexPath(model: string): string | null {
+    if (this.db.isInMemory()) return null
+    const slug = model.replace(/[^a-zA-Z0-9._-]+/g, '_')
+    return join(dirname(this.db.getDatabaseFilePath()), 'vector-index', `${slug}.hnsw.json`)
+  }
+
+  private deleteFile(model: string): void {
+    try { const p = this.indexPath(model); if (p && existsSync(p)) unlinkSync(p) } catch {}
+  }
+
+  private markDirty(model: string): void {
+    if (this.db.isInMemory()) return
+    this.dirty.add(model)
+    if (this.saveTimer) clearTimeout(this.saveTimer)
+    this.saveTimer = setTimeout(() => this.flush(), 5000)
+  }
+
+  /** Write dirty indexes to disk (atomic rename) */
+  flush(): void {
+    if (this.saveTimer) { clearTimeout(this.saveTimer); this.saveTimer = null }
+    for (const model of this.dirty) {
+      const index = this.indexes.get(model)
+      if (!index) continue
+      try {
+        const p = this.indexPath(model)
+        if (!p) continue
+        mkdirSync(dirname(p), { recursive: true })
+        writeFileSync(`${p}.tmp`, JSON.stringify({ model, ...index.serialize() }))
+        renameSync(`${p}.tmp`, p)
+      } catch (e) {
+        console.warn('⚠️ [VectorIndex] Failed to persist index:', e)
+      }
+    }
+    this.dirty.clear()
+  }
+
+  /** Load (or build) the index for a model and reconcile it with the embeddings table */
+  async getIndex(model: string): Promise<HnswIndex | null> {
+    const cached = this.indexes.get(model)
+    if (cached) return cached
+    const pending = this.loading.get(model)
+    if (pending) return pending
+    const task = (async () => {
+      try {
+        const started = Date.now()
+        const rows = this.db.getEmbeddingsForModel(model).filter(r => r.vector.length > 0)
+        if (rows.length === 0) return null
+        const vectors = new Map<number, Float32Array>(rows.map(r => [r.chunk_id, r.vector]))
+        const dim = rows[0].vector.length
+
+        let index: HnswIndex | null = null
+        const p = this.indexPath(model)
+        if (p && existsSync(p)) {
+          try {
+            const data = JSON.parse(readFileSync(p, 'utf8'))
+            if (data.dim === dim) index = HnswIndex.deserialize(data, vectors)
+          } catch (e) {
+            console.warn('⚠️ [VectorIndex] Persisted index unreadable, rebuilding:', e)
+          }
+        }
+        let added = 0
+        if (!index) index = new HnswIndex(dim)
+        for (const [id, vec] of vectors) {
+          if (!index.has(id) && vec.length === dim) { index.add(id, vec); added++ }
+        }
+        this.indexes.set(model, index)
+        if (added > 0) this.markDirty(model)
+        console.log(`✅ [VectorIndex] ${model}: ${index.size} vectors ready (${added} added) in ${Date.now() - started}ms`)
+        return index
+      } catch (e) {
+        console.warn('⚠️ [VectorIndex] Failed to load index:', e)
+        return null
+      } finally {
+        this.loading.delete(model)
+      }
+    })()
+    this.loading.set(model, task)
+    return task
+  }
+
+  /** Top-k chunk ids by cosine similarity */
+  async search(model: string, query: ArrayLike<number>, k: number = 20): Promise<Array<{ chunk_id: number; score: number }>> {
+    const index = await this.getIndex(model)
+    if (!index || !query || query.length !== index.dim) return []
+    const ef = parseInt(this.db.getSetting('annEfSearch') || '64') || 64
+    return index.search(query, k, ef).map(r => ({ chunk_id: r.id, score: r.score }))
+  }
+
+  /** Forget a chunk that no longer exists (found stale during search) */
+  forget(model: string, chunkId: number): void {
+    const index = this.indexes.get(model)
+    if (index && index.has(chunkId)) {
+      index.remove(chunkId)
+      this.markDirty(model)
+    }
+  }
+}
+
+export const vectorIndexService = new VectorIndexService()
@@ -0,0 +1,52 @@
+import { spawn } from 'child_process'
+import { resolve } from 'path'
+
+export interface MockOllama {
+  url: string
+  /** Same keys as POST /__mock/faults, e.g. { failPaths: '/api/embed' } */
+  setFaults(faults: Record<string, unknown>): Promise<void>
+  reset(): Promise<void>
+  stop(): Promise<void>
+}
+
+const SCRIPT = resolve(__dirname, '../../../scripts/mock-ollama.mjs')
+
+/** Start scripts/mock-ollama.mjs on a free port; resolves once it is listening */
+export function startMockOllama(env: Record<string, string> = {}): Promise<MockOllama> {
+  const child = spawn(process.execPath, [SCRIPT, '--port', '0'], {
+    env: { ...process.env, MOCK_TOKEN_DELAY_MS: '1', ...env },
+    stdio: ['ignore', 'pipe', 'inherit']
+  })
+
+  const control = async (path: string, body: unknown = {}) => {
+    const res = await fetch(`${url}${path}`, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body) })
+    if (!res.ok) throw new Error(`mock ${path} answered ${res.status}`)
+  }
+  let url = ''
+
+  return new Promise((resolvePromise, reject) => {
+    let output = ''
+    const onData = (chunk: Buffer) => {
+      output += chunk.toString()
+      const match = output.match(/Listening on (http:\/\/[\d.]+:\d+)/)
+      if (!match) return
+      // Keep draining the request log so the pipe never fills up
+      child.stdout.off('data', onData)
+      child.stdout.resume()
+      url = match[1]
+      resolvePromise({
+        url,
+        setFaults: (faults) => control('/__mock/faults', faults),
+        reset: () => control('/__mock/reset'),
+        stop: () => new Promise(done => {
+          if (child.exitCode !== null) return done()
+          child.once('exit', () => done())
+          child.kill()
+        })
+      })
+    }
+    child.stdout.on('data', onData)
+    child.once('error', reject)
+    child.once('exit', code => reject(new Error(`mock Ollama exited with ${code} before listening`)))
+  })
+}
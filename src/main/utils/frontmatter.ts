@@ -0,0 +1,144 @@
+export type PropertyType = 'string' | 'number' | 'date' | 'list' | 'boolean'
+
+export type PropertyValue = string | number | boolean | string[] | null
+
+export interface FrontmatterProperty {
+  key: string
+  type: PropertyType
+  value: PropertyValue
+}
+
+const FRONTMATTER_RE = /^---\r?\n([\s\S]*?)\r?\n---(?:\r?\n|$)/
+const DATE_RE = /^\d{4}-\d{2}-\d{2}(?:[T ]\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:?\d{2})?)?$/
+
+/** Raw YAML between the leading `---` fences, or null when the note has none */
+export function extractFrontmatterBlock(content: string): string | null {
+  const m = (content || '').match(FRONTMATTER_RE)
+  return m ? m[1] : null
+}
+
+/**
+ * Strip surrounding quotes and trailing ` # comments` from an unquoted scalar. In a value that
+ * starts with `#` (inline tags, `tags: #a #b`) only `# ` followed by a space starts a comment.
+ */
+function cleanScalar(raw: string): string {
+  const s = raw.trim()
+  if ((s.startsWith('"') && s.endsWith('"')) || (s.startsWith("'") && s.endsWith("'"))) {
+    return s.slice(1, -1)
+  }
+  return s.replace(s.startsWith('#') ? /\s+#(?:\s.*)?$/ : /\s+#.*$/, '').trim()
+}
+
+/** Convert a YAML scalar into a JS value (numbers, booleans, null; dates stay ISO strings) */
+export function parseScalar(raw: string): string | number | boolean | null {
+  const trimmed = raw.trim()
+  const quoted = /^(['"]).*\1$/.test(trimmed)
+  const s = cleanScalar(trimmed)
+  if (quoted) return s
+  if (s === '' || s === '~' || /^null$/i.test(s)) return null
+  if (/^(true|yes|on)$/i.test(s)) return true
+  if (/^(false|no|off)$/i.test(s)) return false
+  if (/^[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?$/.test(s)) return Number(s)
+  return s
+}
+
+export function parseInlineList(raw: string): string[] {
+  return raw
+    .trim()
+    .replace(/^\[|\]$/g, '')
+    .split(',')
+    .map(cleanScalar)
+    .filter(Boolean)
+}
+
+/**
+ * Parse the frontmatter subset notes actually use: scalars, inline and block lists,
+ * block scalars (| and >) and one level of nested maps (flattened to `parent.child`)
+ */
+export function parseFrontmatter(content: string): Record<string, PropertyValue> {
+  const block = extractFrontmatterBlock(content)
+  if (block === null) return {}
+
+  const lines = block.split(/\r?\n/)
+  const result: Record<string, PropertyValue> = {}
+  let i = 0
+
+  const readNested = (indentOf: number, prefix: string) => {
+    while (i < lines.length) {
+      const line = lines[i]
+      if (!line.trim() || line.trim().startsWith('#')) { i++; continue }
+      const indent = line.length - line.trimStart().length
+      if (indent <= indentOf) return
+      const m = line.trim().match(/^([^:#][^:]*?)\s*:\s*(.*)$/)
+      if (!m) { i++; continue }
+      i++
+      assign(`${prefix}.${m[1].trim()}`, m[2], indent)
+    }
+  }
+
+  const assign = (key: string, rest: string, indent: number) => {
+    const value = rest.trim()
+    if (value.startsWith('[')) {
+      result[key] = parseInlineList(value)
+      return
+    }
+    if (value === '|' || value === '>' || /^[|>][+-]?$/.test(value)) {
+      const parts: string[] = []
+      while (i < lines.length && (!lines[i].trim() || lines[i].length - lines[i].trimStart().length > indent)) {
+        parts.push(lines[i].trim())
+        i++
+      }
+      result[key] = value.startsWith('|') ? parts.join('\n').trim() : parts.join(' ').replace(/\s+/g, ' ').trim()
+      return
+    }
+    if (value) {
+      result[key] = parseScalar(value)
+      return
+    }
+    // Empty value: block list, nested map, or null
+    const next = lines[i]
+    if (next !== undefined && /^\s*-\s+/.test(next)) {
+      const items: string[] = []
+      while (i < lines.length && /^\s*-\s+/.test(lines[i])) {
+        const item = cleanScalar(lines[i].replace(/^\s*-\s+/, ''))
+        if (item) items.push(item)
+        i++
+      }
+      result[key] = items
+      return
+    }
+    if (next !== undefined && next.length - next.trimStart().length > indent && next.trim()) {
+      readNested(indent, key)
+      return
+    }
+    result[key] = null
+  }
+
+  while (i < lines.length) {
+    const line = lines[i]
+    i++
+    if (!line.trim() || line.trim().startsWith('#') || /^\s/.test(line)) continue
+    const m = line.match(/^([^:#][^:]*?)\s*:\s*(.*)$/)
+    if (!m) continue
+    assign(m[1].trim(), m[2], 0)
+  }
+
+  return result
+}
+
+/** Infer the stored type of a parsed frontmatter value */
+export function inferPropertyType(value: PropertyValue): PropertyType {
+  if (Array.isArray(value)) return 'list'
+  if (typeof value === 'boolean') return 'boolean'
+  if (typeof value === 'number') return 'number'
+  if (typeof value === 'string' && DATE_RE.test(value)) return 'date'
+  return 'string'
+}
+
+/** Typed properties for a note, keys lowercased; null values are dropped */
+export function readFrontmatterProperties(content: string): FrontmatterProperty[] {
+  const parsed = parseFrontmatter(content)
+  return Object.entries(parsed)
+    .filter(([, value]) => value !== null)
+    .map(([key, value]) => ({ key: key.toLowerCase(), type: inferPropertyType(value), value }))
+}
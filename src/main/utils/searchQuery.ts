@@ -0,0 +1,248 @@
+export type SearchField = 'path' | 'name' | 'before' | 'after' | 'tag'
+
+export interface SearchTerm {
+  kind: 'word' | 'phrase' | 'field'
+  field?: SearchField
+  value: string
+  negated: boolean
+  position: number
+}
+
+/** Terms inside a group are OR-ed; groups are AND-ed */
+export interface ParsedSearchQuery {
+  groups: SearchTerm[][]
+  hasOperators: boolean
+}
+
+export interface CompiledSearchQuery {
+  /** FTS5 MATCH expression for positive text terms, or null when the query only filters */
+  match: string | null
+  /** SQL predicates over `files f` (AND-ed) */
+  where: string[]
+  params: any[]
+  /** Plain words from the query, for fallbacks and highlighting */
+  textTerms: string[]
+}
+
+export class SearchQueryError extends Error {
+  position: number
+
+  constructor(message: string, position: number) {
+    super(message)
+    this.name = 'SearchQueryError'
+    this.position = position
+  }
+}
+
+const FIELDS: SearchField[] = ['path', 'name', 'before', 'after', 'tag']
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec']
+
+/**
+ * Tokenize a search box query: `path:`, `name:`, `before:`, `after:`, `tag:`,
+ * `"exact phrase"`, `-exclude` and `OR` between adjacent terms
+ */
+export function parseSearchQuery(input: string): ParsedSearchQuery {
+  const src = input || ''
+  const groups: SearchTerm[][] = []
+  let hasOperators = false
+  let pendingOr = false
+  let i = 0
+
+  const readQuoted = (start: number): { value: string; end: number } => {
+    const close = src.indexOf('"', start + 1)
+    if (close === -1) throw new SearchQueryError('Unterminated quote', start)
+    return { value: src.slice(start + 1, close), end: close + 1 }
+  }
+
+  while (i < src.length) {
+    if (/\s/.test(src[i])) { i++; continue }
+    const start = i
+
+    // OR keyword (uppercase only, so "or" in prose stays a word)
+    const orMatch = src.slice(i).match(/^OR(?=\s|$)/)
+    if (orMatch) {
+      if (groups.length === 0 || pendingOr) throw new SearchQueryError('OR needs a term on both sides', start)
+      pendingOr = true
+      hasOperators = true
+      i += 2
+      continue
+    }
+
+    let negated = false
+    if (src[i] === '-' && i + 1 < src.length && !/\s/.test(src[i + 1])) {
+      negated = true
+      hasOperators = true
+      i++
+    }
+
+    let term: SearchTerm
+    if (src[i] === '"') {
+      const q = readQuoted(i)
+      i = q.end
+      if (!q.value.trim()) throw new SearchQueryError('Empty phrase', start)
+      term = { kind: 'phrase', value: q.value.trim(), negated, position: start }
+      hasOperators = true
+    } else {
+      const fieldMatch = src.slice(i).match(/^([a-zA-Z]+):/)
+      const field = fieldMatch ? fieldMatch[1].toLowerCase() as SearchField : null
+      if (field && FIELDS.includes(field)) {
+        i += fieldMatch![0].length
+        let value = ''
+        if (src[i] === '"') {
+          const q = readQuoted(i)
+          value = q.value
+          i = q.end
+        } else {
+          while (i < src.length && !/\s/.test(src[i])) i++
+          value = src.slice(start + (negated ? 1 : 0) + fieldMatch![0].length, i)
+        }
+        if (!value.trim()) throw new SearchQueryError(`Missing value for ${field}:`, start)
+        term = { kind: 'field', field, value: value.trim(), negated, position: start }
+        hasOperators = true
+      } else {
+        while (i < src.length && !/\s/.test(src[i])) i++
+        const value = src.slice(start + (negated ? 1 : 0), i)
+        term = { kind: 'word', value, negated, position: start }
+      }
+    }
+
+    if (pendingOr) {
+      const group = groups[groups.length - 1]
+      if (term.negated || group.some(t => t.negated)) {
+        throw new SearchQueryError('Excluded terms cannot be combined with OR', start)
+      }
+      group.push(term)
+      pendingOr = false
+    } else {
+      groups.push([term])
+    }
+  }
+
+  if (pendingOr) throw new SearchQueryError('OR needs a term on both sides', src.length)
+
+  return { groups, hasOperators }
+}
+
+/** Resolve a before:/after: value into a [start, end) day range (ISO yyyy-mm-dd) */
+export function parseDateOperand(value: string, now: Date = new Date()): { start: string; end: string } | null {
+  const v = value.trim().toLowerCase()
+  const iso = (d: Date) => d.toISOString().slice(0, 10)
+  const utc = (y: number, m: number, d: number) => new Date(Date.UTC(y, m, d))
+
+  let m = v.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/)
+  if (m) return { start: iso(utc(+m[1], +m[2] - 1, +m[3])), end: iso(utc(+m[1], +m[2] - 1, +m[3] + 1)) }
+  m = v.match(/^(\d{4})-(\d{1,2})$/)
+  if (m) return { start: iso(utc(+m[1], +m[2] - 1, 1)), end: iso(utc(+m[1], +m[2], 1)) }
+  m = v.match(/^(\d{4})$/)
+  if (m) return { start: iso(utc(+m[1], 0, 1)), end: iso(utc(+m[1] + 1, 0, 1)) }
+
+  const today = utc(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate())
+  if (v === 'today') return { start: iso(today), end: iso(new Date(+today + 86400000)) }
+  if (v === 'yesterday') return { start: iso(new Date(+today - 86400000)), end: iso(today) }
+
+  // Month names refer to the current year: before:march
+  const monthIdx = MONTHS.findIndex(mon => v.startsWith(mon))
+  if (monthIdx >= 0 && /^[a-z]+$/.test(v)) {
+    const y = now.getUTCFullYear()
+    return { start: iso(utc(y, monthIdx, 1)), end: iso(utc(y, monthIdx + 1, 1)) }
+  }
+
+  return null
+}
+
+/** Quote a single word/phrase for FTS5 */
+function ftsQuote(text: string): string {
+  return `"${text.replace(/"/g, '""')}"`
+}
+
+/** Normalize a bare word the same way plain FTS queries do; empty when nothing searchable remains */
+function ftsWord(word: string): string[] {
+  return word
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+    .split(/\s+/)
+    .filter(w => w.length > 1)
+}
+
+const EFFECTIVE_DATE = 'COALESCE(f.note_date, f.file_mtime)'
+
+/** SQL predicate (over `files f`) for a field term */
+function compileField(term: SearchTerm, now: Date): { sql: string; params: any[] } {
+  const value = term.value
+  switch (term.field) {
+    case 'path': {
+      const needle = value.replace(/\\/g, '/').toLowerCase()
+      return { sql: `instr(lower(f.path), ?) > 0`, params: [needle] }
+    }
+    case 'name':
+      return { sql: `instr(lower(f.name), ?) > 0`, params: [value.toLowerCase()] }
+    case 'tag': {
+      const tag = value.replace(/^#+/, '').toLowerCase().replace(/\/+$/, '')
+      return {
+        sql: 'f.id IN (SELECT file_id FROM tags WHERE tag = ? OR substr(tag, 1, ?) = ?)',
+        params: [tag, tag.length + 1, `${tag}/`]
+      }
+    }
+    case 'before':
+    case 'after': {
+      const range = parseDateOperand(value, now)
+      if (!range) throw new SearchQueryError(`Invalid date for ${term.field}: "${value}"`, term.position)
+      return term.field === 'before'
+        ? { sql: `${EFFECTIVE_DATE} < ?`, params: [range.start] }
+        : { sql: `${EFFECTIVE_DATE} >= ?`, params: [range.end] }
+    }
+    default:
+      throw new SearchQueryError(`Unknown operator ${term.field}:`, term.position)
+  }
+}
+
+/**
+ * Compile a parsed query into an FTS5 MATCH expression plus SQL predicates over `files f`.
+ * Excluded text terms drop whole notes rather than individual chunks.
+ */
+export function compileSearchQuery(parsed: ParsedSearchQuery, now: Date = new Date()): CompiledSearchQuery {
+  const matchParts: string[] = []
+  const where: string[] = []
+  const params: any[] = []
+  const textTerms: string[] = []
+
+  const textExpr = (t: SearchTerm): string | null => {
+    if (t.kind === 'phrase') return ftsQuote(t.value)
+    const words = ftsWord(t.value)
+    if (words.length === 0) return null
+    return words.length === 1 ? ftsQuote(words[0]) : `(${words.map(ftsQuote).join(' AND ')})`
+  }
+
+  for (const group of parsed.groups) {
+    const isText = (t: SearchTerm) => t.kind !== 'field'
+    if (group.length > 1 && group.some(isText) && !group.every(isText)) {
+      throw new SearchQueryError('OR cannot mix text and field operators', group[1].position)
+    }
+
+    if (group.every(isText)) {
+      const exprs = group.map(textExpr).filter((e): e is string => !!e)
+      if (exprs.length === 0) continue
+      const expr = exprs.length === 1 ? exprs[0] : `(${exprs.join(' OR ')})`
+      if (group[0].negated) {
+        where.push(`f.id NOT IN (SELECT c2.file_id FROM chunks_fts JOIN content_chunks c2 ON c2.id = chunks_fts.rowid WHERE chunks_fts MATCH ?)`)
+        params.push(expr)
+      } else {
+        matchParts.push(expr)
+        group.forEach(t => textTerms.push(...ftsWord(t.value)))
+      }
+      continue
+    }
+
+    const compiled = group.map(t => compileField(t, now))
+    const sql = compiled.length === 1 ? compiled[0].sql : `(${compiled.map(c => c.sql).join(' OR ')})`
+    where.push(group[0].negated ? `NOT (${sql})` : sql)
+    compiled.forEach(c => params.push(...c.params))
+  }
+
+  return {
+    match: matchParts.length ? matchParts.join(' AND ') : null,
+    where,
+    params,
+    textTerms
+  }
+}
@@ -0,0 +1,12 @@
+// CJK, kana and Hangul characters come out at roughly one token each
+const WIDE_CHARS = /[぀-ヿ㐀-䶿一-鿿가-힯豈-﫿]/g
+
+/**
+ * Rough token count for prompt budgeting, no tokenizer needed: about 3.6 characters per token for
+ * Latin-script text (BPE vocabularies of Llama/Gemma/Qwen), one per CJK character. Errs high.
+ */
+export function estimateTokens(text: string): number {
+  if (!text) return 0
+  const wide = (text.match(WIDE_CHARS) || []).length
+  return Math.ceil((text.length - wide) / 3.6) + wide
+}
@@ -0,0 +1,41 @@
+import path from 'path'
+
+export type NoteLinkStyle = 'wikilink' | 'markdown'
+
+/**
+ * Resolve a folder setting (relative to the vault root) for notes the app writes itself,
+ * refusing anything that would land outside the vault.
+ */
+export function resolveVaultFolder(root: string | null, configured: string | null, fallback: string): { vaultRoot: string; folder: string } {
+  if (!root) throw new Error('Select a vault folder first')
+  const vaultRoot = path.resolve(root)
+  const name = (configured || fallback).trim() || fallback
+  const folder = path.resolve(vaultRoot, name)
+  if (!isInside(vaultRoot, folder)) throw new Error(`Folder must be inside the vault: ${name}`)
+  return { vaultRoot, folder }
+}
+
+export function isInside(root: string, filePath: string): boolean {
+  const rel = path.relative(root, filePath)
+  return !rel.startsWith('..') && !path.isAbsolute(rel)
+}
+
+/**
+ * Link to a note from a note written into `fromFolder`: a vault-relative `[[target|label]]`
+ * (notes outside the vault fall back to their name) or a Markdown link relative to the folder.
+ */
+export function formatNoteLink(filePath: string, options: { vaultRoot: string; fromFolder: string; style: NoteLinkStyle; label?: string }): string {
+  const resolved = path.resolve(filePath)
+  const label = (options.label || path.basename(resolved)).replace(/\.md$/i, '')
+
+  if (options.style === 'markdown') {
+    const rel = path.relative(options.fromFolder, resolved).split(path.sep).join('/')
+    const href = encodeURI(rel).replace(/\(/g, '%28').replace(/\)/g, '%29')
+    return `[${label.replace(/[[\]]/g, '')}](${href})`
+  }
+
+  const target = isInside(options.vaultRoot, resolved)
+    ? path.relative(options.vaultRoot, resolved).split(path.sep).join('/').replace(/\.md$/i, '')
+    : label
+  return `[[${target === label ? label : `${target}|${label}`}]]`
+}
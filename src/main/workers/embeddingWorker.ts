@@ -1,28 +1,35 @@
 import { parentPort } from 'worker_threads'
-import { Ollama } from 'ollama'
+import { createProvider, LLMProvider, ProviderConfig } from '../services/providers'
 
 if (!parentPort) {
   throw new Error('embeddingWorker must be run as a worker thread')
 }
 
-const ollama = new Ollama({ host: 'http://127.0.0.1:11434' })
-
-type EmbedRequest = { type: 'embed'; requestId: string; model: string; texts: string[] }
+// Requests carry the provider config so the worker follows host/provider changes in Settings
+type EmbedRequest = { type: 'embed'; requestId: string; provider: ProviderConfig; model: string; texts: string[] }
 
 type EmbedResult = { type: 'result'; requestId: string; vectors: number[][] }
 
 type EmbedError = { type: 'error'; requestId: string; error: string }
 
+let provider: LLMProvider | null = null
+let providerKey = ''
+
+function providerFor(config: ProviderConfig): LLMProvider {
+  const key = `${config.kind}|${config.baseUrl}|${config.apiKey || ''}`
+  if (!provider || key !== providerKey) {
+    provider = createProvider(config)
+    providerKey = key
+  }
+  return provider
+}
+
+// Batches are handled concurrently; the main thread decides how many are in flight
 parentPort.on('message', async (msg: EmbedRequest) => {
   if (!msg || msg.type !== 'embed') return
   const { requestId, model, texts } = msg
   try {
-    const vectors: number[][] = []
-    for (const t of texts) {
-      const res: any = await (ollama as any).embeddings({ model, prompt: t })
-      const v: number[] = res?.embedding || res?.data?.[0]?.embedding || []
-      vectors.push(v)
-    }
+    const vectors = await providerFor(msg.provider).embed(model, texts)
     const out: EmbedResult = { type: 'result', requestId, vectors }
     parentPort!.postMessage(out)
   } catch (e: any) {
@@ -1,5 +1,14 @@
 import { contextBridge, ipcRenderer } from 'electron'
 
+interface PersonaInput {
+  name: string
+  system_prompt: string
+  length_guidance?: string | null
+  char_budget?: number | null
+  max_results?: number | null
+  per_file_cap?: number | null
+}
+
 // Define the API that will be available in the renderer process
 const electronAPI = {
   // Version info
@@ -27,21 +36,44 @@ const electronAPI = {
   dbClearAll: () => ipcRenderer.invoke('db:clearAll'),
   dbGetStats: () => ipcRenderer.invoke('db:getStats'),
   dbReindexAll: () => ipcRenderer.invoke('db:reindexAll'),
-  
+  dbGetMigrationStatus: () => ipcRenderer.invoke('db:getMigrationStatus'),
+
+  // Wikilinks
+  linksGetBacklinks: (filePath: string) => ipcRenderer.invoke('links:getBacklinks', filePath),
+  linksGetOutgoing: (filePath: string) => ipcRenderer.invoke('links:getOutgoing', filePath),
+  linksGetUnresolved: (limit?: number) => ipcRenderer.invoke('links:getUnresolved', limit),
+
+  // Tags
+  tagsList: () => ipcRenderer.invoke('tags:list'),
+  tagsGetFiles: (tag: string, limit?: number) => ipcRenderer.invoke('tags:getFiles', tag, limit),
+
+  // Frontmatter properties
+  propertiesQuery: (filters: string | string[], options?: { sort?: string; order?: 'asc' | 'desc'; limit?: number }) =>
+    ipcRenderer.invoke('properties:query', filters, options),
+  propertiesListKeys: () => ipcRenderer.invoke('properties:listKeys'),
+
   // Settings operations
   settingsGet: (key: string) => ipcRenderer.invoke('settings:get', key),
   settingsSet: (key: string, value: string) => ipcRenderer.invoke('settings:set', key, value),
   
   // RAG/Content search
-  searchContent: (query: string, limit?: number) => ipcRenderer.invoke('content:search', query, limit),
+  searchContent: (query: string, limit?: number, tag?: string) => ipcRenderer.invoke('content:search', query, limit, tag),
+  contentSemanticSearch: (query: string, limit?: number, model?: string) =>
+    ipcRenderer.invoke('content:semanticSearch', query, limit, model),
   contentSearchAndAnswer: (query: string, chatId?: number) => 
     ipcRenderer.invoke('content:searchAndAnswer', query, chatId),
-  contentStreamSearchAndAnswer: (query: string, chatId?: number) =>
-    ipcRenderer.invoke('content:streamSearchAndAnswer', query, chatId),
+  contentStreamSearchAndAnswer: (query: string, chatId?: number, options?: { tag?: string }) =>
+    ipcRenderer.invoke('content:streamSearchAndAnswer', query, chatId, options),
+  contentStreamSearchAndAnswerWithContext: (query: string, chatId: number | undefined, pinnedPaths: string[], options?: { tag?: string }) =>
+    ipcRenderer.invoke('content:streamSearchAndAnswerWithContext', query, chatId, pinnedPaths, options),
+  contentCancelStream: () => ipcRenderer.invoke('content:cancelStream'),
   // Embeddings
   embeddingsRebuildAll: (model?: string) => ipcRenderer.invoke('embeddings:rebuildAll', model),
   embeddingsGetStats: (model?: string) => ipcRenderer.invoke('embeddings:getStats', model),
-  onEmbeddingsProgress: (cb: (payload: { total?: number; embedded?: number; model?: string; status?: string; error?: string }) => void) => {
+  embeddingsGetModels: () => ipcRenderer.invoke('embeddings:getModels'),
+  embeddingsSetModel: (model: string) => ipcRenderer.invoke('embeddings:setModel', model),
+  embeddingsPrune: (model?: string) => ipcRenderer.invoke('embeddings:prune', model),
+  onEmbeddingsProgress: (cb: (payload: { total?: number; embedded?: number; model?: string; status?: string; error?: string; chunksPerSecond?: number | null; etaSeconds?: number | null }) => void) => {
     const handler = (_: any, payload: any) => cb(payload)
     ipcRenderer.on('embeddings:progress', handler)
     return () => ipcRenderer.removeListener('embeddings:progress', handler)
@@ -51,7 +83,7 @@ const electronAPI = {
     ipcRenderer.on('content:streamChunk', handler)
     return () => ipcRenderer.removeListener('content:streamChunk', handler)
   },
-  onContentStreamDone: (cb: (payload: { answer: string; sources: any[] }) => void) => {
+  onContentStreamDone: (cb: (payload: { answer: string; sources: any[]; cancelled?: boolean }) => void) => {
     const handler = (_: any, payload: any) => cb(payload)
     ipcRenderer.on('content:streamDone', handler)
     return () => ipcRenderer.removeListener('content:streamDone', handler)
@@ -66,12 +98,20 @@ const electronAPI = {
   llmGetRecommendedModel: () => ipcRenderer.invoke('llm:getRecommendedModel'),
   llmGetAvailableModels: () => ipcRenderer.invoke('llm:getAvailableModels'),
   llmSwitchModel: (modelName: string) => ipcRenderer.invoke('llm:switchModel', modelName),
+  llmGetModelInfo: (modelName: string) => ipcRenderer.invoke('llm:getModelInfo', modelName),
+  llmGetContextWindow: () => ipcRenderer.invoke('llm:getContextWindow'),
+  llmListModelDetails: () => ipcRenderer.invoke('llm:listModelDetails'),
+  llmPullModel: (modelName: string) => ipcRenderer.invoke('llm:pullModel', modelName),
+  llmDeleteModel: (modelName: string) => ipcRenderer.invoke('llm:deleteModel', modelName),
+  llmGetProvider: () => ipcRenderer.invoke('llm:getProvider'),
+  llmSetProvider: (config: { kind: 'ollama' | 'openai'; baseUrl?: string; apiKey?: string | null }) =>
+    ipcRenderer.invoke('llm:setProvider', config),
   
   // LLM events
   onLLMDownloadProgress: (callback: (data: any) => void) => {
-    const unsubscribe = () => ipcRenderer.removeAllListeners('llm:downloadProgress')
-    ipcRenderer.on('llm:downloadProgress', (_, data) => callback(data))
-    return unsubscribe
+    const handler = (_: any, data: any) => callback(data)
+    ipcRenderer.on('llm:downloadProgress', handler)
+    return () => ipcRenderer.removeListener('llm:downloadProgress', handler)
   },
   
   // Chat operations
@@ -84,7 +124,31 @@ const electronAPI = {
   chatGetMessages: (chatId: number) => ipcRenderer.invoke('chat:getMessages', chatId),
   chatAddMessage: (chatId: number, role: string, content: string, metadata?: any) => 
     ipcRenderer.invoke('chat:addMessage', chatId, role, content, metadata),
+  chatSetPersona: (chatId: number, personaId: number | null) => ipcRenderer.invoke('chat:setPersona', chatId, personaId),
+  // Branches: edits and regenerated answers become siblings; switching returns the active branch
+  chatEditMessage: (messageId: number, content: string) => ipcRenderer.invoke('chat:editMessage', messageId, content),
+  chatRegenerate: (messageId: number, options?: { model?: string; pinnedPaths?: string[] }) =>
+    ipcRenderer.invoke('chat:regenerate', messageId, options),
+  chatSwitchBranch: (messageId: number, direction: number) => ipcRenderer.invoke('chat:switchBranch', messageId, direction),
+  chatSelectBranch: (messageId: number) => ipcRenderer.invoke('chat:selectBranch', messageId),
+  chatSearch: (query: string, limit?: number) => ipcRenderer.invoke('chat:search', query, limit),
+  // Export chats as Markdown notes into the vault (folder from the chatExportFolder setting)
+  chatExport: (chatId: number) => ipcRenderer.invoke('chat:export', chatId),
+  chatExportAll: () => ipcRenderer.invoke('chat:exportAll'),
+
+  // Personas (system prompt, length guidance and retrieval knobs per chat)
+  personaList: () => ipcRenderer.invoke('persona:list'),
+  personaCreate: (input: PersonaInput) => ipcRenderer.invoke('persona:create', input),
+  personaUpdate: (id: number, input: PersonaInput) => ipcRenderer.invoke('persona:update', id, input),
+  personaDelete: (id: number) => ipcRenderer.invoke('persona:delete', id),
 
+  // Weekly/monthly reviews of dated notes; `which` is the current or the last finished period
+  digestGenerate: (kind: 'week' | 'month', which?: 'current' | 'previous') => ipcRenderer.invoke('digest:generate', kind, which),
+  onDigestProgress: (cb: (payload: { stage: string; done: number; total: number; label: string }) => void) => {
+    const handler = (_: any, payload: any) => cb(payload)
+    ipcRenderer.on('digest:progress', handler)
+    return () => ipcRenderer.removeListener('digest:progress', handler)
+  },
   
   // License operations removed - now handled in renderer process only
   
@@ -96,6 +160,12 @@ const electronAPI = {
     const handler = (_: any, payload: any) => callback(payload)
     ipcRenderer.on('settings:changed', handler)
     return () => ipcRenderer.removeListener('settings:changed', handler)
+  },
+  // A note was (re)indexed or removed from the index, links included
+  onFileIndexed: (callback: (payload: { path: string; deleted?: boolean }) => void) => {
+    const handler = (_: any, payload: any) => callback(payload)
+    ipcRenderer.on('file:indexed', handler)
+    return () => ipcRenderer.removeListener('file:indexed', handler)
   }
 }
 
@@ -1,7 +1,9 @@
 import React, { useState, useEffect, useRef, useCallback } from 'react'
 import { MonacoEditor, MarkdownPreview } from './components/Editor'
+import type { RevealRequest } from './components/Editor'
 import EditorPane from './components/Layout/EditorPane'
 import Sidebar from './components/Layout/Sidebar'
+import BacklinksPanel from './components/Layout/BacklinksPanel'
 import { FileTree } from './components/FileTree'
 
 import Settings from './components/Settings'
@@ -15,7 +17,73 @@ interface ChatMessage {
   content: string
   role: 'user' | 'assistant'
   timestamp: Date
-  sources?: Array<{ file_name: string; file_path: string; snippet: string }>
+  sources?: SourceCitation[]
+  truncated?: boolean
+  model?: string
+  // Database id; messages still streaming in have none yet
+  dbId?: number
+  // Edits and regenerated answers are siblings; arrows flip between them
+  siblingIndex?: number
+  siblingCount?: number
+}
+
+// Stored chat message (active branch) → UI message; metadata carries sources, model and truncation
+const toChatMessage = (msg: any): ChatMessage => {
+  let meta: any = null
+  try { meta = msg.metadata ? JSON.parse(msg.metadata) : null } catch {}
+  return {
+    id: msg.id.toString(),
+    dbId: msg.id,
+    content: msg.content,
+    role: msg.role as 'user' | 'assistant',
+    timestamp: new Date(msg.created_at),
+    sources: meta?.sources || [],
+    truncated: !!meta?.truncated,
+    model: meta?.model || undefined,
+    siblingIndex: msg.sibling_index ?? 0,
+    siblingCount: msg.sibling_count ?? 1
+  }
+}
+
+// Mirrors ChatSearchHit in the main process database
+interface ChatSearchHit {
+  message_id: number
+  chat_id: number
+  chat_title: string
+  role: 'user' | 'assistant' | 'system'
+  snippet: string
+  created_at: string
+}
+
+// FTS snippets mark matches with <mark>; render them as elements rather than raw HTML
+const renderMarkedSnippet = (snippet: string) =>
+  snippet.split(/(<mark>.*?<\/mark>)/g).map((part, i) =>
+    part.startsWith('<mark>') ? <mark key={i}>{part.slice(6, -7)}</mark> : <React.Fragment key={i}>{part}</React.Fragment>
+  )
+
+// Mirrors SourceCitation in the main process contentService
+interface SourceCitation {
+  citation?: number
+  origin?: 'pin' | 'search'
+  file_name: string
+  file_path: string
+  snippet: string
+  chunk_id?: number
+  heading_path?: string | null
+  char_start?: number | null
+  char_end?: number | null
+  start_line?: number | null
+  end_line?: number | null
+  truncated?: boolean
+}
+
+// Turn the model's [n] markers into clickable references (only for numbers that exist)
+const linkCitations = (markdown: string, sources?: SourceCitation[]): string => {
+  if (!sources || sources.length === 0) return markdown
+  return markdown.replace(/\[(\d{1,2})\](?!\()/g, (m, n) => {
+    const num = parseInt(n)
+    return num >= 1 && num <= sources.length ? `<sup class="citation-ref" data-citation="${num}">[${num}]</sup>` : m
+  })
 }
 
 interface EditorTab {
@@ -33,6 +101,7 @@ const App: React.FC = () => {
   // Status indicators for header
   const [embeddingStats, setEmbeddingStats] = useState<{ embedded: number; total: number; isBuilding: boolean }>({ embedded: 0, total: 0, isBuilding: false })
   const [ollamaStatus, setOllamaStatus] = useState<{ connected: boolean; model: string | null }>({ connected: false, model: null })
+  const [dbMigrationError, setDbMigrationError] = useState<{ error: string; backupPath: string | null } | null>(null)
   
   // License management
   const { licenseStatus, isLoading: licenseLoading, isLicensed, validateNewLicense } = useLicenseCheck()
@@ -44,6 +113,7 @@ const App: React.FC = () => {
   // Tab management
   const [tabs, setTabs] = useState<EditorTab[]>([])
   const [activeTabId, setActiveTabId] = useState<string>('')
+  const [revealRequest, setRevealRequest] = useState<RevealRequest | null>(null)
   
   const [rootDirectory, setRootDirectory] = useState<string | null>(null)
   
@@ -62,10 +132,18 @@ const App: React.FC = () => {
   // Chat state
   const [allChats, setAllChats] = useState<any[]>([])
   const [activeChat, setActiveChat] = useState<any>(null)
+  const [personas, setPersonas] = useState<Array<{ id: number; name: string }>>([])
   const [chatMessages, setChatMessages] = useState<ChatMessage[]>([])
   const [chatInput, setChatInput] = useState('')
   const [isAiThinking, setIsAiThinking] = useState(false)
   const [showChatDropdown, setShowChatDropdown] = useState(false)
+  // Chat history search in the dropdown; a picked hit is scrolled to and flashed
+  const [chatSearchQuery, setChatSearchQuery] = useState('')
+  const [chatSearchHits, setChatSearchHits] = useState<ChatSearchHit[]>([])
+  const [highlightMessageId, setHighlightMessageId] = useState<string | null>(null)
+  // Inline edit of a user message (saved as a new branch)
+  const [editingMessageId, setEditingMessageId] = useState<string | null>(null)
+  const [editDraft, setEditDraft] = useState('')
   const [availableModels, setAvailableModels] = useState<string[]>([])
   const [currentModelName, setCurrentModelName] = useState<string | null>(null)
   // Context injection for AI
@@ -108,6 +186,15 @@ const App: React.FC = () => {
     }
   }, [])
 
+  // A failed schema migration leaves the database closed (never recreated); tell the user why
+  useEffect(() => {
+    window.electronAPI.dbGetMigrationStatus?.()
+      .then((status: any) => {
+        if (status?.error) setDbMigrationError({ error: status.error, backupPath: status.backupPath || null })
+      })
+      .catch(() => {})
+  }, [])
+
   // Initialize theme on app load
   useEffect(() => {
     const initializeTheme = async () => {
@@ -268,8 +355,8 @@ const App: React.FC = () => {
       })
     })
     
-    const offDone = window.electronAPI.onContentStreamDone?.(async ({ answer, sources }) => {
-      console.log('✅ [App] Stream done. Persisting assistant message...')
+    const offDone = window.electronAPI.onContentStreamDone?.(async ({ answer, sources, cancelled }) => {
+      console.log(cancelled ? '⏹️ [App] Stream stopped early' : '✅ [App] Stream done. Persisting assistant message...')
       
       // Get the chat ID that started the stream
       const streamChatId = (window as any).__isla_current_stream_chat_id
@@ -280,7 +367,7 @@ const App: React.FC = () => {
         setChatMessages(prev => {
           const last = prev[prev.length-1]
           if (last && last.role === 'assistant') {
-            const updated = { ...last, content: answer, sources }
+            const updated = { ...last, content: answer, sources, truncated: !!cancelled }
             return [...prev.slice(0,-1), updated as any]
           }
           return prev
@@ -288,28 +375,18 @@ const App: React.FC = () => {
       }
       setIsAiThinking(false)
       
-      // CRITICAL: Always persist to the original chat that started the stream
+      // The main process persists the answer (with its retrieval context) before signalling done
       try {
         if (streamChatId && answer) {
-          console.log('💾 [App] Saving assistant message to original chat:', streamChatId)
-          await window.electronAPI.chatAddMessage(streamChatId, 'assistant', answer, JSON.stringify({ sources }))
-          console.log('✅ [App] Assistant message saved successfully')
-          
           // Only refresh UI if we're still viewing the same chat
           if (currentChatId === streamChatId) {
             const refreshedMessages = await window.electronAPI.chatGetMessages(streamChatId)
             console.log('📚 [App] Refreshed', refreshedMessages.length, 'messages from storage')
-            setChatMessages(refreshedMessages.map(msg => ({
-              id: msg.id.toString(),
-              content: msg.content,
-              role: msg.role as 'user' | 'assistant',
-              timestamp: new Date(msg.created_at),
-              sources: (()=>{ try { const m = msg.metadata && JSON.parse(msg.metadata); return m?.sources || [] } catch { return [] } })()
-            })))
+            setChatMessages(refreshedMessages.map(toChatMessage))
           }
         }
       } catch (e) { 
-        console.error('❌ [App] CRITICAL: Failed to persist assistant message:', e)
+        console.error('❌ [App] Failed to refresh messages after stream:', e)
       }
       
       // Clear the stream chat tracking
@@ -491,6 +568,7 @@ const App: React.FC = () => {
         // Load chats
         const chats = await window.electronAPI.chatGetAll?.()
         setAllChats(chats)
+        loadPersonas()
 
         // Load LLM models and current model
         try {
@@ -507,13 +585,7 @@ const App: React.FC = () => {
         if (activeChat) {
           setActiveChat(activeChat)
           const messages = await window.electronAPI.chatGetMessages(activeChat.id)
-          setChatMessages(messages.map(msg => ({
-            id: msg.id.toString(),
-            content: msg.content,
-            role: msg.role as 'user' | 'assistant',
-            timestamp: new Date(msg.created_at),
-            sources: (()=>{ try { const m = msg.metadata && JSON.parse(msg.metadata); return m?.sources || [] } catch { return [] } })()
-          })))
+          setChatMessages(messages.map(toChatMessage))
         }
         // No automatic chat creation - user can create chats when needed
         
@@ -621,6 +693,40 @@ const App: React.FC = () => {
     return () => clearTimeout(timeoutId)
   }, [activeTab?.content, activeTab?.hasUnsavedChanges])
 
+  // Search chat history as the user types in the dropdown
+  useEffect(() => {
+    const query = chatSearchQuery.trim()
+    if (!query) {
+      setChatSearchHits([])
+      return
+    }
+    const timeoutId = setTimeout(async () => {
+      try {
+        const hits = await window.electronAPI.chatSearch?.(query, 30)
+        setChatSearchHits(Array.isArray(hits) ? hits : [])
+      } catch (error) {
+        console.error('❌ [App] Chat search failed:', error)
+        setChatSearchHits([])
+      }
+    }, 200)
+    return () => clearTimeout(timeoutId)
+  }, [chatSearchQuery])
+
+  // Scroll to a message picked from chat search once its chat has rendered (after the bottom auto-scroll)
+  useEffect(() => {
+    if (!highlightMessageId) return
+    if (!chatMessages.some(m => m.id === highlightMessageId)) return
+    const scrollId = setTimeout(() => {
+      const el = chatMessagesRef.current?.querySelector(`[data-message-id="${highlightMessageId}"]`)
+      el?.scrollIntoView({ block: 'center' })
+    }, 60)
+    const clearId = setTimeout(() => setHighlightMessageId(null), 2500)
+    return () => {
+      clearTimeout(scrollId)
+      clearTimeout(clearId)
+    }
+  }, [chatMessages, highlightMessageId])
+
   // Close dropdown when clicking outside
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
@@ -645,6 +751,20 @@ const App: React.FC = () => {
     }
   }
 
+  // Open a cited note and ask the editor to scroll to and highlight the cited range
+  const openCitation = async (src: SourceCitation) => {
+    await handleFileSelect(src.file_path, src.file_name)
+    // Applied by the editor once it shows the note, whether it was already open or not
+    setRevealRequest({
+      id: Date.now(),
+      path: src.file_path,
+      charStart: src.char_start ?? null,
+      charEnd: src.char_end ?? null,
+      startLine: src.start_line ?? null,
+      endLine: src.end_line ?? null
+    })
+  }
+
   const handleFileSelect = async (filePath: string, fileName: string) => {
     try {
       console.log('📂 [App] Loading file (may be slow for iCloud):', fileName)
@@ -698,6 +818,14 @@ const App: React.FC = () => {
     }
   }
 
+  const handleStopStreaming = async () => {
+    try {
+      await window.electronAPI.contentCancelStream?.()
+    } catch (error) {
+      console.error('❌ [App] Failed to stop answer stream:', error)
+    }
+  }
+
   const handleSendMessage = async () => {
     if (!chatInput.trim() || isAiThinking || !activeChat) return
 
@@ -729,12 +857,13 @@ const App: React.FC = () => {
       
       // Save user message to database FIRST
       console.log('💾 [App] Saving user message to chat:', activeChat.id)
-      await window.electronAPI.chatAddMessage?.(activeChat.id, 'user', userContent)
+      const savedMessage = await window.electronAPI.chatAddMessage?.(activeChat.id, 'user', userContent)
       console.log('✅ [App] User message saved')
       
       // Add user message to UI immediately
       const userMessage = {
-        id: Date.now().toString(),
+        id: savedMessage?.id ? String(savedMessage.id) : Date.now().toString(),
+        dbId: savedMessage?.id,
         content: userContent,
         role: 'user' as const,
         timestamp: new Date()
@@ -762,10 +891,85 @@ const App: React.FC = () => {
     }
   }
 
+  // Answer a stored question again (optionally with another model); `keep` is the branch up to it
+  const regenerateFrom = async (questionId: number, keep: ChatMessage[], model?: string) => {
+    if (!activeChat || isAiThinking) return
+    setChatMessages(keep)
+    setIsAiThinking(true)
+    ;(window as any).__isla_current_stream_chat_id = activeChat.id
+    try {
+      await window.electronAPI.chatRegenerate?.(questionId, { model, pinnedPaths: contextSelections.map(c => c.path) })
+    } catch (error) {
+      console.error('❌ [App] Failed to regenerate answer:', error)
+      ;(window as any).__isla_current_stream_chat_id = null
+      // The main process went back to the previous branch; show it again
+      try {
+        const messages = await window.electronAPI.chatGetMessages?.(activeChat.id)
+        if (Array.isArray(messages)) setChatMessages(messages.map(toChatMessage))
+      } catch {}
+    } finally {
+      setIsAiThinking(false)
+    }
+  }
+
+  const regenerateAnswer = async (message: ChatMessage, model?: string) => {
+    const index = chatMessages.findIndex(m => m.id === message.id)
+    const question = chatMessages[index - 1]
+    if (index < 1 || !question?.dbId || question.role !== 'user') return
+    await regenerateFrom(question.dbId, chatMessages.slice(0, index), model)
+  }
+
+  const saveMessageEdit = async (message: ChatMessage) => {
+    const content = editDraft.trim()
+    setEditingMessageId(null)
+    if (!message.dbId || !content || content === message.content) return
+    try {
+      const saved = await window.electronAPI.chatEditMessage?.(message.dbId, content)
+      if (!saved) return
+      const index = chatMessages.findIndex(m => m.id === message.id)
+      const count = (message.siblingCount ?? 1) + 1
+      const edited = toChatMessage({ ...saved, sibling_index: count - 1, sibling_count: count })
+      await regenerateFrom(saved.id, [...chatMessages.slice(0, index), edited])
+    } catch (error) {
+      console.error('❌ [App] Failed to edit message:', error)
+    }
+  }
+
+  const switchBranch = async (message: ChatMessage, direction: number) => {
+    if (!message.dbId || isAiThinking) return
+    try {
+      const messages = await window.electronAPI.chatSwitchBranch?.(message.dbId, direction)
+      if (Array.isArray(messages)) setChatMessages(messages.map(toChatMessage))
+    } catch (error) {
+      console.error('❌ [App] Failed to switch branch:', error)
+    }
+  }
+
   const formatTime = (date: Date) => {
     return date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
   }
 
+  const loadPersonas = async () => {
+    try {
+      const list = await window.electronAPI.personaList?.()
+      if (Array.isArray(list)) setPersonas(list)
+    } catch (error) {
+      console.error('❌ [App] Failed to load personas:', error)
+    }
+  }
+
+  // A chat without a persona answers with the built-in prompt
+  const changeChatPersona = async (personaId: number | null) => {
+    if (!activeChat) return
+    try {
+      await window.electronAPI.chatSetPersona?.(activeChat.id, personaId)
+      setActiveChat((prev: any) => prev && prev.id === activeChat.id ? { ...prev, persona_id: personaId } : prev)
+      setAllChats(prev => prev.map(c => c.id === activeChat.id ? { ...c, persona_id: personaId } : c))
+    } catch (error) {
+      console.error('❌ [App] Failed to set chat persona:', error)
+    }
+  }
+
   // Chat management functions
   const createNewChat = async (title?: string) => {
     try {
@@ -819,13 +1023,7 @@ const App: React.FC = () => {
         
         // Load messages for this chat
         const messages = await window.electronAPI.chatGetMessages?.(chatId)
-        setChatMessages(messages.map(msg => ({
-          id: msg.id.toString(),
-          content: msg.content,
-          role: msg.role as 'user' | 'assistant',
-          timestamp: new Date(msg.created_at),
-          sources: (()=>{ try { const m = msg.metadata && JSON.parse(msg.metadata); return m?.sources || [] } catch { return [] } })()
-        })))
+        setChatMessages(messages.map(toChatMessage))
         console.log('📚 [App] Loaded', messages.length, 'messages for chat')
       } else {
         console.error('❌ [App] Chat not found after switch:', chatId)
@@ -854,6 +1052,40 @@ const App: React.FC = () => {
     }
   }
 
+  const openChatSearchHit = async (hit: ChatSearchHit) => {
+    setShowChatDropdown(false)
+    setChatSearchQuery('')
+    setHighlightMessageId(String(hit.message_id))
+    if (activeChat?.id !== hit.chat_id) await switchToChat(hit.chat_id)
+    // A hit on another branch of the chat brings that branch up
+    try {
+      const branch = await window.electronAPI.chatGetMessages?.(hit.chat_id)
+      if (Array.isArray(branch) && !branch.some((m: any) => m.id === hit.message_id)) {
+        const messages = await window.electronAPI.chatSelectBranch?.(hit.message_id)
+        if (Array.isArray(messages)) setChatMessages(messages.map(toChatMessage))
+      }
+    } catch (error) {
+      console.error('❌ [App] Failed to open chat search hit:', error)
+    }
+  }
+
+  // Writes the chat(s) as notes into the vault; the main process indexes them like any other note
+  const exportChats = async (chatId?: number) => {
+    setShowChatDropdown(false)
+    try {
+      if (chatId) {
+        const result = await window.electronAPI.chatExport?.(chatId)
+        if (result?.path) alert(`Chat exported to ${result.path}`)
+      } else {
+        const results = await window.electronAPI.chatExportAll?.()
+        alert(`Exported ${Array.isArray(results) ? results.length : 0} chat(s) to the vault`)
+      }
+    } catch (error: any) {
+      console.error('❌ [App] Failed to export chat:', error)
+      alert('Chat export failed: ' + (error?.message || error))
+    }
+  }
+
   const renameChat = async (chatId: number, currentTitle: string) => {
     console.log('🔧 [App] Rename clicked for chat:', chatId, currentTitle)
     setRenamingChat({ id: chatId, title: currentTitle })
@@ -1073,6 +1305,17 @@ const App: React.FC = () => {
     }
   }
 
+  // Pin a suggested note to the chat context and drop the '@query' that found it
+  const pinContextFile = (file: { path: string; name: string }) => {
+    setContextSelections(prev => prev.some(p => p.path === file.path) ? prev : [...prev, file])
+    setChatInput(prev => {
+      const atIndex = prev.lastIndexOf('@')
+      return atIndex >= 0 ? prev.slice(0, atIndex).trimEnd() : prev
+    })
+    setFileSuggestions([])
+    setShowSuggestions(false)
+  }
+
   // Suggestion search when typing '@'
   useEffect(() => {
     const atIndex = chatInput.lastIndexOf('@')
@@ -1109,6 +1352,15 @@ const App: React.FC = () => {
 
   return (
     <div className="app">
+      {dbMigrationError && (
+        <div className="db-error-banner" role="alert">
+          <strong>Database upgrade failed.</strong> Your notes and chats were not modified.{' '}
+          <span className="db-error-detail">{dbMigrationError.error}</span>
+          {dbMigrationError.backupPath && (
+            <span className="db-error-detail"> Backup: {dbMigrationError.backupPath}</span>
+          )}
+        </div>
+      )}
       {/* Only show main app if licensed */}
       {!licenseLoading && isLicensed && (
         <>
@@ -1280,6 +1532,8 @@ const App: React.FC = () => {
             activeTab={activeTab || null}
             theme={currentTheme}
             onChange={handleEditorChange}
+            reveal={revealRequest}
+            onRevealed={(id) => setRevealRequest(prev => (prev?.id === id ? null : prev))}
             onNewEditor={() => {
               const newTab = { id: `untitled-${Date.now()}`, name: 'Untitled', path: null, content: '', hasUnsavedChanges: false }
               setTabs(prev => [...prev, newTab as any]); setActiveTabId((newTab as any).id)
@@ -1318,6 +1572,8 @@ const App: React.FC = () => {
             }}
           />
 
+          <BacklinksPanel filePath={activeTab?.path || null} onOpenFile={handleFileSelect} />
+
         </div>
 
         {/* Right Panel - AI Chat */}
@@ -1356,7 +1612,38 @@ const App: React.FC = () => {
                     
                     {showChatDropdown && (
                       <div className="chat-dropdown">
-                        {allChats.map((chat) => (
+                        <div className="chat-search">
+                          <input
+                            className="chat-search-input"
+                            value={chatSearchQuery}
+                            onChange={(e) => setChatSearchQuery(e.target.value)}
+                            onKeyDown={(e) => {
+                              if (e.key === 'Escape') setChatSearchQuery('')
+                              if (e.key === 'Enter' && chatSearchHits[0]) openChatSearchHit(chatSearchHits[0])
+                            }}
+                            placeholder="Search chats…"
+                            autoFocus
+                          />
+                        </div>
+                        {chatSearchQuery.trim() && (
+                          <>
+                            {chatSearchHits.map(hit => (
+                              <div key={hit.message_id} className="chat-dropdown-item chat-search-hit" onClick={() => openChatSearchHit(hit)}>
+                                <div className="chat-item-main">
+                                  <span className="chat-item-title">{hit.chat_title}</span>
+                                  <span className="chat-search-snippet">
+                                    {hit.role === 'user' ? 'You: ' : ''}{renderMarkedSnippet(hit.snippet)}
+                                  </span>
+                                  <span className="chat-item-date">{new Date(hit.created_at.replace(' ', 'T') + 'Z').toLocaleString()}</span>
+                                </div>
+                              </div>
+                            ))}
+                            {chatSearchHits.length === 0 && (
+                              <div className="chat-dropdown-empty">No messages match.</div>
+                            )}
+                          </>
+                        )}
+                        {!chatSearchQuery.trim() && allChats.map((chat) => (
                           <div 
                             key={chat.id}
                             className={`chat-dropdown-item ${activeChat?.id === chat.id ? 'active' : ''}`}
@@ -1391,17 +1678,25 @@ const App: React.FC = () => {
                             </button>
                             <div className="chat-item-menu" style={{display:'none'}}>
                               <button onClick={() => renameChat(chat.id, chat.title)}>Rename</button>
+                              <button onClick={() => exportChats(chat.id)}>Export to vault</button>
                               <button className="danger" onClick={() => { if (confirm(`Delete "${chat.title}"?`)) { deleteChat(chat.id); setShowChatDropdown(false) } }}>Delete</button>
                             </div>
                           </div>
                         ))}
-                        {allChats.length === 0 && (
+                        {!chatSearchQuery.trim() && allChats.length === 0 && (
                           <div className="chat-dropdown-empty">
                             No chats yet. Create your first chat!
                           </div>
                         )}
-                        {allChats.length > 0 && (
+                        {!chatSearchQuery.trim() && allChats.length > 0 && (
                           <div className="chat-dropdown-item" style={{justifyContent:'center'}}>
+                            <button
+                              className="chat-action-btn"
+                              onClick={() => exportChats()}
+                              title="Export all chats as notes in the vault"
+                            >
+                              Export all
+                            </button>
                             <button
                               className="chat-action-btn delete-btn"
                               onClick={async () => {
@@ -1423,6 +1718,19 @@ const App: React.FC = () => {
                       </div>
                     )}
                   </div>
+
+                  <select
+                    className="persona-select"
+                    value={activeChat?.persona_id ?? ''}
+                    disabled={!activeChat}
+                    onChange={(e) => changeChatPersona(e.target.value ? parseInt(e.target.value) : null)}
+                    title="Assistant persona for this chat"
+                  >
+                    <option value="">Default</option>
+                    {personas.map(p => (
+                      <option key={p.id} value={p.id}>{p.name}</option>
+                    ))}
+                  </select>
                   
                   <button 
                     className="new-chat-btn"
@@ -1444,24 +1752,85 @@ const App: React.FC = () => {
                     {chatMessages.map((message) => (
                       <div
                         key={message.id}
-                        className={`message ${message.role === 'user' ? 'message-user' : 'message-assistant'}`}
+                        data-message-id={message.id}
+                        className={`message ${message.role === 'user' ? 'message-user' : 'message-assistant'}${message.id === highlightMessageId ? ' message-highlight' : ''}`}
                       >
                         <div className="message-timestamp">{formatTime(message.timestamp)}</div>
                         <div className="message-line">
                           <span className="message-icon">
                             {message.role === 'user' ? '>' : '<'}
                           </span>
-                          <span className="message-text">
+                          <span
+                            className="message-text"
+                            onClick={(e) => {
+                              const ref = (e.target as HTMLElement).closest?.('[data-citation]') as HTMLElement | null
+                              const src = ref && message.sources?.[parseInt(ref.dataset.citation || '0') - 1]
+                              if (src) openCitation(src)
+                            }}
+                          >
                             {message.role === 'assistant' ? (
-                              <MarkdownPreview markdown={message.content} />
+                              <MarkdownPreview markdown={linkCitations(message.content, message.sources)} />
+                            ) : editingMessageId === message.id ? (
+                              <textarea
+                                className="message-edit-input"
+                                value={editDraft}
+                                autoFocus
+                                rows={Math.min(8, Math.max(2, editDraft.split('\n').length))}
+                                onChange={(e) => setEditDraft(e.target.value)}
+                                onKeyDown={(e) => {
+                                  if (e.key === 'Enter' && !e.shiftKey) { e.preventDefault(); saveMessageEdit(message) }
+                                  if (e.key === 'Escape') setEditingMessageId(null)
+                                }}
+                              />
                             ) : (
                               message.content
                             )}
                           </span>
                         </div>
+                        {message.dbId && window.electronAPI?.chatRegenerate && (
+                          <div className="message-actions">
+                            {(message.siblingCount ?? 1) > 1 && (
+                              <span className="message-branch-nav">
+                                <button onClick={() => switchBranch(message, -1)} disabled={isAiThinking || (message.siblingIndex ?? 0) === 0} title="Previous version">‹</button>
+                                {(message.siblingIndex ?? 0) + 1}/{message.siblingCount}
+                                <button onClick={() => switchBranch(message, 1)} disabled={isAiThinking || (message.siblingIndex ?? 0) >= (message.siblingCount ?? 1) - 1} title="Next version">›</button>
+                              </span>
+                            )}
+                            {message.role === 'user' && editingMessageId !== message.id && (
+                              <button onClick={() => { setEditingMessageId(message.id); setEditDraft(message.content) }} disabled={isAiThinking} title="Edit and ask again">Edit</button>
+                            )}
+                            {message.role === 'user' && editingMessageId === message.id && (
+                              <>
+                                <button onClick={() => saveMessageEdit(message)}>Save</button>
+                                <button onClick={() => setEditingMessageId(null)}>Cancel</button>
+                              </>
+                            )}
+                            {message.role === 'assistant' && (
+                              <>
+                                {message.model && <span className="message-model">{message.model}</span>}
+                                <button onClick={() => regenerateAnswer(message)} disabled={isAiThinking} title="Regenerate with the current model">↻</button>
+                                {availableModels.length > 1 && (
+                                  <select
+                                    className="message-regenerate-model"
+                                    value=""
+                                    disabled={isAiThinking}
+                                    onChange={(e) => { if (e.target.value) regenerateAnswer(message, e.target.value) }}
+                                    title="Regenerate with another model"
+                                  >
+                                    <option value="">with…</option>
+                                    {availableModels.map(m => <option key={m} value={m}>{m}</option>)}
+                                  </select>
+                                )}
+                              </>
+                            )}
+                          </div>
+                        )}
+                        {message.role === 'assistant' && message.truncated && (
+                          <div className="message-truncated" title="The answer was stopped before it finished">Stopped early</div>
+                        )}
                         {message.role === 'assistant' && message.sources && message.sources.length > 0 && (
                           <div style={{ display:'flex', flexDirection:'column', gap:6, marginTop:8, padding:'8px 0', borderTop:'1px solid var(--border-light)' }}>
-                            {message.sources.filter(s=> (s?.file_name && s?.file_path && (s?.snippet||'').length > 40)).slice(0,6).map((src, idx) => {
+                            {message.sources.map((src, idx) => ({ src, n: src.citation || idx + 1 })).filter(({ src: s }) => (s?.file_name && s?.file_path && (s?.snippet||'').length > 40)).slice(0,6).map(({ src, n }) => {
                               // Clean filename by removing hash IDs
                                const cleanFileName = src.file_name
                                 .replace(/\s+[a-f0-9]{32,}\.md$/i, '')
@@ -1471,29 +1840,14 @@ const App: React.FC = () => {
                               
                               return (
                                 <button
-                                  key={idx}
+                                  key={n}
                                   className="source-citation"
-                                  title={src.snippet}
-                                  onClick={async ()=>{
-                                    try {
-                                      const content = await window.electronAPI.readFile?.(src.file_path)
-                                      if (activeTab) {
-                                        setTabs(prev => prev.map(tab => 
-                                          tab.id === activeTab.id 
-                                            ? { ...tab, name: cleanFileName, path: src.file_path, content, hasUnsavedChanges: false }
-                                            : tab
-                                        ))
-                                      } else {
-                                        const newTab = { id: `file-${Date.now()}`, name: cleanFileName, path: src.file_path, content, hasUnsavedChanges:false }
-                                        setTabs(prev => [...prev, newTab as any])
-                                        setActiveTabId((newTab as any).id)
-                                      }
-                                    } catch (e) {
-                                      console.error('Failed to open source file:', e)
-                                    }
+                                  title={`${src.heading_path ? `${src.heading_path}\n` : ''}${src.start_line ? `Lines ${src.start_line}–${src.end_line}\n` : ''}${src.snippet}`}
+                                  onClick={() => {
+                                    openCitation(src).catch(e => console.error('Failed to open source file:', e))
                                   }}
                                 >
-                                  📄 {cleanFileName}
+                                  [{n}] {src.origin === 'pin' ? '📌' : '📄'} {cleanFileName}{src.heading_path ? ` › ${src.heading_path.split(' > ').pop()}` : ''}{src.truncated ? ' (trimmed to fit)' : ''}
                                 </button>
                               )
                             })}
@@ -1534,6 +1888,36 @@ const App: React.FC = () => {
                   )}
                   
                   <div className="chat-input-area">
+                  {showSuggestions && fileSuggestions.length > 0 && (
+                    <div className="file-suggestions">
+                      {fileSuggestions.map(f => (
+                        <button
+                          key={f.path}
+                          className="file-suggestion"
+                          title={f.path}
+                          onClick={() => pinContextFile(f)}
+                        >
+                          📄 {f.name}
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                  {contextSelections.length > 0 && (
+                    <div className="context-chips">
+                      {contextSelections.map(c => (
+                        <span key={c.path} className="context-chip" title={`${c.path}\nAlways included in the answer's context`}>
+                          📌 {c.name}
+                          <button
+                            className="context-chip-remove"
+                            onClick={() => setContextSelections(prev => prev.filter(p => p.path !== c.path))}
+                            title="Unpin"
+                          >
+                            ×
+                          </button>
+                        </span>
+                      ))}
+                    </div>
+                  )}
                   <div className="chat-input-wrapper">
                       <textarea 
                         ref={(el) => {
@@ -1561,14 +1945,24 @@ const App: React.FC = () => {
                         disabled={isAiThinking || !activeChat}
                         rows={1}
                       />
-                      <button 
-                        onClick={handleSendMessage}
-                        disabled={!chatInput.trim() || isAiThinking || !activeChat}
-                        className="send-button"
-                        title="Send message (Enter)"
-                      >
-                        {isAiThinking ? '•••' : '▶'}
-                      </button>
+                      {isAiThinking ? (
+                        <button
+                          onClick={handleStopStreaming}
+                          className="send-button stop-button"
+                          title="Stop generating"
+                        >
+                          ■
+                        </button>
+                      ) : (
+                        <button 
+                          onClick={handleSendMessage}
+                          disabled={!chatInput.trim() || !activeChat}
+                          className="send-button"
+                          title="Send message (Enter)"
+                        >
+                          ▶
+                        </button>
+                      )}
                     </div>
                   </div>
                 </div>
@@ -1611,7 +2005,7 @@ const App: React.FC = () => {
           {/* Settings Modal */}
           <Settings
             isOpen={showSettings}
-            onClose={() => setShowSettings(false)}
+            onClose={() => { setShowSettings(false); loadPersonas() }}
             onForceLicenseScreen={forceLicenseScreenToShow}
             onOpenOllamaWizard={() => {
               setShowSettings(false)
@@ -1,7 +1,17 @@
-import React, { useRef, useEffect } from 'react'
+import React, { useRef, useEffect, useState } from 'react'
 import Editor, { OnMount, BeforeMount } from '@monaco-editor/react'
 import * as monaco from 'monaco-editor'
 
+/** A range of a note to scroll to and highlight (from a chat citation); `id` makes repeats distinct */
+export interface RevealRequest {
+  id: number
+  path: string
+  charStart: number | null
+  charEnd: number | null
+  startLine: number | null
+  endLine: number | null
+}
+
 interface MonacoEditorProps {
   value: string
   onChange: (value: string | undefined) => void
@@ -17,6 +27,9 @@ interface MonacoEditorProps {
     insertList: (type: 'bullet' | 'number' | 'check') => void
     insertCodeBlock: () => void
   }) => void
+  /** Applied once this editor shows `reveal.path`; `onRevealed` lets the owner clear it */
+  reveal?: RevealRequest | null
+  onRevealed?: (id: number) => void
 }
 
 const MonacoEditor: React.FC<MonacoEditorProps> = ({
@@ -26,9 +39,15 @@ const MonacoEditor: React.FC<MonacoEditorProps> = ({
   readOnly = false,
   theme = 'dark', // Default to dark theme
   path,
-  onReady
+  onReady,
+  reveal,
+  onRevealed
 }) => {
   const editorRef = useRef<monaco.editor.IStandaloneCodeEditor | null>(null)
+  const [mounted, setMounted] = useState(false)
+  const citationDecorations = useRef<string[]>([])
+  // Outlives the reveal request: the owner clears `reveal` as soon as it was applied
+  const citationClearTimer = useRef<ReturnType<typeof setTimeout> | null>(null)
 
   const exposeCommands = () => {
     if (!editorRef.current || !onReady) return
@@ -234,9 +253,40 @@ const MonacoEditor: React.FC<MonacoEditorProps> = ({
       }
     }
 
+    setMounted(true)
     exposeCommands()
   }
 
+  // Scroll to and highlight a cited range (sent by chat citations; see App.openCitation)
+  useEffect(() => {
+    const editor = editorRef.current
+    if (!mounted || !editor || !reveal || reveal.path !== path) return
+    const model = editor.getModel(); if (!model) return
+    let range: monaco.Range | null = null
+    if (typeof reveal.charStart === 'number' && typeof reveal.charEnd === 'number') {
+      const start = model.getPositionAt(reveal.charStart)
+      const end = model.getPositionAt(reveal.charEnd)
+      range = new monaco.Range(start.lineNumber, start.column, end.lineNumber, end.column)
+    } else if (typeof reveal.startLine === 'number') {
+      const endLine = Math.min(model.getLineCount(), reveal.endLine || reveal.startLine)
+      range = new monaco.Range(reveal.startLine, 1, endLine, model.getLineMaxColumn(endLine))
+    }
+    onRevealed?.(reveal.id)
+    if (!range) return
+    editor.revealRangeInCenter(range, monaco.editor.ScrollType.Smooth)
+    editor.setPosition(range.getStartPosition())
+    citationDecorations.current = editor.deltaDecorations(citationDecorations.current, [{ range, options: { className: 'citation-highlight' } }])
+    if (citationClearTimer.current) clearTimeout(citationClearTimer.current)
+    citationClearTimer.current = setTimeout(() => {
+      citationClearTimer.current = null
+      citationDecorations.current = editor.deltaDecorations(citationDecorations.current, [])
+    }, 4000)
+  }, [mounted, reveal, path])
+
+  useEffect(() => () => {
+    if (citationClearTimer.current) clearTimeout(citationClearTimer.current)
+  }, [])
+
   // Watch for font setting changes and update editor
   useEffect(() => {
     if (editorRef.current) {
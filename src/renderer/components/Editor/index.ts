@@ -1,2 +1,3 @@
 export { default as MonacoEditor } from './MonacoEditor'
+export type { RevealRequest } from './MonacoEditor'
 export { default as MarkdownPreview } from './MarkdownPreview'
\ No newline at end of file
@@ -27,6 +27,12 @@ interface SearchResult {
   rank: number
 }
 
+interface TagCount {
+  tag: string
+  count: number
+  ownCount: number
+}
+
 interface FileTreeProps {
   rootPath: string | null
   onFileSelect: (filePath: string, fileName: string) => void
@@ -66,6 +72,12 @@ const FileTree = forwardRef<FileTreeRef, FileTreeProps>(({ rootPath, onFileSelec
   const [searchResults, setSearchResults] = useState<SearchResult[]>([])
   const [isSearching, setIsSearching] = useState(false)
   const [showSearchResults, setShowSearchResults] = useState(false)
+  const [searchError, setSearchError] = useState<string | null>(null)
+
+  // Tag browser states
+  const [tags, setTags] = useState<TagCount[]>([])
+  const [tagsExpanded, setTagsExpanded] = useState(false)
+  const [activeTag, setActiveTag] = useState<string | null>(null)
   
   // Modal states
   const [showCreateModal, setShowCreateModal] = useState(false)
@@ -552,23 +564,57 @@ const FileTree = forwardRef<FileTreeRef, FileTreeProps>(({ rootPath, onFileSelec
 
 
 
+  // Load tag counts for the tag browser (refresh whenever the main process re-indexes a note)
+  useEffect(() => {
+    const loadTags = async () => {
+      try {
+        const list = await window.electronAPI.tagsList?.()
+        setTags(Array.isArray(list) ? list : [])
+      } catch (error) {
+        console.warn('⚠️ [FileTree] Failed to load tags:', error)
+      }
+    }
+    loadTags()
+    const off = window.electronAPI?.onFileIndexed?.(() => { loadTags() })
+    return () => { try { off && off() } catch {} }
+  }, [rootPath])
+
   // Search functionality
-  const handleSearch = async (query: string) => {
-    if (!query.trim()) {
+  const handleSearch = async (query: string, tag: string | null = activeTag) => {
+    if (!query.trim() && !tag) {
       setSearchResults([])
       setShowSearchResults(false)
+      setSearchError(null)
       return
     }
 
     setIsSearching(true)
     try {
-      const results = await window.electronAPI.searchContent?.(query, 20)
+      let results: SearchResult[]
+      if (query.trim()) {
+        results = await window.electronAPI.searchContent?.(query, 20, tag || undefined)
+      } else {
+        // Tag only: list notes carrying the tag
+        const files = await window.electronAPI.tagsGetFiles?.(tag!)
+        results = (files || []).map((f: any) => ({
+          id: f.id,
+          file_id: f.id,
+          file_path: f.path,
+          file_name: f.name,
+          content_snippet: (f.note_date || f.file_mtime || '').slice(0, 10),
+          rank: 0
+        }))
+      }
       setSearchResults(results)
       setShowSearchResults(true)
-      console.log(`🔍 [FileTree] Found ${results.length} search results for: ${query}`)
+      setSearchError(null)
+      console.log(`🔍 [FileTree] Found ${results.length} search results for: ${query}${tag ? ` (#${tag})` : ''}`)
     } catch (error) {
       console.error('❌ [FileTree] Search error:', error)
       setSearchResults([])
+      // Query syntax errors come back from the main process wrapped by IPC
+      const message = String((error as any)?.message || error)
+      setSearchError(message.replace(/^Error invoking remote method '[^']+':\s*/, '').replace(/^\w*Error:\s*/, ''))
     } finally {
       setIsSearching(false)
     }
@@ -589,9 +635,51 @@ const FileTree = forwardRef<FileTreeRef, FileTreeProps>(({ rootPath, onFileSelec
     setSearchQuery('')
     setSearchResults([])
     setShowSearchResults(false)
+    setActiveTag(null)
+    setSearchError(null)
     clearTimeout(window.searchTimeout)
   }
 
+  const selectTag = (tag: string | null) => {
+    setActiveTag(tag)
+    setShowSearchResults(true)
+    clearTimeout(window.searchTimeout)
+    handleSearch(searchQuery, tag)
+  }
+
+  const renderTagBrowser = () => {
+    if (tags.length === 0) return null
+
+    return (
+      <div className="tag-section">
+        <div className="pinned-header tag-header" onClick={() => setTagsExpanded(!tagsExpanded)}>
+          <span className="pinned-title">{tagsExpanded ? '▾' : '▸'} Tags</span>
+          <span className="pinned-count">({tags.filter(t => !t.tag.includes('/')).length})</span>
+        </div>
+        {tagsExpanded && (
+          <div className="tag-items">
+            {tags.map((t) => {
+              const depth = t.tag.split('/').length - 1
+              const label = t.tag.split('/').pop()
+              return (
+                <div
+                  key={t.tag}
+                  className={`tag-item ${activeTag === t.tag ? 'selected' : ''}`}
+                  style={{ paddingLeft: 8 + depth * 12 }}
+                  onClick={() => selectTag(activeTag === t.tag ? null : t.tag)}
+                  title={`#${t.tag} (${t.count} notes)`}
+                >
+                  <span className="tree-name">#{label}</span>
+                  <span className="tag-count">{t.count}</span>
+                </div>
+              )
+            })}
+          </div>
+        )}
+      </div>
+    )
+  }
+
   const renderTreeItems = (items: FileItem[], depth: number = 0): React.ReactNode => {
     return items.map((item) => {
       const isSelected = selectedItems.has(item.path)
@@ -722,10 +810,19 @@ const FileTree = forwardRef<FileTreeRef, FileTreeProps>(({ rootPath, onFileSelec
       )
     }
 
+    if (searchError) {
+      return (
+        <div className="search-empty search-error">
+          <p>Invalid search: {searchError}</p>
+          <small>Operators: path:, name:, tag:, before:, after:, "exact phrase", -exclude, OR</small>
+        </div>
+      )
+    }
+
     if (searchResults.length === 0) {
       return (
         <div className="search-empty">
-          <p>No results found for "{searchQuery}"</p>
+          <p>No results found for "{searchQuery || `#${activeTag}`}"</p>
           <small>Try different keywords or check spelling</small>
         </div>
       )
@@ -734,7 +831,7 @@ const FileTree = forwardRef<FileTreeRef, FileTreeProps>(({ rootPath, onFileSelec
     return (
       <div className="search-results">
         <div className="search-results-header">
-          <span>Found {searchResults.length} results for "{searchQuery}"</span>
+          <span>Found {searchResults.length} results for "{searchQuery || `#${activeTag}`}"{searchQuery && activeTag ? ` in #${activeTag}` : ''}</span>
           <button 
             className="clear-search-btn"
             onClick={clearSearch}
@@ -921,12 +1018,22 @@ const FileTree = forwardRef<FileTreeRef, FileTreeProps>(({ rootPath, onFileSelec
           <div className="search-container">
             <input
               type="text"
-              placeholder="Search in files..."
+              placeholder='Search… path: tag: before: "phrase" -exclude'
               value={searchQuery}
               onChange={handleSearchInputChange}
-              className="search-input"
+              className={`search-input ${searchError ? 'invalid' : ''}`}
+              title={'Operators: path:, name:, tag:, before:, after:, "exact phrase", -exclude, OR'}
               autoFocus
             />
+            {activeTag && (
+              <button
+                className="search-tag-chip"
+                onClick={() => selectTag(null)}
+                title="Remove tag filter"
+              >
+                #{activeTag} ✕
+              </button>
+            )}
             <button 
               className="clear-search-btn"
               onClick={clearSearch}
@@ -955,6 +1062,9 @@ const FileTree = forwardRef<FileTreeRef, FileTreeProps>(({ rootPath, onFileSelec
           <>
             {/* Pinned section - only show when not searching */}
             {renderPinnedItems()}
+
+            {/* Tag browser */}
+            {renderTagBrowser()}
             
             {/* Root directory node and children */}
             <div className="file-tree-content">
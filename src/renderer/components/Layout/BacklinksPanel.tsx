@@ -0,0 +1,96 @@
+import React, { useCallback, useEffect, useState } from 'react'
+
+interface Backlink {
+  link_id: number
+  source_path: string
+  source_name: string
+  line: number
+  context: string
+}
+
+interface OutgoingLink {
+  link_id: number
+  target: string
+  line: number
+  resolved: boolean
+}
+
+interface Props {
+  filePath: string | null
+  onOpenFile: (filePath: string, fileName: string) => void
+}
+
+const BacklinksPanel: React.FC<Props> = ({ filePath, onOpenFile }) => {
+  const [backlinks, setBacklinks] = useState<Backlink[]>([])
+  const [unresolved, setUnresolved] = useState<OutgoingLink[]>([])
+  const [collapsed, setCollapsed] = useState<boolean>(true)
+
+  const load = useCallback(async () => {
+    if (!filePath) {
+      setBacklinks([])
+      setUnresolved([])
+      return
+    }
+    try {
+      const [incoming, outgoing] = await Promise.all([
+        window.electronAPI?.linksGetBacklinks?.(filePath),
+        window.electronAPI?.linksGetOutgoing?.(filePath)
+      ])
+      setBacklinks(Array.isArray(incoming) ? incoming : [])
+      setUnresolved(Array.isArray(outgoing) ? outgoing.filter((l: OutgoingLink) => !l.resolved) : [])
+    } catch (e) {
+      console.warn('⚠️ [Backlinks] Failed to load links', e)
+    }
+  }, [filePath])
+
+  useEffect(() => { load() }, [load])
+
+  // Any note being re-indexed can add or drop links to this one
+  useEffect(() => {
+    const off = window.electronAPI?.onFileIndexed?.(() => { load() })
+    return () => { try { off && off() } catch {} }
+  }, [load])
+
+  if (!filePath) return null
+
+  return (
+    <div className={`backlinks-panel ${collapsed ? 'collapsed' : ''}`}>
+      <button className="backlinks-header" onClick={() => setCollapsed(c => !c)}>
+        <span>{collapsed ? '▸' : '▾'} Backlinks ({backlinks.length})</span>
+        {unresolved.length > 0 && (
+          <span className="backlinks-unresolved-count" title="Links in this note with no matching file">
+            {unresolved.length} unresolved
+          </span>
+        )}
+      </button>
+      {!collapsed && (
+        <div className="backlinks-body">
+          {backlinks.length === 0 && <div className="backlinks-empty">No notes link here yet</div>}
+          {backlinks.map(b => (
+            <button
+              key={b.link_id}
+              className="backlink-item"
+              onClick={() => onOpenFile(b.source_path, b.source_name)}
+              title={`${b.source_path}:${b.line}`}
+            >
+              <span className="backlink-source">{b.source_name.replace(/\.md$/i, '')}</span>
+              <span className="backlink-context">{b.context}</span>
+            </button>
+          ))}
+          {unresolved.length > 0 && (
+            <>
+              <div className="backlinks-subheader">Unresolved in this note</div>
+              {unresolved.map(l => (
+                <div key={l.link_id} className="backlink-item unresolved" title={`Line ${l.line}`}>
+                  <span className="backlink-source">[[{l.target}]]</span>
+                </div>
+              ))}
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default BacklinksPanel
@@ -1,5 +1,6 @@
 import React, { useRef, useState } from 'react'
 import { MonacoEditor } from '../Editor'
+import type { RevealRequest } from '../Editor'
 
 export interface EditorTabModel {
   id: string
@@ -21,9 +22,12 @@ interface EditorPaneProps {
   activeTabId?: string
   onSelectTab?: (tabId: string) => void
   onCloseTab?: (tabId: string) => void
+  /** Cited range to show once its note is the active tab */
+  reveal?: RevealRequest | null
+  onRevealed?: (id: number) => void
 }
 
-const EditorPane: React.FC<EditorPaneProps> = ({ activeTab, theme, onChange, onNewEditor, onRenameFile, onCommitRename, tabs = [], activeTabId, onSelectTab, onCloseTab }) => {
+const EditorPane: React.FC<EditorPaneProps> = ({ activeTab, theme, onChange, onNewEditor, onRenameFile, onCommitRename, tabs = [], activeTabId, onSelectTab, onCloseTab, reveal, onRevealed }) => {
   const [isEditingTitle, setIsEditingTitle] = useState(false)
   const [editingTitle, setEditingTitle] = useState('')
   
@@ -129,6 +133,8 @@ const EditorPane: React.FC<EditorPaneProps> = ({ activeTab, theme, onChange, onN
               path={activeTab.path || activeTab.id}
               key={activeTab.path || activeTab.id}
               onReady={(api)=>{editorApiRef.current=api}}
+              reveal={reveal}
+              onRevealed={onRevealed}
             />
           </div>
         </div>
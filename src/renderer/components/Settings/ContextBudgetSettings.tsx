@@ -0,0 +1,82 @@
+import React, { useState, useEffect } from 'react'
+
+// How much of the chat model's context window retrieved notes may fill
+const ContextBudgetSettings: React.FC<{ isOpen: boolean }> = ({ isOpen }) => {
+  const [maxTokens, setMaxTokens] = useState('8192')
+  const [fillPercent, setFillPercent] = useState('50')
+  const [active, setActive] = useState<{ model: string | null; tokens: number | null } | null>(null)
+
+  const loadWindow = async () => {
+    try {
+      setActive((await window.electronAPI.llmGetContextWindow?.()) || null)
+    } catch {}
+  }
+
+  useEffect(() => {
+    if (!isOpen) return
+    const load = async () => {
+      try {
+        setMaxTokens((await window.electronAPI.settingsGet?.('maxContextTokens')) || '8192')
+        const fraction = parseFloat((await window.electronAPI.settingsGet?.('contextFillFraction')) || '0.5')
+        setFillPercent(String(Math.round((Number.isFinite(fraction) ? fraction : 0.5) * 100)))
+      } catch (e) {
+        console.error('Failed to load context settings:', e)
+      }
+      loadWindow()
+    }
+    load()
+  }, [isOpen])
+
+  const saveMaxTokens = async () => {
+    const n = Math.min(131072, Math.max(512, parseInt(maxTokens) || 8192))
+    setMaxTokens(String(n))
+    try {
+      await window.electronAPI.settingsSet?.('maxContextTokens', String(n))
+      loadWindow()
+    } catch (e) {
+      console.error('Failed to save context setting:', e)
+    }
+  }
+
+  const saveFillPercent = async () => {
+    const n = Math.min(90, Math.max(10, parseInt(fillPercent) || 50))
+    setFillPercent(String(n))
+    try {
+      await window.electronAPI.settingsSet?.('contextFillFraction', String(n / 100))
+    } catch (e) {
+      console.error('Failed to save context setting:', e)
+    }
+  }
+
+  return (
+    <div className="settings-item">
+      <label>Context window cap (tokens) / % filled with notes:</label>
+      <input
+        className="settings-input embedding-tuning"
+        type="number"
+        min={512}
+        max={131072}
+        step={512}
+        value={maxTokens}
+        onChange={(e) => setMaxTokens(e.target.value)}
+        onBlur={saveMaxTokens}
+      />
+      <input
+        className="settings-input embedding-tuning"
+        type="number"
+        min={10}
+        max={90}
+        value={fillPercent}
+        onChange={(e) => setFillPercent(e.target.value)}
+        onBlur={saveFillPercent}
+      />
+      {active?.model && active.tokens && (
+        <div className="digest-status">
+          {active.model} runs with {active.tokens.toLocaleString()} tokens; up to {Math.round(active.tokens * (Math.min(90, Math.max(10, parseInt(fillPercent) || 50)) / 100)).toLocaleString()} go to the prompt
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default ContextBudgetSettings
@@ -0,0 +1,102 @@
+import React, { useState, useEffect } from 'react'
+
+type DigestKind = 'week' | 'month'
+type DigestWhich = 'current' | 'previous'
+
+const STAGE_LABELS: Record<string, string> = {
+  notes: 'Summarizing notes',
+  weeks: 'Reviewing weeks',
+  overview: 'Writing overview',
+  writing: 'Saving'
+}
+
+// Weekly/monthly reviews of dated notes, on demand or on a schedule while the app is open
+const DigestSettings: React.FC<{ isOpen: boolean }> = ({ isOpen }) => {
+  const [schedule, setSchedule] = useState('off')
+  const [folder, setFolder] = useState('Reviews')
+  const [busy, setBusy] = useState(false)
+  const [status, setStatus] = useState('')
+
+  useEffect(() => {
+    if (!isOpen) return
+    const load = async () => {
+      try {
+        setSchedule((await window.electronAPI.settingsGet?.('digestSchedule')) || 'off')
+        setFolder((await window.electronAPI.settingsGet?.('digestFolder')) || 'Reviews')
+      } catch (e) {
+        console.error('Failed to load digest settings:', e)
+      }
+    }
+    load()
+  }, [isOpen])
+
+  useEffect(() => {
+    const off = window.electronAPI.onDigestProgress?.((p: { stage: string; done: number; total: number; label: string }) => {
+      setStatus(`${p.label}: ${STAGE_LABELS[p.stage] || p.stage}${p.total > 1 ? ` (${p.done + 1}/${p.total})` : ''}…`)
+    })
+    return () => { try { off && off() } catch {} }
+  }, [])
+
+  const saveSetting = async (key: string, value: string) => {
+    try {
+      await window.electronAPI.settingsSet?.(key, value)
+    } catch (e) {
+      console.error('Failed to save digest setting:', e)
+    }
+  }
+
+  const generate = async (kind: DigestKind, which: DigestWhich) => {
+    setBusy(true)
+    setStatus('Starting…')
+    try {
+      const result = await window.electronAPI.digestGenerate?.(kind, which)
+      setStatus(result ? `Wrote ${result.path} (${result.noteCount} notes)` : '')
+    } catch (e: any) {
+      setStatus(`[ERROR] ${e?.message || 'Review failed'}`)
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  return (
+    <div className="settings-section">
+      <h3>Reviews</h3>
+      <div className="settings-item">
+        <label>Schedule:</label>
+        <select
+          className="settings-select"
+          value={schedule}
+          onChange={(e) => { setSchedule(e.target.value); saveSetting('digestSchedule', e.target.value) }}
+        >
+          <option value="off">Off</option>
+          <option value="weekly">Weekly (after each week)</option>
+          <option value="monthly">Monthly (after each month)</option>
+          <option value="both">Weekly and monthly</option>
+        </select>
+      </div>
+      <div className="settings-item">
+        <label>Folder in vault:</label>
+        <input
+          className="settings-input"
+          value={folder}
+          onChange={(e) => setFolder(e.target.value)}
+          onBlur={() => saveSetting('digestFolder', folder.trim() || 'Reviews')}
+          placeholder="Reviews"
+        />
+      </div>
+      <div className="settings-item">
+        <div className="storage-actions">
+          <button className="settings-btn" disabled={busy} onClick={() => generate('week', 'current')}>This week</button>
+          <button className="settings-btn" disabled={busy} onClick={() => generate('week', 'previous')}>Last week</button>
+          <button className="settings-btn" disabled={busy} onClick={() => generate('month', 'current')}>This month</button>
+          <button className="settings-btn" disabled={busy} onClick={() => generate('month', 'previous')}>Last month</button>
+        </div>
+        {status && (
+          <div className={status.startsWith('[ERROR]') ? 'validation-message' : 'digest-status'}>{status}</div>
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default DigestSettings
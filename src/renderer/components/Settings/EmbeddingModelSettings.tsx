@@ -0,0 +1,167 @@
+import React, { useState, useEffect } from 'react'
+
+interface EmbeddingModelCoverage {
+  model: string
+  embeddedCount: number
+  chunkCount: number
+  dim: number | null
+  vectorBytes: number
+}
+
+interface EmbeddingModelsOverview {
+  current: string
+  dims: Record<string, number>
+  models: EmbeddingModelCoverage[]
+}
+
+// The model notes are embedded with (independent of the chat model) and the vectors kept per model
+const EmbeddingModelSettings: React.FC<{ isOpen: boolean }> = ({ isOpen }) => {
+  const [overview, setOverview] = useState<EmbeddingModelsOverview | null>(null)
+  const [modelName, setModelName] = useState('')
+  const [batchSize, setBatchSize] = useState('64')
+  const [concurrency, setConcurrency] = useState('2')
+  const [busy, setBusy] = useState(false)
+  const [status, setStatus] = useState('')
+
+  const load = async () => {
+    try {
+      const result = await window.electronAPI.embeddingsGetModels?.()
+      if (!result) return
+      setOverview(result)
+      setModelName(result.current)
+    } catch (e) {
+      console.error('Failed to load embedding models:', e)
+    }
+  }
+
+  useEffect(() => {
+    if (!isOpen) return
+    load()
+    const loadTuning = async () => {
+      try {
+        setBatchSize((await window.electronAPI.settingsGet?.('embeddingBatchSize')) || '64')
+        setConcurrency((await window.electronAPI.settingsGet?.('embeddingConcurrency')) || '2')
+      } catch {}
+    }
+    loadTuning()
+  }, [isOpen])
+
+  // Applies from the next batch page of a running build
+  const saveTuning = async (key: string, value: string, fallback: string, max: number) => {
+    const n = Math.min(max, Math.max(1, parseInt(value) || parseInt(fallback)))
+    if (key === 'embeddingBatchSize') setBatchSize(String(n))
+    else setConcurrency(String(n))
+    try {
+      await window.electronAPI.settingsSet?.(key, String(n))
+    } catch (e) {
+      console.error('Failed to save embedding setting:', e)
+    }
+  }
+
+  // Coverage changes as a build runs; refresh when it finishes
+  useEffect(() => {
+    const off = window.electronAPI.onEmbeddingsProgress?.((payload: any) => {
+      if (payload?.status === 'done') load()
+    })
+    return () => { try { off && off() } catch {} }
+  }, [])
+
+  const applyModel = async () => {
+    const name = modelName.trim()
+    if (!name || name === overview?.current) return
+    setBusy(true)
+    setStatus(`Preparing ${name}…`)
+    try {
+      const result = await window.electronAPI.embeddingsSetModel?.(name)
+      if (result) setOverview(result)
+      setStatus(`Embedding with ${name}`)
+    } catch (e: any) {
+      setStatus(`[ERROR] ${e?.message || 'Could not use that model'}`)
+      setModelName(overview?.current || '')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const prune = async (model?: string) => {
+    const what = model ? `vectors of ${model}` : 'vectors of every model except the current one'
+    if (!confirm(`Delete the ${what}?`)) return
+    try {
+      const result = await window.electronAPI.embeddingsPrune?.(model)
+      if (result) setOverview(result)
+      setStatus('')
+    } catch (e: any) {
+      setStatus(`[ERROR] ${e?.message || 'Prune failed'}`)
+    }
+  }
+
+  if (!overview) return null
+  const stale = overview.models.filter(m => m.model !== overview.current)
+
+  return (
+    <div style={{ marginTop: 12 }}>
+      <div className="settings-item">
+        <label>Embedding model:</label>
+        <input
+          className="settings-input"
+          value={modelName}
+          onChange={(e) => setModelName(e.target.value)}
+          onKeyDown={(e) => { if (e.key === 'Enter') applyModel() }}
+          placeholder="nomic-embed-text"
+        />
+        <button className="settings-btn" disabled={busy || !modelName.trim() || modelName.trim() === overview.current} onClick={applyModel}>
+          Use
+        </button>
+      </div>
+      <div className="settings-item">
+        <label>Batch size / parallel requests:</label>
+        <input
+          className="settings-input embedding-tuning"
+          type="number"
+          min={1}
+          max={1024}
+          value={batchSize}
+          onChange={(e) => setBatchSize(e.target.value)}
+          onBlur={() => saveTuning('embeddingBatchSize', batchSize, '64', 1024)}
+        />
+        <input
+          className="settings-input embedding-tuning"
+          type="number"
+          min={1}
+          max={16}
+          value={concurrency}
+          onChange={(e) => setConcurrency(e.target.value)}
+          onBlur={() => saveTuning('embeddingConcurrency', concurrency, '2', 16)}
+        />
+      </div>
+      <div className="embedding-models">
+        {overview.models.length === 0 && (
+          <div className="embedding-model-row">No vectors stored yet</div>
+        )}
+        {overview.models.map(m => (
+          <div key={m.model} className="embedding-model-row">
+            <span className="embedding-model-name">
+              {m.model}{m.model === overview.current ? ' (current)' : ''}
+            </span>
+            <span>
+              {Math.round((m.embeddedCount / Math.max(1, m.chunkCount)) * 100)}% of chunks
+              {' • '}{m.dim || overview.dims[m.model] || '?'} dims
+              {' • '}{(m.vectorBytes / 1048576).toFixed(1)} MB
+            </span>
+            {m.model !== overview.current && (
+              <button className="settings-btn danger" onClick={() => prune(m.model)}>Prune</button>
+            )}
+          </div>
+        ))}
+      </div>
+      {stale.length > 1 && (
+        <button className="settings-btn danger" onClick={() => prune()}>Prune all old models</button>
+      )}
+      {status && (
+        <div className={status.startsWith('[ERROR]') ? 'validation-message' : 'digest-status'}>{status}</div>
+      )}
+    </div>
+  )
+}
+
+export default EmbeddingModelSettings
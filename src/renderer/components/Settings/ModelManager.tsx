@@ -0,0 +1,154 @@
+import React, { useState, useEffect } from 'react'
+
+interface ManagedModel {
+  name: string
+  sizeBytes: number | null
+  family: string | null
+  parameterSize: string | null
+  quantization: string | null
+  contextLength: number | null
+  inUse: 'chat' | 'embedding' | null
+  recommended: boolean
+  compatible: boolean
+  fitsMemory: boolean | null
+}
+
+interface ModelManagerProps {
+  isOpen: boolean
+  onUseModel: (modelName: string) => void | Promise<void>
+  /** Called after a pull or delete so the summary above can refresh */
+  onModelsChanged?: () => void
+}
+
+const formatSize = (bytes: number | null) =>
+  bytes == null ? '—' : bytes >= 1024 ** 3 ? `${(bytes / 1024 ** 3).toFixed(1)} GB` : `${Math.round(bytes / 1024 ** 2)} MB`
+
+// Installed models with what they cost on disk and how they fit this machine; pull and delete by name
+const ModelManager: React.FC<ModelManagerProps> = ({ isOpen, onUseModel, onModelsChanged }) => {
+  const [models, setModels] = useState<ManagedModel[]>([])
+  const [canPull, setCanPull] = useState(false)
+  const [canDelete, setCanDelete] = useState(false)
+  const [pullName, setPullName] = useState('')
+  const [pulling, setPulling] = useState<{ name: string; progress: number; status: string } | null>(null)
+  const [message, setMessage] = useState('')
+
+  const load = async () => {
+    try {
+      const result = await window.electronAPI.llmListModelDetails?.()
+      if (!result) return
+      setModels(result.models || [])
+      setCanPull(!!result.pull)
+      setCanDelete(!!result.delete)
+    } catch (e) {
+      console.error('Failed to list models:', e)
+      setModels([])
+    }
+  }
+
+  useEffect(() => {
+    if (isOpen) load()
+  }, [isOpen])
+
+  useEffect(() => {
+    const off = window.electronAPI.onLLMDownloadProgress?.((p: { modelName: string; progress: number; status: string }) => {
+      setPulling(prev => (prev && prev.name === p.modelName ? { ...prev, progress: p.progress, status: p.status } : prev))
+    })
+    return () => { try { off && off() } catch {} }
+  }, [])
+
+  const pull = async () => {
+    const name = pullName.trim()
+    if (!name || pulling) return
+    setPulling({ name, progress: 0, status: 'starting' })
+    setMessage('')
+    try {
+      await window.electronAPI.llmPullModel?.(name)
+      setPullName('')
+      setMessage(`[OK] Pulled ${name}`)
+      await load()
+      onModelsChanged?.()
+    } catch (e: any) {
+      setMessage(`[ERROR] ${e?.message || `Could not pull ${name}`}`)
+    } finally {
+      setPulling(null)
+    }
+  }
+
+  const remove = async (model: ManagedModel) => {
+    if (!confirm(`Delete ${model.name} (${formatSize(model.sizeBytes)}) from disk?`)) return
+    setMessage('')
+    try {
+      await window.electronAPI.llmDeleteModel?.(model.name)
+      setMessage(`[OK] Deleted ${model.name}`)
+      await load()
+      onModelsChanged?.()
+    } catch (e: any) {
+      setMessage(`[ERROR] ${e?.message || `Could not delete ${model.name}`}`)
+    }
+  }
+
+  const totalBytes = models.reduce((sum, m) => sum + (m.sizeBytes || 0), 0)
+
+  return (
+    <div className="settings-item model-manager">
+      {canPull && (
+        <div className="model-pull">
+          <input
+            className="settings-input"
+            value={pullName}
+            onChange={(e) => setPullName(e.target.value)}
+            onKeyDown={(e) => { if (e.key === 'Enter') pull() }}
+            placeholder="Model to download, e.g. llama3.2:3b"
+            disabled={!!pulling}
+          />
+          <button className="settings-btn" onClick={pull} disabled={!!pulling || !pullName.trim()}>
+            {pulling ? 'Pulling…' : 'Pull'}
+          </button>
+        </div>
+      )}
+      {pulling && (
+        <div className="model-pull-progress">
+          <div className="progress-bar">
+            <div className="progress-fill" style={{ width: `${Math.min(100, pulling.progress)}%` }}></div>
+          </div>
+          <span>{pulling.name}: {pulling.status}{pulling.progress ? ` (${pulling.progress}%)` : ''}</span>
+        </div>
+      )}
+
+      <div className="model-list">
+        {models.map(m => (
+          <div key={m.name} className="model-row">
+            <div className="model-row-main">
+              <span className="model-row-name">{m.name}</span>
+              {m.inUse && <span className="model-badge in-use">{m.inUse === 'chat' ? 'chat' : 'embeddings'}</span>}
+              {m.recommended && <span className="model-badge recommended">recommended</span>}
+              {!m.recommended && m.compatible && <span className="model-badge compatible">suits this device</span>}
+              {m.fitsMemory === false && <span className="model-badge too-large">may not fit in memory</span>}
+            </div>
+            <div className="model-row-details">
+              {[formatSize(m.sizeBytes), m.parameterSize, m.quantization, m.contextLength ? `${m.contextLength.toLocaleString()} ctx` : null, m.family]
+                .filter(Boolean).join(' • ')}
+            </div>
+            <div className="model-row-actions">
+              {!m.inUse && !/embed/i.test(m.name) && (
+                <button className="settings-btn" onClick={() => onUseModel(m.name)}>Use for chat</button>
+              )}
+              {canDelete && !m.inUse && (
+                <button className="settings-btn danger" onClick={() => remove(m)}>Delete</button>
+              )}
+            </div>
+          </div>
+        ))}
+        {models.length === 0 && <div className="model-row-details">No models installed</div>}
+      </div>
+      {models.length > 0 && (
+        <div className="model-row-details">Total on disk: {formatSize(totalBytes)}</div>
+      )}
+      {message && (
+        <div className={message.startsWith('[ERROR]') ? 'validation-message' : 'digest-status'}>{message}</div>
+      )}
+    </div>
+  )
+}
+
+export default ModelManager
@@ -0,0 +1,156 @@
+import React, { useState, useEffect } from 'react'
+
+interface Persona {
+  id: number
+  name: string
+  system_prompt: string
+  length_guidance: string | null
+  char_budget: number | null
+  max_results: number | null
+  per_file_cap: number | null
+}
+
+type PersonaDraft = {
+  name: string
+  system_prompt: string
+  length_guidance: string
+  char_budget: string
+  max_results: string
+  per_file_cap: string
+}
+
+const EMPTY_DRAFT: PersonaDraft = { name: '', system_prompt: '', length_guidance: '', char_budget: '', max_results: '', per_file_cap: '' }
+
+const toDraft = (p: Persona): PersonaDraft => ({
+  name: p.name,
+  system_prompt: p.system_prompt,
+  length_guidance: p.length_guidance || '',
+  char_budget: p.char_budget ? String(p.char_budget) : '',
+  max_results: p.max_results ? String(p.max_results) : '',
+  per_file_cap: p.per_file_cap ? String(p.per_file_cap) : ''
+})
+
+// Personas are picked per chat in the chat header; empty knobs use the global retrieval settings
+const PersonaSettings: React.FC<{ isOpen: boolean }> = ({ isOpen }) => {
+  const [personas, setPersonas] = useState<Persona[]>([])
+  const [editingId, setEditingId] = useState<number | 'new' | null>(null)
+  const [draft, setDraft] = useState<PersonaDraft>(EMPTY_DRAFT)
+  const [error, setError] = useState('')
+
+  const loadPersonas = async () => {
+    try {
+      const list = await window.electronAPI.personaList?.()
+      if (Array.isArray(list)) setPersonas(list)
+    } catch (e) {
+      console.error('Failed to load personas:', e)
+    }
+  }
+
+  useEffect(() => {
+    if (isOpen) loadPersonas()
+  }, [isOpen])
+
+  const startEdit = (persona: Persona | null) => {
+    setError('')
+    setEditingId(persona ? persona.id : 'new')
+    setDraft(persona ? toDraft(persona) : EMPTY_DRAFT)
+  }
+
+  const handleSave = async () => {
+    const input = {
+      name: draft.name.trim(),
+      system_prompt: draft.system_prompt.trim(),
+      length_guidance: draft.length_guidance.trim() || null,
+      char_budget: parseInt(draft.char_budget) || null,
+      max_results: parseInt(draft.max_results) || null,
+      per_file_cap: parseInt(draft.per_file_cap) || null
+    }
+    if (!input.name || !input.system_prompt) {
+      setError('Name and system prompt are required')
+      return
+    }
+    try {
+      if (editingId === 'new') await window.electronAPI.personaCreate?.(input)
+      else if (editingId !== null) await window.electronAPI.personaUpdate?.(editingId, input)
+      setEditingId(null)
+      await loadPersonas()
+    } catch (e: any) {
+      setError(e?.message || 'Failed to save persona')
+    }
+  }
+
+  const handleDelete = async (persona: Persona) => {
+    if (!confirm(`Delete persona "${persona.name}"? Chats using it go back to the default prompt.`)) return
+    try {
+      await window.electronAPI.personaDelete?.(persona.id)
+      if (editingId === persona.id) setEditingId(null)
+      await loadPersonas()
+    } catch (e) {
+      console.error('Failed to delete persona:', e)
+    }
+  }
+
+  const field = (key: keyof PersonaDraft) => ({
+    value: draft[key],
+    onChange: (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => setDraft(prev => ({ ...prev, [key]: e.target.value }))
+  })
+
+  return (
+    <div className="settings-section">
+      <div className="section-header">
+        <h3>Personas</h3>
+        <button className="settings-btn" onClick={() => startEdit(null)} disabled={editingId === 'new'}>
+          New Persona
+        </button>
+      </div>
+
+      <div className="settings-item">
+        <div className="persona-list">
+          {personas.length === 0 && <div className="persona-empty">No personas yet. Chats use the default prompt.</div>}
+          {personas.map(p => (
+            <div key={p.id} className="persona-row">
+              <div className="persona-row-main">
+                <span className="persona-name">{p.name}</span>
+                <span className="persona-prompt" title={p.system_prompt}>{p.system_prompt}</span>
+              </div>
+              <button className="settings-btn" onClick={() => startEdit(p)}>Edit</button>
+              <button className="settings-btn danger" onClick={() => handleDelete(p)}>Delete</button>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {editingId !== null && (
+        <div className="settings-item persona-form">
+          <label>Name</label>
+          <input className="settings-input" {...field('name')} placeholder="Journaling coach" />
+          <label>System prompt</label>
+          <textarea className="settings-input" rows={4} {...field('system_prompt')} placeholder="You are…" />
+          <label>Answer length guidance</label>
+          <input className="settings-input" {...field('length_guidance')} placeholder="Prefer 2–4 short paragraphs" />
+          <div className="persona-knobs">
+            <label>
+              Context chars
+              <input className="settings-input number" type="number" min={0} {...field('char_budget')} placeholder="default" />
+            </label>
+            <label>
+              Max sources
+              <input className="settings-input number" type="number" min={0} {...field('max_results')} placeholder="default" />
+            </label>
+            <label>
+              Per note
+              <input className="settings-input number" type="number" min={0} {...field('per_file_cap')} placeholder="default" />
+            </label>
+          </div>
+          {error && <div className="validation-message">{error}</div>}
+          <div className="storage-actions">
+            <button className="settings-btn primary" onClick={handleSave}>Save</button>
+            <button className="settings-btn" onClick={() => setEditingId(null)}>Cancel</button>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default PersonaSettings
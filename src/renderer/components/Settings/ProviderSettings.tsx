@@ -0,0 +1,104 @@
+import React, { useState, useEffect } from 'react'
+
+type ProviderKind = 'ollama' | 'openai'
+
+const URL_PLACEHOLDERS: Record<ProviderKind, string> = {
+  ollama: 'http://127.0.0.1:11434 (default)',
+  openai: 'http://127.0.0.1:8080 (llama.cpp), :1234 (LM Studio), :8000 (vLLM)'
+}
+
+// Which backend answers chats and embeds notes: Ollama or an OpenAI-compatible local server
+const ProviderSettings: React.FC<{ isOpen: boolean; onApplied?: () => void }> = ({ isOpen, onApplied }) => {
+  const [kind, setKind] = useState<ProviderKind>('ollama')
+  const [baseUrl, setBaseUrl] = useState('')
+  const [apiKey, setApiKey] = useState('')
+  const [hasApiKey, setHasApiKey] = useState(false)
+  const [busy, setBusy] = useState(false)
+  const [status, setStatus] = useState('')
+
+  useEffect(() => {
+    if (!isOpen) return
+    const load = async () => {
+      try {
+        const info = await window.electronAPI.llmGetProvider?.()
+        if (!info) return
+        setKind(info.kind)
+        setBaseUrl(info.configuredBaseUrl || '')
+        setHasApiKey(!!info.hasApiKey)
+        setApiKey('')
+        setStatus('')
+      } catch (e) {
+        console.error('Failed to load provider settings:', e)
+      }
+    }
+    load()
+  }, [isOpen])
+
+  const apply = async () => {
+    setBusy(true)
+    setStatus('Connecting…')
+    try {
+      const result = await window.electronAPI.llmSetProvider?.({ kind, baseUrl, apiKey: apiKey ? apiKey : undefined })
+      if (apiKey) setHasApiKey(true)
+      setApiKey('')
+      setStatus(result?.currentModel ? `Connected to ${result.baseUrl} · ${result.currentModel}` : `[ERROR] No model available on ${result?.baseUrl || baseUrl}`)
+      onApplied?.()
+    } catch (e: any) {
+      setStatus(`[ERROR] ${e?.message || 'Could not switch provider'}`)
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const clearApiKey = async () => {
+    try {
+      await window.electronAPI.llmSetProvider?.({ kind, baseUrl, apiKey: '' })
+      setHasApiKey(false)
+      onApplied?.()
+    } catch (e) {
+      console.error('Failed to clear API key:', e)
+    }
+  }
+
+  return (
+    <>
+      <div className="settings-item">
+        <label>Provider:</label>
+        <select className="settings-select" value={kind} onChange={(e) => setKind(e.target.value as ProviderKind)}>
+          <option value="ollama">Ollama</option>
+          <option value="openai">OpenAI-compatible server</option>
+        </select>
+      </div>
+      <div className="settings-item">
+        <label>Base URL:</label>
+        <input
+          className="settings-input"
+          value={baseUrl}
+          onChange={(e) => setBaseUrl(e.target.value)}
+          placeholder={URL_PLACEHOLDERS[kind]}
+        />
+      </div>
+      {kind === 'openai' && (
+        <div className="settings-item">
+          <label>API key (optional):</label>
+          <input
+            className="settings-input"
+            type="password"
+            value={apiKey}
+            onChange={(e) => setApiKey(e.target.value)}
+            placeholder={hasApiKey ? '•••••••• (saved)' : 'Only if the server requires one'}
+          />
+          {hasApiKey && <button className="settings-btn" onClick={clearApiKey}>Clear key</button>}
+        </div>
+      )}
+      <div className="settings-item">
+        <button className="settings-btn" disabled={busy} onClick={apply}>Apply</button>
+        {status && (
+          <div className={status.startsWith('[ERROR]') ? 'validation-message' : 'digest-status'}>{status}</div>
+        )}
+      </div>
+    </>
+  )
+}
+
+export default ProviderSettings
@@ -3,6 +3,12 @@ import './Settings.css'
 import { ValidationResult } from '../../services/licenseValidation'
 import { getLicenseDisplayType } from '../../utils/licenseUtils'
 import { useLicenseCheck } from '../../hooks/useLicenseCheck'
+import PersonaSettings from './PersonaSettings'
+import DigestSettings from './DigestSettings'
+import ProviderSettings from './ProviderSettings'
+import EmbeddingModelSettings from './EmbeddingModelSettings'
+import ModelManager from './ModelManager'
+import ContextBudgetSettings from './ContextBudgetSettings'
 
 interface DeviceSpecs {
   totalMemory: number
@@ -38,6 +44,15 @@ interface ModelStatus {
   downloadProgress: number
 }
 
+// Rough remaining time for the embeddings build, e.g. "1h 5m", "3m 20s", "45s"
+const formatDuration = (seconds: number): string => {
+  const h = Math.floor(seconds / 3600)
+  const m = Math.floor((seconds % 3600) / 60)
+  const s = Math.round(seconds % 60)
+  if (h) return `${h}h ${m}m`
+  return m ? `${m}m ${s}s` : `${s}s`
+}
+
 interface SettingsProps {
   isOpen: boolean
   onClose: () => void
@@ -52,7 +67,8 @@ const Settings: React.FC<SettingsProps> = ({ isOpen, onClose, onForceLicenseScre
   const [isClearing, setIsClearing] = useState(false)
   const [isReindexing, setIsReindexing] = useState(false)
   const [isEmbedding, setIsEmbedding] = useState(false)
-  const [embedProgress, setEmbedProgress] = useState<{ total?: number; embedded?: number; model?: string; status?: string; error?: string } | null>(null)
+  const [embedProgress, setEmbedProgress] = useState<{ total?: number; embedded?: number; model?: string; status?: string; error?: string; chunksPerSecond?: number | null; etaSeconds?: number | null } | null>(null)
+  const [embedStorage, setEmbedStorage] = useState<{ dim: number | null; vectorBytes: number; dbBytes: number; queryLatencyMs: { avg: number | null; p95: number | null; samples: number }; comparison: { before: { dbBytes: number; lookupMs: number | null }; after: { dbBytes: number; lookupMs: number | null } } | null } | null>(null)
   const [modelStatus, setModelStatus] = useState<ModelStatus>({
     currentModel: null,
     isConnected: false,
@@ -77,6 +93,8 @@ const Settings: React.FC<SettingsProps> = ({ isOpen, onClose, onForceLicenseScre
   const [ftsPerFileCap, setFtsPerFileCap] = useState<number>(2)
   const [ftsCharBudget, setFtsCharBudget] = useState<number>(2400)
   const [ftsOperator, setFtsOperator] = useState<'AND' | 'OR'>('AND')
+  const [chatExportFolder, setChatExportFolder] = useState('Chats')
+  const [chatExportLinkStyle, setChatExportLinkStyle] = useState<'wikilink' | 'markdown'>('wikilink')
 
   // Clear validation message and load database stats when modal opens
   useEffect(() => {
@@ -97,6 +115,7 @@ const Settings: React.FC<SettingsProps> = ({ isOpen, onClose, onForceLicenseScre
         const stats = await window.electronAPI.embeddingsGetStats?.()
         if (stats && typeof stats.embeddedCount === 'number') {
           setEmbedProgress({ total: stats.chunkCount, embedded: stats.embeddedCount, model: stats.model, status: 'idle' })
+          setEmbedStorage(stats.storage || null)
         }
       } catch {}
     }
@@ -135,6 +154,7 @@ const Settings: React.FC<SettingsProps> = ({ isOpen, onClose, onForceLicenseScre
       loadCurrentTheme()
       loadCurrentFontSettings()
       loadFtsSettings()
+      loadChatExportSettings()
     }
   }, [isOpen])
 
@@ -427,6 +447,25 @@ const Settings: React.FC<SettingsProps> = ({ isOpen, onClose, onForceLicenseScre
     }
   }
 
+  const loadChatExportSettings = async () => {
+    try {
+      const folder = await window.electronAPI.settingsGet?.('chatExportFolder')
+      const linkStyle = await window.electronAPI.settingsGet?.('chatExportLinkStyle')
+      setChatExportFolder(folder || 'Chats')
+      setChatExportLinkStyle(linkStyle === 'markdown' ? 'markdown' : 'wikilink')
+    } catch (e) {
+      console.error('Failed to load chat export settings:', e)
+    }
+  }
+
+  const saveChatExportSetting = async (key: 'chatExportFolder' | 'chatExportLinkStyle', value: string) => {
+    try {
+      await window.electronAPI.settingsSet?.(key, value)
+    } catch (e) {
+      console.error('Failed to save chat export setting:', e)
+    }
+  }
+
   const handleFontFamilyChange = async (newFontFamily: string) => {
     try {
       setCurrentFontFamily(newFontFamily)
@@ -628,8 +667,16 @@ const Settings: React.FC<SettingsProps> = ({ isOpen, onClose, onForceLicenseScre
                 </div>
               </div>
             </div>
+
+            <ModelManager isOpen={isOpen} onUseModel={handleModelChange} onModelsChanged={loadModelStatus} />
+
+            <ProviderSettings isOpen={isOpen} onApplied={loadModelStatus} />
+
+            <ContextBudgetSettings isOpen={isOpen} />
           </div>
 
+          <PersonaSettings isOpen={isOpen} />
+
           {/* Storage Section */}
           <div className="settings-section">
             <h3>Storage</h3>
@@ -665,7 +712,11 @@ const Settings: React.FC<SettingsProps> = ({ isOpen, onClose, onForceLicenseScre
                   ) : (
                     <div>
                       <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: '12px', color: 'var(--text-secondary)' }}>
-                        <span>Status: {embedProgress?.status || 'idle'}</span>
+                        <span>
+                          Status: {embedProgress?.status || 'idle'}
+                          {embedProgress?.chunksPerSecond ? ` • ${embedProgress.chunksPerSecond} chunks/s` : ''}
+                          {embedProgress?.etaSeconds != null ? ` • ETA ${formatDuration(embedProgress.etaSeconds)}` : ''}
+                        </span>
                         <span>
                           {(embedProgress?.embedded ?? 0).toLocaleString()} / {(embedProgress?.total ?? 0).toLocaleString()}
                         </span>
@@ -676,9 +727,20 @@ const Settings: React.FC<SettingsProps> = ({ isOpen, onClose, onForceLicenseScre
                           style={{ width: `${Math.min(100, Math.round(((embedProgress?.embedded || 0) / Math.max(1, embedProgress?.total || 0)) * 100))}%` }}
                         ></div>
                       </div>
+                      {embedStorage && (
+                        <div style={{ fontSize: '12px', color: 'var(--text-secondary)', marginTop: 6 }}>
+                          Vectors: {(embedStorage.vectorBytes / 1048576).toFixed(1)} MB{embedStorage.dim ? ` (float32 × ${embedStorage.dim})` : ''}
+                          {' • '}Database: {(embedStorage.dbBytes / 1048576).toFixed(1)} MB
+                          {embedStorage.queryLatencyMs.samples > 0 && ` • Lookup: ${embedStorage.queryLatencyMs.avg} ms avg / ${embedStorage.queryLatencyMs.p95} ms p95`}
+                          {embedStorage.comparison && ` • Migrated from JSON: ${(embedStorage.comparison.before.dbBytes / 1048576).toFixed(1)} → ${(embedStorage.comparison.after.dbBytes / 1048576).toFixed(1)} MB`}
+                          {embedStorage.comparison?.before.lookupMs != null && embedStorage.comparison.after.lookupMs != null &&
+                            `, full lookup ${embedStorage.comparison.before.lookupMs} → ${embedStorage.comparison.after.lookupMs} ms`}
+                        </div>
+                      )}
                     </div>
                   )}
                 </div>
+                <EmbeddingModelSettings isOpen={isOpen} />
               </div>
 
               <div className="storage-actions" style={{ marginTop: 12 }}>
@@ -702,6 +764,38 @@ const Settings: React.FC<SettingsProps> = ({ isOpen, onClose, onForceLicenseScre
             </div>
           </div>
 
+          {/* Chat Export Section */}
+          <div className="settings-section">
+            <h3>Chat Export</h3>
+            <div className="settings-item">
+              <label>Folder in vault:</label>
+              <input
+                className="settings-input"
+                value={chatExportFolder}
+                onChange={(e) => setChatExportFolder(e.target.value)}
+                onBlur={() => saveChatExportSetting('chatExportFolder', chatExportFolder.trim() || 'Chats')}
+                placeholder="Chats"
+              />
+            </div>
+            <div className="settings-item">
+              <label>Source links:</label>
+              <select
+                className="settings-select"
+                value={chatExportLinkStyle}
+                onChange={(e) => {
+                  const style = e.target.value === 'markdown' ? 'markdown' : 'wikilink'
+                  setChatExportLinkStyle(style)
+                  saveChatExportSetting('chatExportLinkStyle', style)
+                }}
+              >
+                <option value="wikilink">[[Wikilinks]]</option>
+                <option value="markdown">Markdown links</option>
+              </select>
+            </div>
+          </div>
+
+          <DigestSettings isOpen={isOpen} />
+
           {/* Search settings removed for simplicity; using smart defaults */}
 
 
@@ -715,6 +715,8 @@ const chatStore = {
 // Ollama via fetch
 const OLLAMA_HOST_DEFAULT = 'http://127.0.0.1:11434'
 let __resolvedOllamaHost: string | null = null
+// The answer currently streaming; aborted by contentCancelStream
+let __activeWebStream: AbortController | null = null
 
 async function probeHost(base: string): Promise<boolean> {
 	try {
@@ -779,7 +781,7 @@ async function ollamaList(host: string) {
 		return { models: [] }
 	}
 }
-async function ollamaGenerate(host: string, model: string, prompt: string, onToken?: (t:string)=>void): Promise<string> {
+async function ollamaGenerate(host: string, model: string, prompt: string, onToken?: (t:string)=>void, signal?: AbortSignal): Promise<string> {
 	let res: Response
 	try {
 		res = await fetch(`${host}/api/generate`, {
@@ -787,9 +789,11 @@ async function ollamaGenerate(host: string, model: string, prompt: string, onTok
 			headers: { 'Content-Type': 'application/json' },
 			mode: host ? 'cors' : 'same-origin',
 			credentials: 'omit',
-			body: JSON.stringify({ model, prompt, stream: !!onToken })
+			body: JSON.stringify({ model, prompt, stream: !!onToken }),
+			signal
 		})
 	} catch (err:any) {
+		if (signal?.aborted) return ''
 		throw new Error(`Ollama generate failed: network error${err?.message ? ` - ${err.message}` : ''}`)
 	}
 	if (!res.ok) {
@@ -804,18 +808,23 @@ async function ollamaGenerate(host: string, model: string, prompt: string, onTok
 	let full = ''
 	const reader = res.body!.getReader()
 	const decoder = new TextDecoder()
-	while (true) {
-		const { done, value } = await reader.read()
-		if (done) break
-		const text = decoder.decode(value, { stream: true })
-		for (const line of text.split('\n')) {
-			if (!line.trim()) continue
-			try {
-				const obj = JSON.parse(line)
-				const chunk = obj?.response || ''
-				if (chunk) { full += chunk; onToken?.(chunk) }
-			} catch {}
+	try {
+		while (true) {
+			const { done, value } = await reader.read()
+			if (done) break
+			const text = decoder.decode(value, { stream: true })
+			for (const line of text.split('\n')) {
+				if (!line.trim()) continue
+				try {
+					const obj = JSON.parse(line)
+					const chunk = obj?.response || ''
+					if (chunk) { full += chunk; onToken?.(chunk) }
+				} catch {}
+			}
 		}
+	} catch (err) {
+		// An aborted stream keeps what it received so far
+		if (!signal?.aborted) throw err
 	}
 	return full
 }
@@ -824,7 +833,7 @@ function flattenMessages(messages: Array<{role:string, content:string}>): string
 	return messages.map(m => `${m.role === 'user' ? 'User' : m.role === 'assistant' ? 'Assistant' : 'System'}: ${m.content}`).join('\n') + '\nAssistant:'
 }
 
-async function ollamaChat(host: string, model: string, messages: Array<{role:string, content:string}>, onToken?: (t:string)=>void): Promise<string> {
+async function ollamaChat(host: string, model: string, messages: Array<{role:string, content:string}>, onToken?: (t:string)=>void, signal?: AbortSignal): Promise<string> {
 	let res: Response
 	try {
 		res = await fetch(`${host}/api/chat`, {
@@ -832,17 +841,19 @@ async function ollamaChat(host: string, model: string, messages: Array<{role:str
 			headers: { 'Content-Type': 'application/json' },
 			mode: host ? 'cors' : 'same-origin',
 			credentials: 'omit',
-			body: JSON.stringify({ model, messages, stream: !!onToken })
+			body: JSON.stringify({ model, messages, stream: !!onToken }),
+			signal
 		})
 	} catch (err:any) {
+		if (signal?.aborted) return ''
 		// Network error: try generate as a fallback
 		const prompt = flattenMessages(messages)
-		return ollamaGenerate(host, model, prompt, onToken)
+		return ollamaGenerate(host, model, prompt, onToken, signal)
 	}
 	if (res.status === 404 || res.status === 405) {
 		// Older Ollama without /api/chat
 		const prompt = flattenMessages(messages)
-		return ollamaGenerate(host, model, prompt, onToken)
+		return ollamaGenerate(host, model, prompt, onToken, signal)
 	}
 	if (!res.ok) {
 		let body = ''
@@ -850,7 +861,7 @@ async function ollamaChat(host: string, model: string, messages: Array<{role:str
 		// Fallback on certain server errors too
 		if (res.status >= 500 || res.status === 400) {
 			const prompt = flattenMessages(messages)
-			return ollamaGenerate(host, model, prompt, onToken)
+			return ollamaGenerate(host, model, prompt, onToken, signal)
 		}
 		throw new Error(`Ollama chat failed: ${res.status}${body ? ` - ${body.slice(0,200)}` : ''}`)
 	}
@@ -861,18 +872,23 @@ async function ollamaChat(host: string, model: string, messages: Array<{role:str
 	let full = ''
 	const reader = res.body!.getReader()
 	const decoder = new TextDecoder()
-	while (true) {
-		const { done, value } = await reader.read()
-		if (done) break
-		const text = decoder.decode(value, { stream: true })
-		for (const line of text.split('\n')) {
-			if (!line.trim()) continue
-			try {
-				const obj = JSON.parse(line)
-				const chunk = obj?.message?.content || ''
-				if (chunk) { full += chunk; onToken?.(chunk) }
-			} catch {}
+	try {
+		while (true) {
+			const { done, value } = await reader.read()
+			if (done) break
+			const text = decoder.decode(value, { stream: true })
+			for (const line of text.split('\n')) {
+				if (!line.trim()) continue
+				try {
+					const obj = JSON.parse(line)
+					const chunk = obj?.message?.content || ''
+					if (chunk) { full += chunk; onToken?.(chunk) }
+				} catch {}
+			}
 		}
+	} catch (err) {
+		// An aborted stream keeps what it received so far
+		if (!signal?.aborted) throw err
 	}
 	return full
 }
@@ -1108,7 +1124,10 @@ const electronAPI = {
 		const answer = await ollamaChat(host, currentModel, [{ role: 'user', content: prompt }])
 		return { answer, sources }
 	},
-	contentStreamSearchAndAnswer: async (query: string, _chatId?: number) => {
+	contentStreamSearchAndAnswer: async (query: string, chatId?: number) => {
+		__activeWebStream?.abort()
+		const controller = new AbortController()
+		__activeWebStream = controller
 		const host = await getResolvedOllamaHost()
 		let currentModel: string
 		try { currentModel = await chooseOllamaModel(host) } catch (e:any) { throw e }
@@ -1126,16 +1145,29 @@ const electronAPI = {
 					full += chunk
 					// Emit to any listeners the UI registered
 					try { (listeners || []).forEach(fn=>fn({ chunk })) } catch {}
-				})
+				}, controller.signal)
+				const cancelled = controller.signal.aborted
+				// Persist like the desktop main process does, before signalling done
+				if (chatId && full) {
+					const metadata = JSON.stringify(cancelled ? { sources, truncated: true } : { sources })
+					await electronAPI.chatAddMessage(chatId, 'assistant', full, metadata)
+				}
 				const done = (window as any).__isla_streamDone
-				done && done({ answer: full, sources })
+				done && done({ answer: full, sources, cancelled })
 			} catch (e:any) {
 				const done = (window as any).__isla_streamDone
 				done && done({ answer: `Error: ${e?.message || e}`, sources })
+			} finally {
+				if (__activeWebStream === controller) __activeWebStream = null
 			}
 		}, 0)
 		return { started: true }
 	},
+	contentCancelStream: async () => {
+		if (!__activeWebStream) return { cancelled: false }
+		__activeWebStream.abort()
+		return { cancelled: true }
+	},
 	onContentStreamChunk: (cb: (payload: { chunk: string }) => void) => {
 		const listeners: Array<(d:any)=>void> = (window as any).__isla_streamListeners || []
 		listeners.push(cb)
@@ -1145,7 +1177,7 @@ const electronAPI = {
 			;(window as any).__isla_streamListeners = arr.filter(f=>f!==cb)
 		}
 	},
-	onContentStreamDone: (cb: (payload: { answer: string; sources: any[] }) => void) => {
+	onContentStreamDone: (cb: (payload: { answer: string; sources: any[]; cancelled?: boolean }) => void) => {
 		;(window as any).__isla_streamDone = cb
 		return () => { (window as any).__isla_streamDone = undefined }
 	},
@@ -0,0 +1,10 @@
+import { defineConfig } from 'vitest/config'
+
+// Main-process tests run in plain Node; vite.config.ts is rooted at the renderer
+export default defineConfig({
+  test: {
+    include: ['src/main/**/*.test.ts'],
+    environment: 'node',
+    testTimeout: 15000
+  }
+})